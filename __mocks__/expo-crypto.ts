@@ -0,0 +1,5 @@
+// expo-crypto backed by the test runtime's WebCrypto
+export const getRandomBytes = (byteCount: number): Uint8Array =>
+  crypto.getRandomValues(new Uint8Array(byteCount));
+
+export const randomUUID = (): string => crypto.randomUUID();
@@ -0,0 +1,12 @@
+// In-memory SecureStore for tests
+const items = new Map<string, string>();
+
+export const getItemAsync = async (key: string): Promise<string | null> => items.get(key) ?? null;
+
+export const setItemAsync = async (key: string, value: string): Promise<void> => {
+  items.set(key, value);
+};
+
+export const deleteItemAsync = async (key: string): Promise<void> => {
+  items.delete(key);
+};
@@ -1,14 +1,60 @@
-import { Tabs } from 'expo-router';
-import React from 'react';
+import { Tabs, useRouter } from 'expo-router';
+import React, { useEffect } from 'react';
+import { Alert } from 'react-native';
 
 import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { AppColors } from '../../constants/colors';
+import { useChatContext } from '../../context/ChatContext';
+import { ConversationSettingsService } from '../../services/conversationSettingsService';
+import { PushService } from '../../services/pushService';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const router = useRouter();
+  const { conversations, conversationSettings, addedDevice, dismissAddedDevice } =
+    useChatContext();
+
+  // Muted conversations keep their own counts but don't add to the tab badge
+  const unreadTotal = conversations.reduce(
+    (total, conv) =>
+      ConversationSettingsService.isMuted(conversationSettings[conv.id])
+        ? total
+        : total + conv.unreadCount,
+    0
+  );
+
+  // Stays mounted under every signed-in screen, so taps open the chat from anywhere
+  useEffect(() => {
+    const subscription = PushService.subscribeToNotificationTaps((conversationId) => {
+      router.push({ pathname: '/chat/[id]', params: { id: conversationId } });
+    });
+    return () => subscription.remove();
+  }, [router]);
+
+  // Messages are encrypted for every device on the account, so the user has
+  // to know when one is added
+  useEffect(() => {
+    if (!addedDevice) return;
+
+    Alert.alert(
+      'New Device',
+      `${addedDevice.name} was added to your account. If this wasn't you, remove it and change your password.`,
+      [
+        { text: 'OK', onPress: dismissAddedDevice },
+        {
+          text: 'Review Devices',
+          onPress: () => {
+            dismissAddedDevice();
+            router.push('/devices');
+          },
+        },
+      ],
+      { cancelable: false }
+    );
+  }, [addedDevice, dismissAddedDevice, router]);
 
   return (
     <Tabs
@@ -29,6 +75,7 @@ export default function TabLayout() {
         name="contacts"
         options={{
           title: 'Chats',
+          tabBarBadge: unreadTotal > 0 ? (unreadTotal > 99 ? '99+' : unreadTotal) : undefined,
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="message.fill" color={color} />,
         }}
       />
@@ -1,102 +1,521 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   Image,
+  Alert,
 } from 'react-native';
 import { useRouter } from 'expo-router';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import ReanimatedSwipeable, {
+  SwipeableMethods,
+} from 'react-native-gesture-handler/ReanimatedSwipeable';
 import { useChatContext } from '../../context/ChatContext';
-import { Contact } from '../../types/chat';
+import { ChatConversation, Contact, ContactRequest, Group } from '../../types/chat';
 import { AppColors } from '../../constants/colors';
+import {
+  ConversationSettingsService,
+  MUTE_DURATIONS,
+} from '../../services/conversationSettingsService';
+import { formatLastSeen, formatMessageTime } from '../../utils/time';
+
+type ChatListItem =
+  | { type: 'direct'; id: string; contact: Contact }
+  | { type: 'group'; id: string; group: Group };
+
+interface ChatListSection {
+  key: 'pinned' | 'active' | 'archived';
+  title: string;
+  data: ChatListItem[];
+}
 
 export default function ContactsScreen() {
   const router = useRouter();
-  const { contacts, conversations } = useChatContext();
+  const {
+    currentUser,
+    contacts,
+    removeContact,
+    contactRequests,
+    acceptContactRequest,
+    declineContactRequest,
+    cancelContactRequest,
+    blockedUserIds,
+    blockUser,
+    unblockUser,
+    groups,
+    conversations,
+    conversationSettings,
+    archiveConversation,
+    muteConversation,
+    pinConversation,
+    typingContacts,
+  } = useChatContext();
+  const [showArchived, setShowArchived] = useState(false);
+  // Conversation the mute durations are shown for
+  const [mutingId, setMutingId] = useState<string | null>(null);
+  // Re-render every minute so relative times stay current
+  const [, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const incomingRequests = contactRequests.filter((r) => r.recipientId === currentUser?.id);
+  const outgoingRequests = contactRequests.filter((r) => r.senderId === currentUser?.id);
+
+  const conversationsById = new Map(conversations.map((conv) => [conv.id, conv]));
+  const getConversation = (conversationId: string): ChatConversation | undefined =>
+    conversationsById.get(conversationId);
+  const getLastActivity = (conversationId: string): number =>
+    getConversation(conversationId)?.lastMessage?.timestamp.getTime() ?? 0;
+
+  // Most recent activity first; conversations without messages go last
+  const items: ChatListItem[] = [
+    ...groups.map((group): ChatListItem => ({ type: 'group', id: group.id, group })),
+    ...contacts.map((contact): ChatListItem => ({ type: 'direct', id: contact.id, contact })),
+  ].sort((a, b) => getLastActivity(b.id) - getLastActivity(a.id));
+  const pinned = items
+    .filter((item) => conversationSettings[item.id]?.pinnedAt)
+    .sort(
+      (a, b) =>
+        (conversationSettings[b.id].pinnedAt?.getTime() ?? 0) -
+        (conversationSettings[a.id].pinnedAt?.getTime() ?? 0)
+    );
+  const archived = items.filter((item) => conversationSettings[item.id]?.archivedAt);
+  const active = items.filter(
+    (item) => !conversationSettings[item.id]?.pinnedAt && !conversationSettings[item.id]?.archivedAt
+  );
+  const sections: ChatListSection[] = [];
+  if (pinned.length > 0) {
+    sections.push({ key: 'pinned', title: 'Pinned', data: pinned });
+  }
+  sections.push({ key: 'active', title: 'Chats', data: active });
+  if (archived.length > 0) {
+    // Collapsed until the header is tapped
+    sections.push({
+      key: 'archived',
+      title: `Archived (${archived.length})`,
+      data: showArchived ? archived : [],
+    });
+  }
 
-  const getUnreadCount = (contactId: string): number => {
-    const conversation = conversations.find((c) => c.contactId === contactId);
-    return conversation?.unreadCount || 0;
+  const getUnreadCount = (conversationId: string): number =>
+    getConversation(conversationId)?.unreadCount || 0;
+
+  const getLastMessagePreview = (conversationId: string, group?: Group): string => {
+    if (typingContacts[conversationId]?.length) {
+      return 'typing…';
+    }
+    const lastMessage = getConversation(conversationId)?.lastMessage;
+    if (!lastMessage) {
+      return 'No messages yet';
+    }
+    if (lastMessage.deletedAt) {
+      return 'Message deleted';
+    }
+
+    const text =
+      lastMessage.content || (lastMessage.attachment ? `📎 ${lastMessage.attachment.name}` : '');
+    if (lastMessage.senderId === currentUser?.id) {
+      return `You: ${text}`;
+    }
+    if (group) {
+      const sender = group.members.find((m) => m.userId === lastMessage.senderId);
+      return sender ? `${sender.name}: ${text}` : text;
+    }
+    return text;
   };
 
-  const getLastMessagePreview = (contactId: string): string => {
-    const conversation = conversations.find((c) => c.contactId === contactId);
-    if (conversation?.lastMessage) {
-      return conversation.lastMessage.content.substring(0, 50) + '...';
+  const renderUnreadBadge = (conversationId: string, muted: boolean) => {
+    const unreadCount = getUnreadCount(conversationId);
+    if (unreadCount === 0) return null;
+
+    return (
+      <View style={[styles.unreadBadge, muted && styles.mutedUnreadBadge]}>
+        <Text style={styles.unreadText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+      </View>
+    );
+  };
+
+  const handleContactLongPress = (contact: Contact) => {
+    const blocked = blockedUserIds.includes(contact.id);
+
+    Alert.alert(contact.name, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      blocked
+        ? {
+            text: 'Unblock',
+            onPress: async () => {
+              if (!(await unblockUser(contact.id))) {
+                Alert.alert('Error', 'Failed to unblock contact');
+              }
+            },
+          }
+        : {
+            text: 'Block',
+            style: 'destructive',
+            onPress: async () => {
+              if (!(await blockUser(contact.id))) {
+                Alert.alert('Error', 'Failed to block contact');
+              }
+            },
+          },
+    ]);
+  };
+
+  const handleRemoveContact = (contact: Contact) => {
+    Alert.alert(
+      'Remove Contact',
+      `Remove ${contact.name} from your contacts? Your messages stay on this device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            if (!(await removeContact(contact.id))) {
+              Alert.alert('Error', 'Failed to remove contact');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const runSwipeAction = async (
+    swipeable: SwipeableMethods,
+    action: () => Promise<boolean>
+  ) => {
+    swipeable.close();
+    if (!(await action())) {
+      Alert.alert('Error', 'Could not update the conversation. Please try again.');
     }
-    return 'No messages yet';
   };
 
-  const formatLastSeen = (date?: Date): string => {
-    if (!date) return 'Never';
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const minutes = Math.floor(diff / 60000);
-    const hours = Math.floor(minutes / 60);
-    const days = Math.floor(hours / 24);
-
-    if (minutes < 1) return 'Just now';
-    if (minutes < 60) return `${minutes}m ago`;
-    if (hours < 24) return `${hours}h ago`;
-    return `${days}d ago`;
+  const handleMute = async (until: Date) => {
+    if (!mutingId) return;
+    const conversationId = mutingId;
+    setMutingId(null);
+    if (!(await muteConversation(conversationId, until))) {
+      Alert.alert('Error', 'Failed to mute conversation');
+    }
+  };
+
+  const renderPinAction = (item: ChatListItem, swipeable: SwipeableMethods) => {
+    // Archived conversations aren't pinned; unarchive them first
+    if (conversationSettings[item.id]?.archivedAt) return null;
+    const isPinned = !!conversationSettings[item.id]?.pinnedAt;
+
+    return (
+      <TouchableOpacity
+        style={styles.swipeAction}
+        onPress={() => runSwipeAction(swipeable, () => pinConversation(item.id, !isPinned))}
+      >
+        <Text style={styles.swipeActionText}>{isPinned ? 'Unpin' : 'Pin'}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderConversationActions = (item: ChatListItem, swipeable: SwipeableMethods) => {
+    const settings = conversationSettings[item.id];
+    const muted = ConversationSettingsService.isMuted(settings);
+    const isArchived = !!settings?.archivedAt;
+
+    return (
+      <View style={styles.swipeActions}>
+        <TouchableOpacity
+          style={styles.swipeAction}
+          onPress={() => {
+            if (muted) {
+              runSwipeAction(swipeable, () => muteConversation(item.id, null));
+            } else {
+              swipeable.close();
+              setMutingId(item.id);
+            }
+          }}
+        >
+          <Text style={styles.swipeActionText}>{muted ? 'Unmute' : 'Mute'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.swipeAction}
+          onPress={() => runSwipeAction(swipeable, () => archiveConversation(item.id, !isArchived))}
+        >
+          <Text style={styles.swipeActionText}>{isArchived ? 'Unarchive' : 'Archive'}</Text>
+        </TouchableOpacity>
+        {item.type === 'direct' && (
+          <TouchableOpacity
+            style={[styles.swipeAction, styles.destructiveSwipeAction]}
+            onPress={() => {
+              swipeable.close();
+              handleRemoveContact(item.contact);
+            }}
+          >
+            <Text style={styles.swipeActionText}>Remove</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderItem = ({ item }: { item: ChatListItem }) => (
+    <ReanimatedSwipeable
+      friction={2}
+      overshootLeft={false}
+      overshootRight={false}
+      renderLeftActions={(_progress, _translation, swipeable) => renderPinAction(item, swipeable)}
+      renderRightActions={(_progress, _translation, swipeable) =>
+        renderConversationActions(item, swipeable)
+      }
+    >
+      {item.type === 'group' ? renderGroup(item.group) : renderContact(item.contact)}
+    </ReanimatedSwipeable>
+  );
+
+  const renderSectionHeader = ({ section }: { section: ChatListSection }) => {
+    if (section.key === 'archived') {
+      return (
+        <TouchableOpacity onPress={() => setShowArchived((shown) => !shown)}>
+          <Text style={styles.sectionTitle}>
+            {section.title} {showArchived ? '▾' : '▸'}
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+    // The main list only needs a title when something is pinned above it
+    if (section.key === 'active' && sections[0].key !== 'pinned') return null;
+
+    return <Text style={styles.sectionTitle}>{section.title}</Text>;
   };
 
-  const renderContact = ({ item }: { item: Contact }) => {
-    const unreadCount = getUnreadCount(item.id);
-    const lastMessage = getLastMessagePreview(item.id);
+  const renderContact = (contact: Contact) => {
+    const lastMessage = getConversation(contact.id)?.lastMessage;
+    const blocked = blockedUserIds.includes(contact.id);
+    const muted = ConversationSettingsService.isMuted(conversationSettings[contact.id]);
 
     return (
       <TouchableOpacity
         style={styles.contactItem}
-        onPress={() => router.push(`/chat/${item.id}`)}
+        onPress={() => router.push(`/chat/${contact.id}`)}
+        onLongPress={() => handleContactLongPress(contact)}
       >
         <View style={styles.avatarContainer}>
-          <Image source={{ uri: item.avatar }} style={styles.avatar} />
-          {item.isOnline && <View style={styles.onlineIndicator} />}
+          <Image source={{ uri: contact.avatar }} style={styles.avatar} />
+          {contact.isOnline && !blocked && <View style={styles.onlineIndicator} />}
         </View>
 
         <View style={styles.contactInfo}>
           <View style={styles.contactHeader}>
-            <Text style={styles.contactName}>{item.name}</Text>
+            <Text style={styles.contactName} numberOfLines={1}>
+              {contact.name}
+              {muted && ' 🔕'}
+            </Text>
             <Text style={styles.lastSeen}>
-              {item.isOnline ? 'Online' : formatLastSeen(item.lastSeen)}
+              {blocked
+                ? 'Blocked'
+                : lastMessage
+                  ? formatMessageTime(lastMessage.timestamp)
+                  : contact.isOnline
+                    ? 'Online'
+                    : formatLastSeen(contact.lastSeen)}
             </Text>
           </View>
           <Text style={styles.lastMessage} numberOfLines={1}>
-            {lastMessage}
+            {getLastMessagePreview(contact.id)}
           </Text>
         </View>
 
-        {unreadCount > 0 && (
-          <View style={styles.unreadBadge}>
-            <Text style={styles.unreadText}>{unreadCount}</Text>
+        {renderUnreadBadge(contact.id, muted)}
+      </TouchableOpacity>
+    );
+  };
+
+  const respondToRequest = async (
+    respond: (request: ContactRequest) => Promise<boolean>,
+    request: ContactRequest
+  ) => {
+    if (!(await respond(request))) {
+      Alert.alert('Error', 'Could not update the request. Please try again.');
+    }
+  };
+
+  const handleCancelRequest = (request: ContactRequest) => {
+    Alert.alert('Cancel Request', `Cancel your contact request to ${request.user.name}?`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel Request',
+        style: 'destructive',
+        onPress: () => respondToRequest(cancelContactRequest, request),
+      },
+    ]);
+  };
+
+  const renderRequest = (request: ContactRequest) => {
+    const incoming = request.recipientId === currentUser?.id;
+
+    return (
+      <View key={request.id} style={styles.contactItem}>
+        <View style={styles.avatarContainer}>
+          {request.user.avatar ? (
+            <Image source={{ uri: request.user.avatar }} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatar, styles.groupAvatar]}>
+              <Text style={styles.groupAvatarText}>
+                {request.user.name.charAt(0).toUpperCase()}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.contactInfo}>
+          <Text style={styles.contactName}>{request.user.name}</Text>
+          <Text style={styles.lastMessage} numberOfLines={2}>
+            {request.note ||
+              (request.user.username ? `@${request.user.username}` : request.user.email)}
+          </Text>
+          <View style={styles.requestActions}>
+            {incoming ? (
+              <>
+                <TouchableOpacity
+                  style={styles.requestButton}
+                  onPress={() => respondToRequest(acceptContactRequest, request)}
+                >
+                  <Text style={styles.requestButtonText}>Accept</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.requestSecondaryButton}
+                  onPress={() => respondToRequest(declineContactRequest, request)}
+                >
+                  <Text style={styles.requestSecondaryButtonText}>Decline</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <TouchableOpacity
+                style={styles.requestSecondaryButton}
+                onPress={() => handleCancelRequest(request)}
+              >
+                <Text style={styles.requestSecondaryButtonText}>Cancel Request</Text>
+              </TouchableOpacity>
+            )}
           </View>
-        )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderGroup = (group: Group) => {
+    const lastMessage = getConversation(group.id)?.lastMessage;
+    const muted = ConversationSettingsService.isMuted(conversationSettings[group.id]);
+
+    return (
+      <TouchableOpacity
+        style={styles.contactItem}
+        onPress={() => router.push(`/chat/${group.id}`)}
+      >
+        <View style={styles.avatarContainer}>
+          {group.avatar ? (
+            <Image source={{ uri: group.avatar }} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatar, styles.groupAvatar]}>
+              <Text style={styles.groupAvatarText}>{group.name.charAt(0).toUpperCase()}</Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.contactInfo}>
+          <View style={styles.contactHeader}>
+            <Text style={styles.contactName} numberOfLines={1}>
+              {group.name}
+              {muted && ' 🔕'}
+            </Text>
+            <Text style={styles.lastSeen}>
+              {lastMessage
+                ? formatMessageTime(lastMessage.timestamp)
+                : `${group.members.length} members`}
+            </Text>
+          </View>
+          <Text style={styles.lastMessage} numberOfLines={1}>
+            {getLastMessagePreview(group.id, group)}
+          </Text>
+        </View>
+
+        {renderUnreadBadge(group.id, muted)}
       </TouchableOpacity>
     );
   };
 
   return (
-    <View style={styles.container}>
+    <GestureHandlerRootView style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Chats</Text>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => router.push('/add-contact')}
-        >
-          <Text style={styles.addButtonText}>+ Add</Text>
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => router.push('/search')}
+          >
+            <Text style={styles.addButtonText}>Search</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => router.push('/new-group')}
+          >
+            <Text style={styles.addButtonText}>+ Group</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => router.push('/add-contact')}
+          >
+            <Text style={styles.addButtonText}>+ Add</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
-      <FlatList
-        data={contacts}
+      <SectionList
+        sections={sections}
         keyExtractor={(item) => item.id}
-        renderItem={renderContact}
+        renderItem={renderItem}
+        renderSectionHeader={renderSectionHeader}
+        stickySectionHeadersEnabled={false}
+        ListHeaderComponent={
+          <>
+            {incomingRequests.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Contact Requests</Text>
+                {incomingRequests.map(renderRequest)}
+              </>
+            )}
+            {outgoingRequests.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Sent Requests</Text>
+                {outgoingRequests.map(renderRequest)}
+              </>
+            )}
+          </>
+        }
         contentContainerStyle={styles.listContent}
       />
-    </View>
+
+      {mutingId && (
+        <View style={styles.mutePanel}>
+          <Text style={styles.mutePanelTitle}>Mute notifications for</Text>
+          {MUTE_DURATIONS.map(({ label, until }) => (
+            <TouchableOpacity
+              key={label}
+              style={styles.muteOption}
+              onPress={() => handleMute(until())}
+            >
+              <Text style={styles.muteOptionText}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.muteOption} onPress={() => setMutingId(null)}>
+            <Text style={styles.muteOptionText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </GestureHandlerRootView>
   );
 }
 
@@ -119,6 +538,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: AppColors.text,
   },
+  headerButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   addButton: {
     backgroundColor: AppColors.primary,
     paddingHorizontal: 16,
@@ -134,10 +557,20 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     paddingBottom: 100,
   },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: AppColors.textTertiary,
+    textTransform: 'uppercase',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
   contactItem: {
     flexDirection: 'row',
     padding: 16,
     alignItems: 'center',
+    backgroundColor: AppColors.background,
     borderBottomWidth: 1,
     borderBottomColor: AppColors.disabledBackground,
   },
@@ -150,6 +583,16 @@ const styles = StyleSheet.create({
     height: 56,
     borderRadius: 28,
   },
+  groupAvatar: {
+    backgroundColor: AppColors.messageBubbleOther,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  groupAvatarText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
   onlineIndicator: {
     position: 'absolute',
     bottom: 2,
@@ -171,6 +614,8 @@ const styles = StyleSheet.create({
     marginBottom: 4,
   },
   contactName: {
+    flexShrink: 1,
+    marginRight: 8,
     fontSize: 17,
     fontWeight: '600',
     color: AppColors.text,
@@ -183,6 +628,34 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: AppColors.textSecondary,
   },
+  requestActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  requestButton: {
+    backgroundColor: AppColors.primary,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  requestButtonText: {
+    color: AppColors.white,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  requestSecondaryButton: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  requestSecondaryButtonText: {
+    color: AppColors.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   unreadBadge: {
     backgroundColor: AppColors.primary,
     borderRadius: 12,
@@ -193,9 +666,50 @@ const styles = StyleSheet.create({
     paddingHorizontal: 8,
     marginLeft: 8,
   },
+  mutedUnreadBadge: {
+    backgroundColor: AppColors.disabled,
+  },
   unreadText: {
     color: AppColors.white,
     fontSize: 12,
     fontWeight: '600',
   },
+  swipeActions: {
+    flexDirection: 'row',
+  },
+  swipeAction: {
+    backgroundColor: AppColors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 84,
+  },
+  destructiveSwipeAction: {
+    backgroundColor: AppColors.danger,
+  },
+  swipeActionText: {
+    color: AppColors.white,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  mutePanel: {
+    padding: 16,
+    paddingBottom: 100,
+    borderTopWidth: 1,
+    borderTopColor: AppColors.borderLight,
+    backgroundColor: AppColors.background,
+  },
+  mutePanelTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: AppColors.text,
+    marginBottom: 8,
+  },
+  muteOption: {
+    paddingVertical: 10,
+  },
+  muteOptionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
 });
@@ -8,46 +8,180 @@ import {
   TouchableOpacity,
   Image,
   Alert,
+  Switch,
 } from "react-native";
+import { useRouter } from "expo-router";
 import { useChatContext } from "../../context/ChatContext";
+import { AuthService } from "../../services/authService";
+import { KeyBackupService } from "../../services/keyBackupService";
 import { mockAvatarOptions } from "../../mock/data";
 import { AppColors } from "../../constants/colors";
+import { PrivacySettings, ProfileVisibility } from "../../types/chat";
+
+const USERNAME_PATTERN = /^[a-z0-9_]{3,30}$/;
+
+const DEFAULT_PRIVACY: PrivacySettings = {
+  discoverable: true,
+  emailVisibility: "contacts",
+  avatarVisibility: "everyone",
+};
+
+const VISIBILITY_OPTIONS: { value: ProfileVisibility; label: string }[] = [
+  { value: "everyone", label: "Everyone" },
+  { value: "contacts", label: "Contacts" },
+  { value: "nobody", label: "Nobody" },
+];
 
 export default function ProfileScreen() {
-  const { currentUser, updateCurrentUser } = useChatContext();
-  const [name, setName] = useState(currentUser.name);
-  const [email, setEmail] = useState(currentUser.email);
-  const [bio, setBio] = useState(currentUser.bio || "");
+  const router = useRouter();
+  const { currentUser, updateCurrentUser, rotateKeys } = useChatContext();
+  const [name, setName] = useState(currentUser?.name ?? "");
+  const [email, setEmail] = useState(currentUser?.email ?? "");
+  const [username, setUsername] = useState(currentUser?.username ?? "");
+  const [bio, setBio] = useState(currentUser?.bio || "");
   const [selectedAvatar, setSelectedAvatar] = useState(
-    currentUser.avatar || mockAvatarOptions[0]
+    currentUser?.avatar || mockAvatarOptions[0]
   );
   const [isEditing, setIsEditing] = useState(false);
 
-  const handleSave = () => {
+  const privacy = currentUser?.privacy ?? DEFAULT_PRIVACY;
+
+  const handleSave = async () => {
     if (!name || !email) {
       Alert.alert("Error", "Name and email are required");
       return;
     }
+    const handle = username.trim().replace(/^@/, "").toLowerCase();
+    if (handle && !USERNAME_PATTERN.test(handle)) {
+      Alert.alert(
+        "Error",
+        "Usernames are 3 to 30 letters, numbers or underscores"
+      );
+      return;
+    }
 
-    updateCurrentUser({
+    const saved = await updateCurrentUser({
       name,
       email,
+      username: handle,
       bio,
       avatar: selectedAvatar,
     });
+    if (!saved) {
+      Alert.alert(
+        "Error",
+        "Failed to update your profile. The username may already be taken."
+      );
+      return;
+    }
 
+    setUsername(handle);
     setIsEditing(false);
     Alert.alert("Success", "Profile updated successfully!");
   };
 
+  const handlePrivacyChange = async (changes: Partial<PrivacySettings>) => {
+    if (!(await updateCurrentUser({ privacy: { ...privacy, ...changes } }))) {
+      Alert.alert("Error", "Failed to update privacy settings");
+    }
+  };
+
+  const renderVisibilityOptions = (
+    value: ProfileVisibility,
+    onChange: (visibility: ProfileVisibility) => void
+  ) => (
+    <View style={styles.segmentedControl}>
+      {VISIBILITY_OPTIONS.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          style={[
+            styles.segment,
+            value === option.value && styles.segmentSelected,
+          ]}
+          onPress={() => onChange(option.value)}
+        >
+          <Text
+            style={[
+              styles.segmentText,
+              value === option.value && styles.segmentTextSelected,
+            ]}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   const handleCancel = () => {
-    setName(currentUser.name);
-    setEmail(currentUser.email);
-    setBio(currentUser.bio || "");
-    setSelectedAvatar(currentUser.avatar || mockAvatarOptions[0]);
+    setName(currentUser?.name ?? "");
+    setEmail(currentUser?.email ?? "");
+    setUsername(currentUser?.username ?? "");
+    setBio(currentUser?.bio || "");
+    setSelectedAvatar(currentUser?.avatar || mockAvatarOptions[0]);
     setIsEditing(false);
   };
 
+  const handleRotateKeys = () => {
+    Alert.alert(
+      "Rotate Keys",
+      "Generate a new encryption key for this device? Older messages stay readable here. Contacts who verified you will see that your security code changed.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Rotate",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await rotateKeys();
+              const backup = currentUser
+                ? await KeyBackupService.getBackupInfo(currentUser.id)
+                : null;
+              Alert.alert(
+                "Success",
+                backup
+                  ? "Your keys were rotated. Update your key backup so it includes the new key."
+                  : "Your keys were rotated."
+              );
+            } catch (error) {
+              console.error("Error rotating keys:", error);
+              Alert.alert("Error", "Failed to rotate keys");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLogout = async () => {
+    // Logging out deletes this device's keys; without a backup they are gone
+    const backup = currentUser
+      ? await KeyBackupService.getBackupInfo(currentUser.id)
+      : null;
+    const message = backup
+      ? "Are you sure you want to log out?"
+      : "You have no key backup. If this is your last device, you will not be able to read your messages after logging out.";
+
+    Alert.alert("Log Out", message, [
+      { text: "Cancel", style: "cancel" },
+      ...(backup
+        ? []
+        : [{ text: "Back Up Keys", onPress: () => router.push("/key-backup") }]),
+      {
+        text: "Log Out",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await AuthService.logout();
+          } catch (error) {
+            console.error("Error logging out:", error);
+            Alert.alert("Error", "Failed to log out");
+          }
+        },
+      },
+    ]);
+  };
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.header}>
@@ -110,6 +244,21 @@ export default function ProfileScreen() {
           />
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.label}>Username</Text>
+          <TextInput
+            style={[styles.input, !isEditing && styles.inputDisabled]}
+            value={isEditing || !username ? username : `@${username}`}
+            onChangeText={setUsername}
+            placeholder={isEditing ? "Pick a handle people can find you by" : "Not set"}
+            autoCapitalize="none"
+            autoCorrect={false}
+            maxLength={31}
+            editable={isEditing}
+            placeholderTextColor={AppColors.textTertiary}
+          />
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.label}>Email</Text>
           <TextInput
@@ -139,6 +288,56 @@ export default function ProfileScreen() {
             placeholderTextColor={AppColors.textTertiary}
           />
         </View>
+
+        {!isEditing && (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.label}>Privacy</Text>
+              <View style={styles.privacyRow}>
+                <View style={styles.privacyText}>
+                  <Text style={styles.privacyTitle}>Discoverable</Text>
+                  <Text style={styles.privacyHint}>
+                    Let people find you by name, username or email. When off,
+                    only people you already know can see your profile.
+                  </Text>
+                </View>
+                <Switch
+                  value={privacy.discoverable}
+                  onValueChange={(discoverable) =>
+                    handlePrivacyChange({ discoverable })
+                  }
+                />
+              </View>
+              <Text style={styles.privacyTitle}>Who can see my email</Text>
+              {renderVisibilityOptions(privacy.emailVisibility, (emailVisibility) =>
+                handlePrivacyChange({ emailVisibility })
+              )}
+              <Text style={styles.privacyTitle}>Who can see my photo</Text>
+              {renderVisibilityOptions(privacy.avatarVisibility, (avatarVisibility) =>
+                handlePrivacyChange({ avatarVisibility })
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={styles.logoutButton}
+              onPress={() => router.push("/devices")}
+            >
+              <Text style={styles.logoutButtonText}>Linked Devices</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.logoutButton}
+              onPress={() => router.push("/key-backup")}
+            >
+              <Text style={styles.logoutButtonText}>Key Backup</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.logoutButton} onPress={handleRotateKeys}>
+              <Text style={styles.logoutButtonText}>Rotate Keys</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
+              <Text style={styles.logoutButtonText}>Log Out</Text>
+            </TouchableOpacity>
+          </>
+        )}
       </View>
     </ScrollView>
   );
@@ -271,6 +470,62 @@ const styles = StyleSheet.create({
     height: 80,
     textAlignVertical: "top",
   },
+  logoutButton: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  logoutButtonText: {
+    color: AppColors.text,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  privacyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  privacyText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  privacyTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: AppColors.text,
+    marginBottom: 4,
+  },
+  privacyHint: {
+    fontSize: 13,
+    color: AppColors.textSecondary,
+  },
+  segmentedControl: {
+    flexDirection: "row",
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    overflow: "hidden",
+    marginBottom: 16,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  segmentSelected: {
+    backgroundColor: AppColors.primary,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: AppColors.text,
+  },
+  segmentTextSelected: {
+    color: AppColors.white,
+  },
   statsSection: {
     marginTop: 24,
   },
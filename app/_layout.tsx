@@ -21,26 +21,41 @@ export const unstable_settings = {
 };
 
 function RootLayoutNav() {
-  const { currentUser } = useChatContext();
+  const { currentUser, keyRestoreOffered, deviceLinkRequired } = useChatContext();
   const segments = useSegments();
   const router = useRouter();
 
   useEffect(() => {
     const inTabs = segments[0] === "(tabs)";
+    const inRestoreKeys = segments[0] === "restore-keys";
+    const inLinkDevice = segments[0] === "link-device";
 
-    if (!currentUser?.isOnboarded && inTabs) {
+    if (keyRestoreOffered) {
+      if (!inRestoreKeys) router.replace("/restore-keys");
+    } else if (deviceLinkRequired) {
+      if (!inLinkDevice) router.replace("/link-device");
+    } else if (inRestoreKeys || inLinkDevice) {
+      router.replace("/(tabs)");
+    } else if (!currentUser?.isOnboarded && inTabs) {
       router.replace("/onboarding");
     } else if (currentUser?.isOnboarded && segments[0] === "onboarding") {
       router.replace("/(tabs)");
     }
-  }, [currentUser?.isOnboarded, segments]);
+  }, [currentUser?.isOnboarded, keyRestoreOffered, deviceLinkRequired, segments]);
 
   return (
     <Stack>
       <Stack.Screen name="onboarding" options={{ headerShown: false }} />
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="add-contact" options={{ headerShown: false }} />
+      <Stack.Screen name="new-group" options={{ headerShown: false }} />
       <Stack.Screen name="chat/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="verify/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="devices" options={{ headerShown: false }} />
+      <Stack.Screen name="link-device" options={{ headerShown: false }} />
+      <Stack.Screen name="key-backup" options={{ headerShown: false }} />
+      <Stack.Screen name="restore-keys" options={{ headerShown: false }} />
+      <Stack.Screen name="search" options={{ headerShown: false }} />
       <Stack.Screen
         name="modal"
         options={{ presentation: "modal", title: "Modal" }}
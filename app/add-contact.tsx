@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,35 +7,114 @@ import {
   StyleSheet,
   ScrollView,
   Image,
+  Alert,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useChatContext } from '../context/ChatContext';
-import { mockAvatarOptions } from '../mock/data';
+import { ChatService } from '../services/chatService';
+import { UserProfile } from '../types/chat';
 import { AppColors } from '../constants/colors';
 
+const SEARCH_DELAY_MS = 250;
+
 export default function AddContactScreen() {
   const router = useRouter();
-  const { addContact } = useChatContext();
-  const [name, setName] = useState('');
-  const [email, setEmail] = useState('');
-  const [selectedAvatar, setSelectedAvatar] = useState(mockAvatarOptions[3]);
+  const { currentUser, contacts, contactRequests, sendContactRequest } = useChatContext();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserProfile[]>([]);
+  const [searched, setSearched] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+
+  // Search the directory as the user types, once they pause
+  useEffect(() => {
+    if (!currentUser || query.trim().length < 2) {
+      setResults([]);
+      setSearched(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const found = await ChatService.searchUsers(query);
+      if (cancelled) return;
+      setResults(found);
+      setSearched(true);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentUser, query]);
+
+  const getStatus = (user: UserProfile): string | null => {
+    if (contacts.some((c) => c.id === user.id)) return 'Contact';
+    const request = contactRequests.find(
+      (r) => r.senderId === user.id || r.recipientId === user.id
+    );
+    if (!request) return null;
+    return request.senderId === user.id ? 'Wants to add you' : 'Requested';
+  };
 
   const handleAddContact = async () => {
-    if (!email) {
-      alert('Please enter an email address');
+    if (!selectedUser) {
+      Alert.alert('Error', 'Search for someone to add first');
       return;
     }
 
-    try {
-      await addContact(email);
+    setSending(true);
+    const request = await sendContactRequest(selectedUser.id, note);
+    setSending(false);
+
+    if (!request) {
+      Alert.alert(
+        'Error',
+        'Could not send the request. They may already be one of your contacts or requests.'
+      );
+    } else if (request.status === 'accepted') {
+      Alert.alert('Contact Added', `${request.user.name} had already asked to add you.`);
+      router.back();
+    } else {
+      Alert.alert('Request Sent', `${request.user.name} can now accept your request.`);
       router.back();
-    } catch (error) {
-      alert('Failed to add contact. Please make sure the email is registered.');
     }
   };
 
+  const renderResult = (user: UserProfile) => {
+    const status = getStatus(user);
+    const selected = selectedUser?.id === user.id;
+
+    return (
+      <TouchableOpacity
+        key={user.id}
+        style={[styles.result, selected && styles.resultSelected]}
+        onPress={() => setSelectedUser(selected ? null : user)}
+        disabled={status === 'Contact' || status === 'Requested'}
+      >
+        {user.avatar ? (
+          <Image source={{ uri: user.avatar }} style={styles.resultAvatar} />
+        ) : (
+          <View style={[styles.resultAvatar, styles.resultInitial]}>
+            <Text style={styles.resultInitialText}>{user.name.charAt(0).toUpperCase()}</Text>
+          </View>
+        )}
+        <View style={styles.resultInfo}>
+          <Text style={styles.resultName} numberOfLines={1}>
+            {user.name}
+          </Text>
+          <Text style={styles.resultDetail} numberOfLines={1}>
+            {[user.username && `@${user.username}`, user.email].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+        {status && <Text style={styles.resultStatus}>{status}</Text>}
+      </TouchableOpacity>
+    );
+  };
+
   return (
-    <ScrollView style={styles.container}>
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
       <View style={styles.header}>
         <TouchableOpacity onPress={() => router.back()}>
           <Text style={styles.backButton}>Cancel</Text>
@@ -46,49 +125,50 @@ export default function AddContactScreen() {
 
       <View style={styles.content}>
         <View style={styles.section}>
-          <Text style={styles.label}>Choose Avatar</Text>
-          <View style={styles.avatarGrid}>
-            {mockAvatarOptions.map((avatarUrl) => (
-              <TouchableOpacity
-                key={avatarUrl}
-                onPress={() => setSelectedAvatar(avatarUrl)}
-                style={[
-                  styles.avatarOption,
-                  selectedAvatar === avatarUrl && styles.avatarSelected,
-                ]}
-              >
-                <Image source={{ uri: avatarUrl }} style={styles.avatarImage} />
-              </TouchableOpacity>
-            ))}
-          </View>
-        </View>
-
-        <View style={styles.section}>
-          <Text style={styles.label}>Name *</Text>
+          <Text style={styles.label}>Find People</Text>
           <TextInput
             style={styles.input}
-            placeholder="Enter contact name"
-            value={name}
-            onChangeText={setName}
+            placeholder="Name, @username or email"
+            value={query}
+            onChangeText={setQuery}
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
             placeholderTextColor={AppColors.textTertiary}
           />
+          {results.map(renderResult)}
+          {searched && results.length === 0 && (
+            <Text style={styles.emptyText}>
+              No one found. People who turned off discovery can&apos;t be searched for.
+            </Text>
+          )}
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Email *</Text>
+          <Text style={styles.label}>Note</Text>
           <TextInput
-            style={styles.input}
-            placeholder="Enter contact email"
-            value={email}
-            onChangeText={setEmail}
-            keyboardType="email-address"
-            autoCapitalize="none"
+            style={[styles.input, styles.noteInput]}
+            placeholder="Say who you are (optional)"
+            value={note}
+            onChangeText={setNote}
+            maxLength={280}
+            multiline
             placeholderTextColor={AppColors.textTertiary}
           />
         </View>
 
-        <TouchableOpacity style={styles.button} onPress={handleAddContact}>
-          <Text style={styles.buttonText}>Add Contact</Text>
+        <TouchableOpacity
+          style={[styles.button, (sending || !selectedUser) && styles.buttonDisabled]}
+          onPress={handleAddContact}
+          disabled={sending || !selectedUser}
+        >
+          <Text style={styles.buttonText}>
+            {sending
+              ? 'Sending…'
+              : selectedUser
+                ? `Send Request to ${selectedUser.name}`
+                : 'Send Request'}
+          </Text>
         </TouchableOpacity>
       </View>
     </ScrollView>
@@ -130,26 +210,55 @@ const styles = StyleSheet.create({
     color: AppColors.text,
     marginBottom: 8,
   },
-  avatarGrid: {
+  result: {
     flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 12,
-  },
-  avatarOption: {
-    width: 70,
-    height: 70,
-    borderRadius: 35,
-    borderWidth: 3,
+    alignItems: 'center',
+    padding: 10,
+    marginTop: 8,
+    borderWidth: 2,
     borderColor: 'transparent',
-    padding: 2,
+    borderRadius: 8,
   },
-  avatarSelected: {
+  resultSelected: {
     borderColor: AppColors.primary,
   },
-  avatarImage: {
-    width: '100%',
-    height: '100%',
-    borderRadius: 32,
+  resultAvatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+  resultInitial: {
+    backgroundColor: AppColors.messageBubbleOther,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  resultInitialText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  resultDetail: {
+    fontSize: 14,
+    color: AppColors.textSecondary,
+  },
+  resultStatus: {
+    fontSize: 13,
+    color: AppColors.textTertiary,
+    marginLeft: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: AppColors.textTertiary,
+    marginTop: 12,
   },
   input: {
     borderWidth: 1,
@@ -160,6 +269,10 @@ const styles = StyleSheet.create({
     backgroundColor: AppColors.inputBackground,
     color: AppColors.text,
   },
+  noteInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
   button: {
     backgroundColor: AppColors.primary,
     borderRadius: 8,
@@ -167,6 +280,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: 16,
   },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
   buttonText: {
     color: AppColors.white,
     fontSize: 18,
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -9,45 +9,456 @@ import {
   Image,
   KeyboardAvoidingView,
   Platform,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
-import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
 import { useChatContext } from '../../context/ChatContext';
-import { Message } from '../../types/chat';
+import { Message, MessageStatus, ReportReason } from '../../types/chat';
 import { AppColors } from '../../constants/colors';
+import { AttachmentService } from '../../services/attachmentService';
+import { MessageCacheService } from '../../services/messageCacheService';
+import {
+  QUICK_REACTIONS,
+  ReactionService,
+  ReactionSummary,
+} from '../../services/reactionService';
+import { VerificationService, VerificationStatus } from '../../services/verificationService';
+import { REPORT_REASONS } from '../../services/moderationService';
+import { AttachmentPreview } from '../../components/attachment-preview';
+import { formatLastSeen } from '../../utils/time';
 
 export default function ChatScreen() {
   const router = useRouter();
-  const { id: contactId } = useLocalSearchParams<{ id: string }>();
-  const { currentUser, contacts, getConversation, sendMessage, markMessagesAsRead } =
-    useChatContext();
+  // messageId: scroll to this message once the chat is shown (e.g. a search result)
+  const { id: conversationId, messageId } = useLocalSearchParams<{
+    id: string;
+    messageId?: string;
+  }>();
+  const {
+    currentUser,
+    contacts,
+    groups,
+    getConversation,
+    loadOlderMessages,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    reactions,
+    toggleReaction,
+    markMessagesAsRead,
+    typingContacts,
+    notifyTyping,
+    stopTyping,
+    blockedUserIds,
+    blockUser,
+    unblockUser,
+    reportUser,
+  } = useChatContext();
   const [messageText, setMessageText] = useState('');
+  const [sendingAttachment, setSendingAttachment] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [verification, setVerification] = useState<VerificationStatus>('unverified');
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Long-pressed message the reaction picker and actions are shown for
+  const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<string[] | null>(null); // Message ids, newest first
+  const [searchResultIndex, setSearchResultIndex] = useState(0);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // User being reported and the messages the report is about
+  const [reporting, setReporting] = useState<{ userId: string; messageIds: string[] } | null>(
+    null
+  );
   const flatListRef = useRef<FlatList>(null);
+  const lastMessageId = useRef<string | undefined>(undefined);
+  // Original of a reply that is being loaded, to scroll to once it is in the list
+  const pendingScrollId = useRef<string | null>(messageId ?? null);
 
-  const contact = contacts.find((c) => c.id === contactId);
-  const conversation = getConversation(contactId || '');
+  const contact = contacts.find((c) => c.id === conversationId);
+  const group = groups.find((g) => g.id === conversationId);
+  const conversation = getConversation(conversationId || '');
+  const conversationMessages = conversation?.messages || [];
+  const blocked = !!contact && blockedUserIds.includes(contact.id);
 
+  // Messages that arrive while the chat is open are read straight away
+  const hasUnread = (conversation?.unreadCount || 0) > 0;
   useEffect(() => {
-    if (contactId) {
-      markMessagesAsRead(contactId);
+    if (conversationId) {
+      markMessagesAsRead(conversationId);
+    }
+  }, [conversationId, hasUnread]);
+
+  // Check the contact's keys against the verified ones, again after visiting app/verify
+  const userId = currentUser?.id;
+  const contactId = contact?.id;
+  const contactPublicKey = contact?.publicKey;
+  useFocusEffect(
+    useCallback(() => {
+      if (!userId || !contactId) return;
+      VerificationService.getStatus(userId, { id: contactId, publicKey: contactPublicKey }).then(
+        setVerification
+      );
+    }, [userId, contactId, contactPublicKey])
+  );
+  const keyChanged = verification === 'changed';
+
+  const handleAcceptKeyChange = async () => {
+    if (!currentUser || !contact) return;
+
+    await VerificationService.acceptKeyChange(currentUser.id, contact);
+    setVerification('unverified');
+  };
+
+  const typingUserIds = typingContacts[conversationId || ''] || [];
+
+  const getTypingLabel = (): string | null => {
+    if (typingUserIds.length === 0) return null;
+    if (!group) return 'typing…';
+
+    const names = typingUserIds
+      .map((userId) => group.members.find((m) => m.userId === userId)?.name)
+      .filter(Boolean);
+    if (names.length === 1) return `${names[0]} is typing…`;
+    return 'Several people are typing…';
+  };
+
+  const getHeaderStatus = (): string => {
+    const typingLabel = getTypingLabel();
+    if (typingLabel) return typingLabel;
+    if (group) return `${group.members.length} members`;
+    if (contact?.isOnline) return 'Online';
+    if (contact?.lastSeen) return `Last seen ${formatLastSeen(contact.lastSeen).toLowerCase()}`;
+    return 'Offline';
+  };
+
+  const getSenderName = (senderId: string): string => {
+    if (senderId === currentUser?.id) return 'You';
+    if (group) return group.members.find((m) => m.userId === senderId)?.name ?? 'Unknown';
+    return contact?.name ?? 'Unknown';
+  };
+
+  const getPreviewText = (message: Message): string => {
+    if (message.deletedAt) return 'Message deleted';
+    return message.content || (message.attachment ? `📎 ${message.attachment.name}` : '');
+  };
+
+  const handleChangeText = (text: string) => {
+    setMessageText(text);
+    if (!conversationId) return;
+
+    if (text.trim()) {
+      notifyTyping(conversationId);
+    } else {
+      stopTyping(conversationId);
     }
-  }, [contactId]);
+  };
 
   const handleSend = async () => {
-    if (!messageText.trim() || !contactId || !currentUser) return;
+    if (!messageText.trim() || !conversationId || !currentUser || keyChanged) return;
+
+    if (editingMessage) {
+      await handleSaveEdit(editingMessage);
+      return;
+    }
 
-    await sendMessage({
+    stopTyping(conversationId);
+
+    const sent = await sendMessage({
       senderId: currentUser.id,
-      receiverId: contactId,
+      ...(group ? { groupId: group.id } : { receiverId: conversationId }),
       content: messageText.trim(),
-      isRead: false,
+      replyToId: replyingTo?.id,
     });
+    if (!sent) {
+      // Keep the text so nothing typed is lost
+      Alert.alert('Error', 'Failed to encrypt message');
+      return;
+    }
 
     setMessageText('');
+    setReplyingTo(null);
     setTimeout(() => {
       flatListRef.current?.scrollToEnd({ animated: true });
     }, 100);
   };
 
+  const handleSaveEdit = async (message: Message) => {
+    if (!conversationId) return;
+
+    stopTyping(conversationId);
+    if (messageText.trim() !== message.content) {
+      if (!(await editMessage(message, messageText.trim()))) {
+        Alert.alert('Error', 'Failed to edit message');
+        return;
+      }
+    }
+
+    setEditingMessage(null);
+    setMessageText('');
+  };
+
+  const handleStartEdit = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setMessageText(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setMessageText('');
+    if (conversationId) {
+      stopTyping(conversationId);
+    }
+  };
+
+  const handleDelete = (message: Message) => {
+    Alert.alert('Delete Message', 'Delete this message for everyone in the chat?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (!(await deleteMessage(message))) {
+            Alert.alert('Error', 'Failed to delete message');
+          } else if (editingMessage?.id === message.id) {
+            handleCancelEdit();
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleStartReply = (message: Message) => {
+    if (editingMessage) {
+      handleCancelEdit();
+    }
+    setReplyingTo(message);
+  };
+
+  // Opens the reaction picker and the message's actions, once the server has it
+  const handleMessageLongPress = (message: Message) => {
+    if (message.deletedAt || message.status === 'sending' || message.status === 'failed') return;
+    setSelectedMessage(message);
+  };
+
+  const handleMessageAction = (action: (message: Message) => void) => {
+    if (!selectedMessage) return;
+
+    const message = selectedMessage;
+    setSelectedMessage(null);
+    action(message);
+  };
+
+  const handleBlock = (userId: string) => {
+    Alert.alert(
+      `Block ${getSenderName(userId)}?`,
+      'They will not be able to message you or send you contact requests. They are not told that you blocked them.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Block',
+          style: 'destructive',
+          onPress: async () => {
+            if (!(await blockUser(userId))) {
+              Alert.alert('Error', 'Failed to block contact');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleUnblock = async (userId: string) => {
+    if (!(await unblockUser(userId))) {
+      Alert.alert('Error', 'Failed to unblock contact');
+    }
+  };
+
+  // Reports the contact's recent messages when not reporting a specific one
+  const handleReportContact = () => {
+    if (!contact) return;
+
+    setReporting({
+      userId: contact.id,
+      messageIds: conversationMessages
+        .filter((msg) => msg.senderId === contact.id && msg.status !== 'sending')
+        .slice(-20)
+        .map((msg) => msg.id),
+    });
+  };
+
+  const handleReportMessage = (message: Message) => {
+    setReporting({ userId: message.senderId, messageIds: [message.id] });
+  };
+
+  const handleReport = async (reason: ReportReason) => {
+    if (!reporting) return;
+
+    const { userId, messageIds } = reporting;
+    setReporting(null);
+    if (!(await reportUser(userId, reason, messageIds))) {
+      Alert.alert('Error', 'Failed to send report');
+      return;
+    }
+
+    const name = getSenderName(userId);
+    if (blockedUserIds.includes(userId)) {
+      Alert.alert('Report Sent', `Thanks for reporting ${name}.`);
+    } else {
+      Alert.alert('Report Sent', `Thanks for reporting ${name}. Do you also want to block them?`, [
+        { text: 'Not Now', style: 'cancel' },
+        { text: 'Block', style: 'destructive', onPress: () => blockUser(userId) },
+      ]);
+    }
+  };
+
+  const handleMoreActions = () => {
+    if (!contact) return;
+
+    Alert.alert(contact.name, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Report', onPress: handleReportContact },
+      blocked
+        ? { text: 'Unblock', onPress: () => handleUnblock(contact.id) }
+        : { text: 'Block', style: 'destructive', onPress: () => handleBlock(contact.id) },
+    ]);
+  };
+
+  const handleShowReactions = (summary: ReactionSummary) => {
+    Alert.alert(summary.emoji, summary.userIds.map(getSenderName).join('\n'));
+  };
+
+  const highlightMessage = (messageId: string) => {
+    const index = conversationMessages.findIndex((msg) => msg.id === messageId);
+    if (index === -1) return;
+
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(null), 1500);
+  };
+
+  // Jump to a message (the original of a reply, a search result), loading
+  // older history first if needed
+  const jumpToMessage = async (targetId: string) => {
+    if (conversationMessages.some((msg) => msg.id === targetId)) {
+      highlightMessage(targetId);
+      return;
+    }
+    if (!conversationId || !conversation?.historyCursor) return;
+
+    setLoadingOlder(true);
+    pendingScrollId.current = targetId;
+    await loadOlderMessages(conversationId, targetId);
+    setLoadingOlder(false);
+  };
+
+  const handleSearch = async () => {
+    if (!currentUser || !conversationId || !searchQuery.trim()) return;
+
+    const results = await MessageCacheService.search(currentUser.id, searchQuery, conversationId);
+    setSearchResults(results.map(({ message }) => message.id));
+    setSearchResultIndex(0);
+    if (results.length > 0) {
+      jumpToMessage(results[0].message.id);
+    }
+  };
+
+  // Older: further down the newest-first results
+  const handleSearchStep = (step: 1 | -1) => {
+    if (!searchResults) return;
+
+    const index = searchResultIndex + step;
+    if (index < 0 || index >= searchResults.length) return;
+    setSearchResultIndex(index);
+    jumpToMessage(searchResults[index]);
+  };
+
+  const handleCloseSearch = () => {
+    setSearching(false);
+    setSearchQuery('');
+    setSearchResults(null);
+  };
+
+  // Items above the visible window have no measured height yet
+  const handleScrollToIndexFailed = ({
+    index,
+    averageItemLength,
+  }: {
+    index: number;
+    averageItemLength: number;
+  }) => {
+    flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    }, 100);
+  };
+
+  const handleLoadOlder = async () => {
+    if (!conversationId || !conversation?.historyCursor || loadingOlder) return;
+
+    setLoadingOlder(true);
+    await loadOlderMessages(conversationId);
+    setLoadingOlder(false);
+  };
+
+  // Follow new messages at the bottom, but stay put when older pages are
+  // prepended, unless they were loaded to reach the original of a reply
+  const handleContentSizeChange = () => {
+    const scrollId = pendingScrollId.current;
+    if (scrollId && conversationMessages.some((msg) => msg.id === scrollId)) {
+      pendingScrollId.current = null;
+      highlightMessage(scrollId);
+      return;
+    }
+
+    const latestId = conversation?.lastMessage?.id;
+    if (latestId === lastMessageId.current) return;
+
+    lastMessageId.current = latestId;
+    flatListRef.current?.scrollToEnd({ animated: false });
+  };
+
+  const handleAttach = async () => {
+    if (!conversationId || !currentUser || keyChanged) return;
+
+    const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+    if (result.canceled || !result.assets?.length) return;
+
+    const asset = result.assets[0];
+    setSendingAttachment(true);
+    try {
+      const data = await AttachmentService.readFile(asset.uri);
+      const sent = await sendMessage(
+        {
+          senderId: currentUser.id,
+          ...(group ? { groupId: group.id } : { receiverId: conversationId }),
+          content: messageText.trim(),
+          replyToId: replyingTo?.id,
+        },
+        {
+          data,
+          name: asset.name,
+          mimeType: asset.mimeType || 'application/octet-stream',
+        }
+      );
+      if (!sent) {
+        alert('Failed to send attachment');
+        return;
+      }
+      setMessageText('');
+      setReplyingTo(null);
+    } catch (error) {
+      console.error('Error sending attachment:', error);
+      alert('Failed to send attachment');
+    } finally {
+      setSendingAttachment(false);
+    }
+  };
+
   const formatTime = (date: Date): string => {
     const hours = date.getHours();
     const minutes = date.getMinutes();
@@ -57,8 +468,77 @@ export default function ChatScreen() {
     return `${formattedHours}:${formattedMinutes} ${ampm}`;
   };
 
+  const getStatusTicks = (status: MessageStatus): string | null => {
+    switch (status) {
+      case 'sending':
+        return '🕓';
+      case 'failed':
+        return '⚠️ Not sent';
+      // No ticks in groups: receipts are only kept for one-to-one chats
+      case 'sent':
+        return group ? null : '✓';
+      default:
+        return group ? null : '✓✓';
+    }
+  };
+
+  const renderReplyPreview = (replyToId: string, isOwnMessage: boolean) => {
+    const original = conversationMessages.find((msg) => msg.id === replyToId);
+
+    return (
+      <TouchableOpacity
+        style={[styles.replyPreview, isOwnMessage ? styles.ownReplyPreview : styles.otherReplyPreview]}
+        onPress={() => jumpToMessage(replyToId)}
+      >
+        <Text
+          style={[styles.replyPreviewName, isOwnMessage && styles.ownMessageText]}
+          numberOfLines={1}
+        >
+          {original ? getSenderName(original.senderId) : 'Reply'}
+        </Text>
+        <Text
+          style={[
+            styles.replyPreviewText,
+            isOwnMessage ? styles.ownMessageTime : styles.otherMessageTime,
+          ]}
+          numberOfLines={2}
+        >
+          {original ? getPreviewText(original) : 'Tap to load the original message'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderReactions = (message: Message, isOwnMessage: boolean) => {
+    if (!currentUser || message.deletedAt) return null;
+
+    const summaries = ReactionService.summarize(reactions[message.id] || [], currentUser.id);
+    if (summaries.length === 0) return null;
+
+    return (
+      <View style={[styles.reactionRow, isOwnMessage && styles.ownReactionRow]}>
+        {summaries.map((summary) => (
+          <TouchableOpacity
+            key={summary.emoji}
+            style={[styles.reactionChip, summary.ownReactionId && styles.reactionChipSelected]}
+            onPress={() => toggleReaction(message.id, summary.emoji)}
+            onLongPress={() => handleShowReactions(summary)}
+          >
+            <Text style={styles.reactionChipText}>
+              {summary.emoji} {summary.userIds.length}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
   const renderMessage = ({ item }: { item: Message }) => {
-    const isOwnMessage = item.senderId === currentUser.id;
+    const isOwnMessage = item.senderId === currentUser?.id;
+    const senderName =
+      group && !isOwnMessage
+        ? group.members.find((m) => m.userId === item.senderId)?.name
+        : undefined;
 
     return (
       <View
@@ -67,37 +547,70 @@ export default function ChatScreen() {
           isOwnMessage ? styles.ownMessage : styles.otherMessage,
         ]}
       >
-        <View
+        <TouchableOpacity
+          activeOpacity={0.8}
+          onLongPress={() => handleMessageLongPress(item)}
           style={[
             styles.messageBubble,
             isOwnMessage ? styles.ownBubble : styles.otherBubble,
+            item.id === highlightedMessageId && styles.highlightedBubble,
           ]}
         >
-          <Text
-            style={[
-              styles.messageText,
-              isOwnMessage ? styles.ownMessageText : styles.otherMessageText,
-            ]}
-          >
-            {item.content}
-          </Text>
+          {senderName && <Text style={styles.senderName}>{senderName}</Text>}
+          {item.replyToId && !item.deletedAt && renderReplyPreview(item.replyToId, isOwnMessage)}
+          {item.deletedAt && (
+            <Text
+              style={[
+                styles.messageText,
+                styles.deletedMessageText,
+                isOwnMessage ? styles.ownMessageTime : styles.otherMessageTime,
+              ]}
+            >
+              Message deleted
+            </Text>
+          )}
+          {item.attachment && (
+            <AttachmentPreview
+              attachment={item.attachment}
+              isOwnMessage={isOwnMessage}
+              pending={item.status === 'sending' || item.status === 'failed'}
+            />
+          )}
+          {!!item.content && (
+            <Text
+              style={[
+                styles.messageText,
+                isOwnMessage ? styles.ownMessageText : styles.otherMessageText,
+              ]}
+            >
+              {item.content}
+            </Text>
+          )}
           <Text
             style={[
               styles.messageTime,
               isOwnMessage ? styles.ownMessageTime : styles.otherMessageTime,
             ]}
           >
+            {item.editedAt && !item.deletedAt && 'edited  '}
             {formatTime(item.timestamp)}
+            {isOwnMessage && getStatusTicks(item.status) && (
+              <Text style={item.status === 'read' && styles.readTicks}>
+                {'  '}
+                {getStatusTicks(item.status)}
+              </Text>
+            )}
           </Text>
-        </View>
+        </TouchableOpacity>
+        {renderReactions(item, isOwnMessage)}
       </View>
     );
   };
 
-  if (!contact) {
+  if (!contact && !group) {
     return (
       <View style={styles.container}>
-        <Text>Contact not found</Text>
+        <Text>Conversation not found</Text>
       </View>
     );
   }
@@ -112,41 +625,251 @@ export default function ChatScreen() {
         <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
           <Text style={styles.backButtonText}>←</Text>
         </TouchableOpacity>
-        <Image source={{ uri: contact.avatar }} style={styles.headerAvatar} />
+        <Image source={{ uri: contact?.avatar ?? group?.avatar }} style={styles.headerAvatar} />
         <View style={styles.headerInfo}>
-          <Text style={styles.headerName}>{contact.name}</Text>
-          <Text style={styles.headerStatus}>
-            {contact.isOnline ? 'Online' : 'Offline'}
+          <Text style={styles.headerName}>
+            {contact?.name ?? group?.name}
+            {verification === 'verified' && <Text style={styles.verifiedMark}> ✓</Text>}
           </Text>
+          <Text style={styles.headerStatus}>{getHeaderStatus()}</Text>
         </View>
+        <TouchableOpacity onPress={() => setSearching(true)} style={styles.headerButton}>
+          <Text style={styles.verifyButtonText}>Search</Text>
+        </TouchableOpacity>
+        {contact && (
+          <>
+            <TouchableOpacity
+              onPress={() => router.push(`/verify/${contact.id}`)}
+              style={styles.headerButton}
+            >
+              <Text style={styles.verifyButtonText}>Verify</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleMoreActions}>
+              <Text style={styles.verifyButtonText}>More</Text>
+            </TouchableOpacity>
+          </>
+        )}
       </View>
 
+      {searching && (
+        <View style={styles.searchBar}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search this chat"
+            value={searchQuery}
+            onChangeText={(text) => {
+              setSearchQuery(text);
+              setSearchResults(null);
+            }}
+            onSubmitEditing={handleSearch}
+            returnKeyType="search"
+            autoFocus
+            placeholderTextColor={AppColors.textTertiary}
+          />
+          {searchResults && (
+            <Text style={styles.searchCount}>
+              {searchResults.length === 0
+                ? 'No results'
+                : `${searchResultIndex + 1} of ${searchResults.length}`}
+            </Text>
+          )}
+          <TouchableOpacity onPress={() => handleSearchStep(1)} style={styles.searchStep}>
+            <Text style={styles.verifyButtonText}>↑</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleSearchStep(-1)} style={styles.searchStep}>
+            <Text style={styles.verifyButtonText}>↓</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleCloseSearch}>
+            <Text style={styles.verifyButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {keyChanged && (
+        <View style={styles.keyChangedBanner}>
+          <Text style={styles.keyChangedTitle}>Security code changed</Text>
+          <Text style={styles.keyChangedText}>
+            {contact?.name}&apos;s keys are not the ones you verified. They may have
+            reinstalled the app or linked a new device, or someone may be intercepting
+            your messages. Sending is paused until you verify them again or accept the
+            change.
+          </Text>
+          <View style={styles.keyChangedActions}>
+            <TouchableOpacity onPress={() => router.push(`/verify/${contact?.id}`)}>
+              <Text style={styles.keyChangedAction}>Verify</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleAcceptKeyChange}>
+              <Text style={styles.keyChangedAction}>Accept</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {verification === 'new-keys' && (
+        <View style={styles.keyNoticeBanner}>
+          <Text style={styles.keyNoticeText}>
+            {contact?.name}&apos;s safety number changed. They may have set up a new device
+            or reinstalled the app. Verify it if you want to be sure it&apos;s them.
+          </Text>
+          <View style={styles.keyChangedActions}>
+            <TouchableOpacity onPress={() => router.push(`/verify/${contact?.id}`)}>
+              <Text style={styles.keyNoticeAction}>Verify</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleAcceptKeyChange}>
+              <Text style={styles.keyNoticeAction}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       <FlatList
         ref={flatListRef}
-        data={conversation?.messages || []}
+        data={conversationMessages}
         keyExtractor={(item) => item.id}
         renderItem={renderMessage}
         contentContainerStyle={styles.messagesList}
-        onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: false })}
+        onContentSizeChange={handleContentSizeChange}
+        onStartReached={handleLoadOlder}
+        onStartReachedThreshold={0.2}
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+        onScrollToIndexFailed={handleScrollToIndexFailed}
+        ListHeaderComponent={
+          loadingOlder ? (
+            <ActivityIndicator style={styles.historyLoader} color={AppColors.textSecondary} />
+          ) : null
+        }
       />
 
-      <View style={styles.inputContainer}>
-        <TextInput
-          style={styles.input}
-          placeholder="Type a message..."
-          value={messageText}
-          onChangeText={setMessageText}
-          multiline
-          placeholderTextColor={AppColors.textTertiary}
-        />
-        <TouchableOpacity
-          style={[styles.sendButton, !messageText.trim() && styles.sendButtonDisabled]}
-          onPress={handleSend}
-          disabled={!messageText.trim()}
-        >
-          <Text style={styles.sendButtonText}>Send</Text>
-        </TouchableOpacity>
-      </View>
+      {selectedMessage && (
+        <View style={styles.actionPanel}>
+          <View style={styles.reactionPicker}>
+            {QUICK_REACTIONS.map((emoji) => {
+              const reacted = reactions[selectedMessage.id]?.some(
+                (r) => r.userId === currentUser?.id && r.emoji === emoji
+              );
+              return (
+                <TouchableOpacity
+                  key={emoji}
+                  style={[styles.reactionOption, reacted && styles.reactionChipSelected]}
+                  onPress={() =>
+                    handleMessageAction((message) => toggleReaction(message.id, emoji))
+                  }
+                >
+                  <Text style={styles.reactionOptionText}>{emoji}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.actionRow}>
+            <TouchableOpacity onPress={() => handleMessageAction(handleStartReply)}>
+              <Text style={styles.actionText}>Reply</Text>
+            </TouchableOpacity>
+            {selectedMessage.senderId !== currentUser?.id && (
+              <TouchableOpacity onPress={() => handleMessageAction(handleReportMessage)}>
+                <Text style={[styles.actionText, styles.destructiveActionText]}>Report</Text>
+              </TouchableOpacity>
+            )}
+            {selectedMessage.senderId === currentUser?.id && (
+              <>
+                {!selectedMessage.attachment && !keyChanged && (
+                  <TouchableOpacity onPress={() => handleMessageAction(handleStartEdit)}>
+                    <Text style={styles.actionText}>Edit</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => handleMessageAction(handleDelete)}>
+                  <Text style={[styles.actionText, styles.destructiveActionText]}>Delete</Text>
+                </TouchableOpacity>
+              </>
+            )}
+            <TouchableOpacity onPress={() => setSelectedMessage(null)}>
+              <Text style={styles.actionText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {reporting && (
+        <View style={styles.actionPanel}>
+          <Text style={styles.reportTitle}>
+            Why are you reporting {getSenderName(reporting.userId)}?
+          </Text>
+          {REPORT_REASONS.map(({ reason, label }) => (
+            <TouchableOpacity
+              key={reason}
+              style={styles.reportOption}
+              onPress={() => handleReport(reason)}
+            >
+              <Text style={styles.actionText}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.reportOption} onPress={() => setReporting(null)}>
+            <Text style={styles.actionText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {replyingTo && (
+        <View style={styles.editingBar}>
+          <Text style={styles.editingText} numberOfLines={1}>
+            Replying to {getSenderName(replyingTo.senderId)}: {getPreviewText(replyingTo)}
+          </Text>
+          <TouchableOpacity onPress={() => setReplyingTo(null)}>
+            <Text style={styles.editingCancel}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {editingMessage && (
+        <View style={styles.editingBar}>
+          <Text style={styles.editingText} numberOfLines={1}>
+            Editing: {editingMessage.content}
+          </Text>
+          <TouchableOpacity onPress={handleCancelEdit}>
+            <Text style={styles.editingCancel}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {blocked && contact ? (
+        <View style={styles.editingBar}>
+          <Text style={styles.editingText}>You blocked {contact.name}.</Text>
+          <TouchableOpacity onPress={() => handleUnblock(contact.id)}>
+            <Text style={styles.editingCancel}>Unblock</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.inputContainer}>
+          <TouchableOpacity
+            style={styles.attachButton}
+            onPress={handleAttach}
+            disabled={sendingAttachment || keyChanged || !!editingMessage}
+          >
+            {sendingAttachment ? (
+              <ActivityIndicator color={AppColors.textSecondary} />
+            ) : (
+              <Text style={styles.attachButtonText}>📎</Text>
+            )}
+          </TouchableOpacity>
+          <TextInput
+            style={styles.input}
+            placeholder="Type a message..."
+            value={messageText}
+            onChangeText={handleChangeText}
+            multiline
+            placeholderTextColor={AppColors.textTertiary}
+          />
+          <TouchableOpacity
+            style={[
+              styles.sendButton,
+              (!messageText.trim() || keyChanged) && styles.sendButtonDisabled,
+            ]}
+            onPress={handleSend}
+            disabled={!messageText.trim() || keyChanged}
+          >
+            <Text style={styles.sendButtonText}>{editingMessage ? 'Save' : 'Send'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </KeyboardAvoidingView>
   );
 }
@@ -190,18 +913,99 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: AppColors.textSecondary,
   },
+  verifiedMark: {
+    color: AppColors.success,
+  },
+  headerButton: {
+    marginRight: 16,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    fontSize: 15,
+    backgroundColor: AppColors.inputBackground,
+    color: AppColors.text,
+  },
+  searchCount: {
+    fontSize: 13,
+    color: AppColors.textSecondary,
+    marginLeft: 8,
+  },
+  searchStep: {
+    paddingHorizontal: 8,
+  },
+  verifyButtonText: {
+    fontSize: 16,
+    color: AppColors.primary,
+  },
+  keyChangedBanner: {
+    backgroundColor: AppColors.dangerBackground,
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.danger,
+  },
+  keyChangedTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: AppColors.danger,
+    marginBottom: 4,
+  },
+  keyChangedText: {
+    fontSize: 13,
+    color: AppColors.danger,
+  },
+  keyChangedActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 24,
+    marginTop: 8,
+  },
+  keyChangedAction: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: AppColors.danger,
+  },
+  keyNoticeBanner: {
+    backgroundColor: AppColors.inputBackground,
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  keyNoticeText: {
+    fontSize: 13,
+    color: AppColors.textSecondary,
+  },
+  keyNoticeAction: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
   messagesList: {
     padding: 16,
   },
+  historyLoader: {
+    marginBottom: 12,
+  },
   messageContainer: {
     marginBottom: 12,
-    flexDirection: 'row',
   },
   ownMessage: {
-    justifyContent: 'flex-end',
+    alignItems: 'flex-end',
   },
   otherMessage: {
-    justifyContent: 'flex-start',
+    alignItems: 'flex-start',
   },
   messageBubble: {
     maxWidth: '75%',
@@ -216,6 +1020,38 @@ const styles = StyleSheet.create({
     backgroundColor: AppColors.messageBubbleOther,
     borderBottomLeftRadius: 4,
   },
+  highlightedBubble: {
+    opacity: 0.6,
+  },
+  replyPreview: {
+    borderLeftWidth: 3,
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginBottom: 6,
+  },
+  ownReplyPreview: {
+    borderLeftColor: AppColors.white,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  otherReplyPreview: {
+    borderLeftColor: AppColors.textSecondary,
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  replyPreviewName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  replyPreviewText: {
+    fontSize: 13,
+  },
+  senderName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: AppColors.textSecondary,
+    marginBottom: 2,
+  },
   messageText: {
     fontSize: 16,
     marginBottom: 4,
@@ -226,6 +1062,9 @@ const styles = StyleSheet.create({
   otherMessageText: {
     color: AppColors.text,
   },
+  deletedMessageText: {
+    fontStyle: 'italic',
+  },
   messageTime: {
     fontSize: 11,
   },
@@ -236,6 +1075,96 @@ const styles = StyleSheet.create({
   otherMessageTime: {
     color: AppColors.textSecondary,
   },
+  readTicks: {
+    color: AppColors.readReceipt,
+  },
+  editingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: AppColors.borderLight,
+    backgroundColor: AppColors.background,
+  },
+  editingText: {
+    flex: 1,
+    fontSize: 14,
+    color: AppColors.textSecondary,
+    marginRight: 12,
+  },
+  editingCancel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  reportTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: AppColors.text,
+    marginBottom: 8,
+  },
+  reportOption: {
+    paddingVertical: 10,
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: 4,
+    maxWidth: '75%',
+  },
+  ownReactionRow: {
+    justifyContent: 'flex-end',
+  },
+  reactionChip: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    backgroundColor: AppColors.background,
+  },
+  reactionChipSelected: {
+    borderColor: AppColors.primary,
+    backgroundColor: AppColors.primaryLight,
+  },
+  reactionChipText: {
+    fontSize: 13,
+    color: AppColors.text,
+  },
+  actionPanel: {
+    padding: 12,
+    borderTopWidth: 1,
+    borderTopColor: AppColors.borderLight,
+    backgroundColor: AppColors.background,
+  },
+  reactionPicker: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 12,
+  },
+  reactionOption: {
+    borderWidth: 1,
+    borderColor: 'transparent',
+    borderRadius: 20,
+    padding: 6,
+  },
+  reactionOptionText: {
+    fontSize: 26,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.primary,
+  },
+  destructiveActionText: {
+    color: AppColors.danger,
+  },
   inputContainer: {
     flexDirection: 'row',
     padding: 12,
@@ -244,6 +1173,13 @@ const styles = StyleSheet.create({
     backgroundColor: AppColors.background,
     alignItems: 'center',
   },
+  attachButton: {
+    marginRight: 8,
+    padding: 4,
+  },
+  attachButtonText: {
+    fontSize: 22,
+  },
   input: {
     flex: 1,
     borderWidth: 1,
@@ -0,0 +1,302 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { useChatContext } from '../context/ChatContext';
+import { DeviceLink, DeviceService, KeyHistoryEntry } from '../services/deviceService';
+import { EncryptionService } from '../services/encryptionService';
+import { Device } from '../types/chat';
+import { AppColors } from '../constants/colors';
+
+export default function DevicesScreen() {
+  const router = useRouter();
+  const { currentUser } = useChatContext();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [keyHistory, setKeyHistory] = useState<KeyHistoryEntry[]>([]);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pendingLink, setPendingLink] = useState<{ link: DeviceLink; code: string } | null>(null);
+  const linkChannel = useRef<RealtimeChannel | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    if (!currentUser) return;
+
+    const [userDevices, deviceId, history] = await Promise.all([
+      DeviceService.getDevices([currentUser.id]),
+      DeviceService.getDeviceId(),
+      DeviceService.getKeyHistory(currentUser.id),
+    ]);
+    setDevices(userDevices);
+    setKeyHistory(history);
+    setCurrentDeviceId(deviceId);
+    setLoading(false);
+  }, [currentUser]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const stopLinking = useCallback(() => {
+    if (linkChannel.current) {
+      DeviceService.unsubscribeFromLink(linkChannel.current);
+      linkChannel.current = null;
+    }
+    setPendingLink(null);
+  }, []);
+
+  useEffect(() => stopLinking, [stopLinking]);
+
+  const handleClaimed = (link: DeviceLink, code: string) => {
+    Alert.alert(
+      'Link Device',
+      `Allow "${link.deviceName || 'New device'}" to use your account? It will be able to read your messages.`,
+      [
+        {
+          text: 'Deny',
+          style: 'cancel',
+          onPress: () => {
+            DeviceService.cancelLink(link.id);
+            stopLinking();
+          },
+        },
+        {
+          text: 'Allow',
+          onPress: async () => {
+            try {
+              await DeviceService.approveLink(currentUser!.id, link, code);
+              Alert.alert('Success', 'Device linked successfully!');
+              loadDevices();
+            } catch (error) {
+              console.error('Error approving device link:', error);
+              DeviceService.cancelLink(link.id);
+              Alert.alert('Error', 'Failed to link the device. Please try again.');
+            } finally {
+              stopLinking();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLinkDevice = async () => {
+    if (!currentUser) return;
+
+    const created = await DeviceService.createLink(currentUser.id);
+    if (!created) {
+      Alert.alert('Error', 'Failed to create a link code');
+      return;
+    }
+
+    setPendingLink(created);
+    linkChannel.current = DeviceService.subscribeToLink(created.link.id, (link) => {
+      if (link.status === 'claimed') {
+        handleClaimed(link, created.code);
+      }
+    });
+  };
+
+  const handleCancelLink = () => {
+    if (pendingLink) {
+      DeviceService.cancelLink(pendingLink.link.id);
+    }
+    stopLinking();
+  };
+
+  const getKeyLabel = (device: Device): string => {
+    const keyId = EncryptionService.getKeyId(device.publicKey);
+    const entry = keyHistory.find((key) => key.keyId === keyId);
+    const rotations = keyHistory.filter(
+      (key) => key.deviceId === device.id && key.keyId !== keyId
+    ).length;
+
+    let label = `Key ${keyId.slice(0, 8)}`;
+    if (entry) label += ` since ${entry.createdAt.toLocaleDateString()}`;
+    if (rotations > 0) label += ` · ${rotations} earlier ${rotations === 1 ? 'key' : 'keys'} revoked`;
+    return label;
+  };
+
+  const handleRemove = (device: Device) => {
+    Alert.alert(
+      'Remove Device',
+      `Remove "${device.name}"? New messages will no longer be encrypted for it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            if (await DeviceService.removeDevice(device.id)) {
+              setDevices((prev) => prev.filter((d) => d.id !== device.id));
+            } else {
+              Alert.alert('Error', 'Failed to remove device');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.backButton}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Linked Devices</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <View style={styles.content}>
+        {loading ? (
+          <ActivityIndicator size="large" color={AppColors.primary} />
+        ) : (
+          devices.map((device) => (
+            <View key={device.id} style={styles.deviceRow}>
+              <View style={styles.deviceInfo}>
+                <Text style={styles.deviceName}>
+                  {device.name}
+                  {device.id === currentDeviceId ? ' (this device)' : ''}
+                </Text>
+                <Text style={styles.deviceDate}>
+                  Linked {device.createdAt.toLocaleDateString()}
+                </Text>
+                <Text style={styles.deviceDate}>{getKeyLabel(device)}</Text>
+              </View>
+              {device.id !== currentDeviceId && (
+                <TouchableOpacity onPress={() => handleRemove(device)}>
+                  <Text style={styles.removeButton}>Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))
+        )}
+
+        {pendingLink ? (
+          <View style={styles.linkCard}>
+            <Text style={styles.linkLabel}>Enter this code on your new device</Text>
+            <Text style={styles.linkCode}>{DeviceService.formatCode(pendingLink.code)}</Text>
+            <Text style={styles.linkExpiry}>
+              Expires at {pendingLink.link.expiresAt.toLocaleTimeString()}
+            </Text>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleCancelLink}>
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.button} onPress={handleLinkDevice}>
+            <Text style={styles.buttonText}>Link a New Device</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: AppColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  backButton: {
+    fontSize: 16,
+    color: AppColors.primary,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  content: {
+    padding: 20,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  deviceInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  deviceDate: {
+    fontSize: 14,
+    color: AppColors.textSecondary,
+    marginTop: 2,
+  },
+  removeButton: {
+    fontSize: 16,
+    color: AppColors.textSecondary,
+  },
+  linkCard: {
+    backgroundColor: AppColors.inputBackground,
+    borderRadius: 12,
+    padding: 20,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  linkLabel: {
+    fontSize: 16,
+    color: AppColors.textSecondary,
+  },
+  linkCode: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    letterSpacing: 2,
+    color: AppColors.text,
+    marginVertical: 12,
+  },
+  linkExpiry: {
+    fontSize: 14,
+    color: AppColors.textTertiary,
+  },
+  button: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonText: {
+    color: AppColors.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: AppColors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
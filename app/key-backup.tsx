@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useChatContext } from '../context/ChatContext';
+import {
+  KeyBackupInfo,
+  KeyBackupService,
+  MIN_PASSPHRASE_LENGTH,
+} from '../services/keyBackupService';
+import { AppColors } from '../constants/colors';
+
+export default function KeyBackupScreen() {
+  const router = useRouter();
+  const { currentUser } = useChatContext();
+  const [backup, setBackup] = useState<KeyBackupInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    KeyBackupService.getBackupInfo(currentUser.id).then((info) => {
+      setBackup(info);
+      setLoading(false);
+    });
+  }, [currentUser]);
+
+  const handleBackup = async () => {
+    if (!currentUser) return;
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert('Error', `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      Alert.alert('Error', 'Passphrases do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (await KeyBackupService.createBackup(currentUser.id, passphrase)) {
+        setBackup({ updatedAt: new Date() });
+        setPassphrase('');
+        setConfirmPassphrase('');
+        Alert.alert(
+          'Success',
+          'Your keys are backed up. Keep your passphrase safe, it cannot be recovered.'
+        );
+      } else {
+        Alert.alert('Error', 'Failed to back up your keys');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Backup',
+      'Without a backup, logging out of your last device makes your messages unreadable.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (currentUser && (await KeyBackupService.deleteBackup(currentUser.id))) {
+              setBackup(null);
+            } else {
+              Alert.alert('Error', 'Failed to delete backup');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.backButton}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Key Backup</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <View style={styles.content}>
+        {loading ? (
+          <ActivityIndicator size="large" color={AppColors.primary} />
+        ) : (
+          <>
+            <Text style={styles.description}>
+              {backup
+                ? `Last backed up ${backup.updatedAt.toLocaleDateString()}. Back up again after linking a device, so its keys are included.`
+                : 'Your keys only exist on your devices. Back them up with a passphrase so you can read your group history after logging out or on a new device.'}
+            </Text>
+            <Text style={styles.description}>
+              Direct messages are forward secret, so a backup cannot bring back their history. Link a
+              new device from an existing one to keep it.
+            </Text>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Passphrase</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                value={passphrase}
+                onChangeText={setPassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                placeholderTextColor={AppColors.textTertiary}
+              />
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Confirm Passphrase</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Enter it again"
+                value={confirmPassphrase}
+                onChangeText={setConfirmPassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                placeholderTextColor={AppColors.textTertiary}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, saving && styles.buttonDisabled]}
+              onPress={handleBackup}
+              disabled={saving}
+            >
+              <Text style={styles.buttonText}>
+                {saving ? 'Backing Up...' : backup ? 'Update Backup' : 'Back Up Keys'}
+              </Text>
+            </TouchableOpacity>
+
+            {backup && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleDelete}>
+                <Text style={styles.secondaryButtonText}>Delete Backup</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: AppColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  backButton: {
+    fontSize: 16,
+    color: AppColors.primary,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  content: {
+    padding: 20,
+  },
+  description: {
+    fontSize: 16,
+    color: AppColors.textSecondary,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.text,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: AppColors.inputBackground,
+    color: AppColors.text,
+  },
+  button: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: AppColors.disabled,
+  },
+  buttonText: {
+    color: AppColors.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: AppColors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
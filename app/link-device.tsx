@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { useChatContext } from '../context/ChatContext';
+import { AuthService } from '../services/authService';
+import { DeviceLink, DeviceService } from '../services/deviceService';
+import { EncryptionService } from '../services/encryptionService';
+import { AppColors } from '../constants/colors';
+
+export default function LinkDeviceScreen() {
+  const { onDeviceLinked, startFreshOnThisDevice } = useChatContext();
+  const [code, setCode] = useState('');
+  const [link, setLink] = useState<DeviceLink | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const linkChannel = useRef<RealtimeChannel | null>(null);
+  const completing = useRef(false);
+
+  useEffect(() => {
+    return () => {
+      if (linkChannel.current) {
+        DeviceService.unsubscribeFromLink(linkChannel.current);
+      }
+    };
+  }, []);
+
+  const completeLink = async (approved: DeviceLink) => {
+    // Both the subscription and the initial check can see the approval
+    if (completing.current) return;
+    completing.current = true;
+
+    if (linkChannel.current) {
+      DeviceService.unsubscribeFromLink(linkChannel.current);
+      linkChannel.current = null;
+    }
+
+    try {
+      await DeviceService.completeLink(approved);
+      onDeviceLinked();
+    } catch (error) {
+      console.error('Error completing device link:', error);
+      completing.current = false;
+      setLink(null);
+      Alert.alert('Error', 'Failed to link this device. Please try again.');
+    }
+  };
+
+  const handleLink = async () => {
+    if (!code.trim()) {
+      Alert.alert('Error', 'Please enter the code shown on your other device');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const publicKey = await EncryptionService.initializeEncryption();
+      const claimed = await DeviceService.claimLink(code, publicKey);
+      if (!claimed) {
+        Alert.alert('Error', 'This code is invalid or has expired');
+        return;
+      }
+
+      setLink(claimed);
+      linkChannel.current = DeviceService.subscribeToLink(claimed.id, (updated) => {
+        if (updated.status === 'approved') {
+          completeLink(updated);
+        }
+      });
+
+      // The approval may have landed before the subscription
+      const current = await DeviceService.getLink(claimed.id);
+      if (current?.status === 'approved') {
+        completeLink(current);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStartFresh = () => {
+    Alert.alert(
+      'Start Fresh',
+      'Use this device without linking it? Your other devices will be removed from your account, messages sent to you before now cannot be decrypted here, and your contacts will see that your safety number changed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Start Fresh',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await startFreshOnThisDevice();
+            } catch (error) {
+              console.error('Error registering device:', error);
+              Alert.alert('Error', 'Failed to set up this device');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLogout = async () => {
+    if (link) {
+      await DeviceService.cancelLink(link.id);
+    }
+    await AuthService.logout();
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Link This Device</Text>
+      </View>
+
+      <View style={styles.content}>
+        {link ? (
+          <View style={styles.waiting}>
+            <ActivityIndicator size="large" color={AppColors.primary} />
+            <Text style={styles.waitingText}>
+              Waiting for approval on your other device...
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.description}>
+              Your account is already set up on another device. On that device, open
+              Profile, then Linked Devices, and tap Link a New Device. Enter the code it
+              shows below.
+            </Text>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Link Code</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="ABCD-EFGH-JKLM-NPQR"
+                value={code}
+                onChangeText={setCode}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                placeholderTextColor={AppColors.textTertiary}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, submitting && styles.buttonDisabled]}
+              onPress={handleLink}
+              disabled={submitting}
+            >
+              <Text style={styles.buttonText}>Link Device</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleStartFresh}>
+              <Text style={styles.secondaryButtonText}>
+                I no longer have my other device
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleLogout}>
+          <Text style={styles.secondaryButtonText}>Log Out</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: AppColors.background,
+  },
+  header: {
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: AppColors.text,
+  },
+  content: {
+    padding: 20,
+  },
+  description: {
+    fontSize: 16,
+    color: AppColors.textSecondary,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.text,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 20,
+    letterSpacing: 4,
+    textAlign: 'center',
+    backgroundColor: AppColors.inputBackground,
+    color: AppColors.text,
+  },
+  button: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: AppColors.disabled,
+  },
+  buttonText: {
+    color: AppColors.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: AppColors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  waiting: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  waitingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: AppColors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useChatContext } from '../context/ChatContext';
+import { AppColors } from '../constants/colors';
+
+export default function NewGroupScreen() {
+  const router = useRouter();
+  const { contacts: allContacts, blockedUserIds, createGroup } = useChatContext();
+  const contacts = allContacts.filter((c) => !blockedUserIds.includes(c.id));
+  const [name, setName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const toggleMember = (contactId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(contactId)
+        ? prev.filter((id) => id !== contactId)
+        : [...prev, contactId]
+    );
+  };
+
+  const handleCreateGroup = async () => {
+    if (!name.trim()) {
+      alert('Please enter a group name');
+      return;
+    }
+
+    if (selectedIds.length === 0) {
+      alert('Please select at least one member');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const group = await createGroup(name.trim(), selectedIds);
+      if (!group) {
+        alert('Failed to create group. Please try again.');
+        return;
+      }
+      router.replace(`/chat/${group.id}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.backButton}>Cancel</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>New Group</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.label}>Group Name *</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Enter group name"
+            value={name}
+            onChangeText={setName}
+            placeholderTextColor={AppColors.textTertiary}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>Members *</Text>
+          {contacts.length === 0 && (
+            <Text style={styles.emptyText}>Add some contacts first</Text>
+          )}
+          {contacts.map((contact) => {
+            const selected = selectedIds.includes(contact.id);
+            return (
+              <TouchableOpacity
+                key={contact.id}
+                style={styles.memberItem}
+                onPress={() => toggleMember(contact.id)}
+              >
+                <Image source={{ uri: contact.avatar }} style={styles.memberAvatar} />
+                <Text style={styles.memberName}>{contact.name}</Text>
+                <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+                  {selected && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.buttonDisabled]}
+          onPress={handleCreateGroup}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color={AppColors.white} />
+          ) : (
+            <Text style={styles.buttonText}>Create Group</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: AppColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  backButton: {
+    fontSize: 16,
+    color: AppColors.primary,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.text,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: AppColors.inputBackground,
+    color: AppColors.text,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: AppColors.textSecondary,
+  },
+  memberItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.disabledBackground,
+  },
+  memberAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 16,
+    color: AppColors.text,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: AppColors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: AppColors.primary,
+    borderColor: AppColors.primary,
+  },
+  checkmark: {
+    color: AppColors.white,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  button: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: AppColors.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
@@ -9,21 +9,23 @@ import {
   Image,
   ActivityIndicator,
 } from 'react-native';
-import { useRouter } from 'expo-router';
-import { setCurrentUserId } from '../context/ChatContext';
 import { AuthService } from '../services/authService';
 import { mockAvatarOptions } from '../mock/data';
 import { AppColors } from '../constants/colors';
 
 export default function OnboardingScreen() {
-  const router = useRouter();
   const [mode, setMode] = useState<'login' | 'signup'>('signup');
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [useLoginCode, setUseLoginCode] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [loginCode, setLoginCode] = useState('');
   const [bio, setBio] = useState('Hey there! I am using Beteseb Chat App');
   const [selectedAvatar, setSelectedAvatar] = useState(mockAvatarOptions[0]);
   const [loading, setLoading] = useState(false);
 
+  // Navigation happens in RootLayoutNav once the auth session loads the profile
   const handleComplete = async () => {
     if (mode === 'login') {
       // Login flow
@@ -32,11 +34,36 @@ export default function OnboardingScreen() {
         return;
       }
 
+      if (useLoginCode) {
+        setLoading(true);
+        try {
+          if (!codeSent) {
+            await AuthService.sendLoginCode(email);
+            setCodeSent(true);
+            alert('We emailed you a login code');
+          } else {
+            if (!loginCode) {
+              alert('Please enter the code from your email');
+              return;
+            }
+            await AuthService.verifyLoginCode(email, loginCode.trim());
+          }
+        } catch (error: any) {
+          alert(error.message || 'Login failed');
+        } finally {
+          setLoading(false);
+        }
+        return;
+      }
+
+      if (!password) {
+        alert('Please enter your password');
+        return;
+      }
+
       setLoading(true);
       try {
-        const user = await AuthService.login(email);
-        setCurrentUserId(user.id);
-        router.replace('/(tabs)');
+        await AuthService.login(email, password);
       } catch (error: any) {
         alert(error.message || 'Login failed');
       } finally {
@@ -44,8 +71,8 @@ export default function OnboardingScreen() {
       }
     } else {
       // Signup flow
-      if (!name || !email) {
-        alert('Please fill in your name and email');
+      if (!name || !email || !password) {
+        alert('Please fill in your name, email and password');
         return;
       }
 
@@ -54,12 +81,15 @@ export default function OnboardingScreen() {
         const user = await AuthService.signup({
           name,
           email,
+          password,
           bio,
           avatar: selectedAvatar,
         });
 
-        setCurrentUserId(user.id);
-        router.replace('/(tabs)');
+        if (!user) {
+          alert('Check your email to confirm your account, then log in.');
+          setMode('login');
+        }
       } catch (error: any) {
         alert(error.message || 'Failed to create account');
       } finally {
@@ -68,6 +98,18 @@ export default function OnboardingScreen() {
     }
   };
 
+  const toggleLoginCode = () => {
+    setUseLoginCode((prev) => !prev);
+    setCodeSent(false);
+    setLoginCode('');
+  };
+
+  const getButtonLabel = (): string => {
+    if (mode === 'signup') return 'Get Started';
+    if (useLoginCode) return codeSent ? 'Verify Code' : 'Send Login Code';
+    return 'Login';
+  };
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.content}>
@@ -142,6 +184,44 @@ export default function OnboardingScreen() {
           />
         </View>
 
+        {(mode === 'signup' || !useLoginCode) && (
+          <View style={styles.section}>
+            <Text style={styles.label}>Password *</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter your password"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              placeholderTextColor={AppColors.textTertiary}
+            />
+          </View>
+        )}
+
+        {mode === 'login' && useLoginCode && codeSent && (
+          <View style={styles.section}>
+            <Text style={styles.label}>Login Code *</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter the code from your email"
+              value={loginCode}
+              onChangeText={setLoginCode}
+              keyboardType="number-pad"
+              autoCapitalize="none"
+              placeholderTextColor={AppColors.textTertiary}
+            />
+          </View>
+        )}
+
+        {mode === 'login' && (
+          <TouchableOpacity onPress={toggleLoginCode} style={styles.linkButton}>
+            <Text style={styles.linkButtonText}>
+              {useLoginCode ? 'Use password instead' : 'Email me a login code instead'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {mode === 'signup' && (
           <View style={styles.section}>
             <Text style={styles.label}>Bio (Optional)</Text>
@@ -165,9 +245,7 @@ export default function OnboardingScreen() {
           {loading ? (
             <ActivityIndicator color={AppColors.white} />
           ) : (
-            <Text style={styles.buttonText}>
-              {mode === 'signup' ? 'Get Started' : 'Login'}
-            </Text>
+            <Text style={styles.buttonText}>{getButtonLabel()}</Text>
           )}
         </TouchableOpacity>
       </View>
@@ -262,6 +340,15 @@ const styles = StyleSheet.create({
     height: 80,
     textAlignVertical: 'top',
   },
+  linkButton: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  linkButtonText: {
+    fontSize: 15,
+    color: AppColors.textSecondary,
+    textDecorationLine: 'underline',
+  },
   button: {
     backgroundColor: AppColors.primary,
     borderRadius: 8,
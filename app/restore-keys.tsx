@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useChatContext } from '../context/ChatContext';
+import { AuthService } from '../services/authService';
+import { AppColors } from '../constants/colors';
+
+export default function RestoreKeysScreen() {
+  const { restoreKeyBackup, skipKeyRestore } = useChatContext();
+  const [passphrase, setPassphrase] = useState('');
+  const [restoring, setRestoring] = useState(false);
+
+  const handleRestore = async () => {
+    if (!passphrase) {
+      Alert.alert('Error', 'Please enter your backup passphrase');
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      if (!(await restoreKeyBackup(passphrase))) {
+        Alert.alert('Error', 'Could not restore your keys. Check your passphrase and try again.');
+      }
+    } catch (error) {
+      console.error('Error restoring keys:', error);
+      Alert.alert('Error', 'Failed to set up this device');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleSkip = () => {
+    Alert.alert(
+      'Skip Restore',
+      'Continue without your backup? This device gets new keys, so it will need to be linked from another device to read your history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Skip', style: 'destructive', onPress: skipKeyRestore },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Restore Keys</Text>
+      </View>
+
+      <View style={styles.content}>
+        <Text style={styles.description}>
+          You have an encrypted backup of your keys. Enter its passphrase to read your group
+          messages on this device. Direct messages are forward secret and stay on the devices
+          that received them.
+        </Text>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>Backup Passphrase</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Enter passphrase"
+            value={passphrase}
+            onChangeText={setPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholderTextColor={AppColors.textTertiary}
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.button, restoring && styles.buttonDisabled]}
+          onPress={handleRestore}
+          disabled={restoring}
+        >
+          <Text style={styles.buttonText}>{restoring ? 'Restoring...' : 'Restore'}</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={handleSkip}
+          disabled={restoring}
+        >
+          <Text style={styles.secondaryButtonText}>I forgot my passphrase</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => AuthService.logout()}>
+          <Text style={styles.secondaryButtonText}>Log Out</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: AppColors.background,
+  },
+  header: {
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: AppColors.text,
+  },
+  content: {
+    padding: 20,
+  },
+  description: {
+    fontSize: 16,
+    color: AppColors.textSecondary,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.text,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: AppColors.inputBackground,
+    color: AppColors.text,
+  },
+  button: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: AppColors.disabled,
+  },
+  buttonText: {
+    color: AppColors.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: AppColors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
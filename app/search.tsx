@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, FlatList } from 'react-native';
+import { useRouter } from 'expo-router';
+import { useChatContext } from '../context/ChatContext';
+import { CachedMessage, MessageCacheService } from '../services/messageCacheService';
+import { AppColors } from '../constants/colors';
+
+const SEARCH_DELAY_MS = 250;
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const { currentUser, contacts, groups, getConversation, loadOlderMessages } = useChatContext();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CachedMessage[]>([]);
+  const [searched, setSearched] = useState(false);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!currentUser || !query.trim()) {
+      setResults([]);
+      setSearched(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const found = await MessageCacheService.search(currentUser.id, query);
+      if (cancelled) return;
+      setResults(found);
+      setSearched(true);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentUser, query]);
+
+  const getConversationName = (conversationId: string): string =>
+    contacts.find((c) => c.id === conversationId)?.name ??
+    groups.find((g) => g.id === conversationId)?.name ??
+    'Unknown';
+
+  const getSenderName = ({ conversationId, message }: CachedMessage): string | null => {
+    if (message.senderId === currentUser?.id) return 'You';
+    const group = groups.find((g) => g.id === conversationId);
+    return group?.members.find((m) => m.userId === message.senderId)?.name ?? null;
+  };
+
+  const handleOpenResult = async ({ conversationId, message }: CachedMessage) => {
+    // The chat scrolls to the message, so it has to be among the loaded ones
+    const conversation = getConversation(conversationId);
+    if (conversation && !conversation.messages.some((m) => m.id === message.id)) {
+      await loadOlderMessages(conversationId, message.id);
+    }
+
+    router.push({ pathname: '/chat/[id]', params: { id: conversationId, messageId: message.id } });
+  };
+
+  const renderResult = ({ item }: { item: CachedMessage }) => {
+    const senderName = getSenderName(item);
+
+    return (
+      <TouchableOpacity style={styles.result} onPress={() => handleOpenResult(item)}>
+        <View style={styles.resultHeader}>
+          <Text style={styles.resultName} numberOfLines={1}>
+            {getConversationName(item.conversationId)}
+          </Text>
+          <Text style={styles.resultDate}>{item.message.timestamp.toLocaleDateString()}</Text>
+        </View>
+        <Text style={styles.resultText} numberOfLines={2}>
+          {senderName && <Text style={styles.resultSender}>{senderName}: </Text>}
+          {item.message.content || item.message.attachment?.name}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.backButton}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Search</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <View style={styles.searchContainer}>
+        <TextInput
+          style={styles.input}
+          placeholder="Search messages"
+          value={query}
+          onChangeText={setQuery}
+          autoFocus
+          autoCapitalize="none"
+          placeholderTextColor={AppColors.textTertiary}
+        />
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.message.id}
+        renderItem={renderResult}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {searched
+              ? 'No messages found'
+              : 'Messages are searched on this device only; the server cannot read them.'}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: AppColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  backButton: {
+    fontSize: 16,
+    color: AppColors.primary,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  searchContainer: {
+    padding: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: AppColors.inputBackground,
+    color: AppColors.text,
+  },
+  result: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.disabledBackground,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  resultName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: AppColors.text,
+    marginRight: 8,
+  },
+  resultDate: {
+    fontSize: 12,
+    color: AppColors.textTertiary,
+  },
+  resultText: {
+    fontSize: 14,
+    color: AppColors.textSecondary,
+  },
+  resultSender: {
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: AppColors.textSecondary,
+    textAlign: 'center',
+    padding: 32,
+  },
+});
@@ -0,0 +1,271 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import QRCode from 'react-native-qrcode-svg';
+import { useChatContext } from '../../context/ChatContext';
+import {
+  SafetyNumber,
+  VerificationService,
+  VerificationStatus,
+} from '../../services/verificationService';
+import { AppColors } from '../../constants/colors';
+
+export default function VerifyContactScreen() {
+  const router = useRouter();
+  const { id: contactId } = useLocalSearchParams<{ id: string }>();
+  const { currentUser, contacts } = useChatContext();
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [status, setStatus] = useState<VerificationStatus>('unverified');
+  const [loading, setLoading] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const scanHandled = useRef(false);
+
+  const contact = contacts.find((c) => c.id === contactId);
+  const contactPublicKey = contact?.publicKey;
+
+  useEffect(() => {
+    if (!currentUser || !contactId) return;
+
+    (async () => {
+      const keys = { id: contactId, publicKey: contactPublicKey };
+      const [number, currentStatus] = await Promise.all([
+        VerificationService.getSafetyNumber(currentUser, keys),
+        VerificationService.getStatus(currentUser.id, keys),
+      ]);
+      setSafetyNumber(number);
+      setStatus(currentStatus);
+      setLoading(false);
+    })();
+  }, [currentUser, contactId, contactPublicKey]);
+
+  const markVerified = async () => {
+    if (!currentUser || !contact || !safetyNumber) return;
+
+    await VerificationService.markVerified(
+      currentUser.id,
+      contact.id,
+      safetyNumber.contactFingerprint
+    );
+    setStatus('verified');
+  };
+
+  const handleToggleVerified = async () => {
+    if (!currentUser || !contact) return;
+
+    if (status === 'verified') {
+      await VerificationService.clearVerification(currentUser.id, contact.id);
+      setStatus('unverified');
+    } else {
+      await markVerified();
+    }
+  };
+
+  const handleScan = async () => {
+    if (!cameraPermission?.granted) {
+      const permission = await requestCameraPermission();
+      if (!permission.granted) {
+        Alert.alert('Error', 'Camera access is needed to scan the code');
+        return;
+      }
+    }
+
+    scanHandled.current = false;
+    setScanning(true);
+  };
+
+  const handleBarcodeScanned = async ({ data }: { data: string }) => {
+    // The camera keeps reporting the same code until it is closed
+    if (scanHandled.current || !currentUser || !contact || !safetyNumber) return;
+    scanHandled.current = true;
+    setScanning(false);
+
+    if (
+      VerificationService.matchesQrPayload(data, currentUser.id, contact.id, safetyNumber.digits)
+    ) {
+      await markVerified();
+      Alert.alert('Verified', `Your messages with ${contact.name} are end-to-end encrypted.`);
+    } else {
+      Alert.alert(
+        'Codes Do Not Match',
+        `This is not ${contact.name}'s code for this chat, or one of you has different keys than the other expects.`
+      );
+    }
+  };
+
+  if (!contact) {
+    return (
+      <View style={styles.container}>
+        <Text>Contact not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.backButton}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Verify Security Code</Text>
+        <View style={{ width: 60 }} />
+      </View>
+
+      <View style={styles.content}>
+        {loading ? (
+          <ActivityIndicator size="large" color={AppColors.primary} />
+        ) : !safetyNumber || !currentUser ? (
+          <Text style={styles.description}>
+            Could not load the security code. Check your connection and try again.
+          </Text>
+        ) : (
+          <>
+            {status === 'changed' && (
+              <View style={styles.warning}>
+                <Text style={styles.warningText}>
+                  {contact.name}&apos;s security code has changed since you verified it.
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.qrContainer}>
+              {scanning ? (
+                <CameraView
+                  style={styles.camera}
+                  barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                  onBarcodeScanned={handleBarcodeScanned}
+                />
+              ) : (
+                <QRCode
+                  value={VerificationService.getQrPayload(
+                    currentUser.id,
+                    contact.id,
+                    safetyNumber.digits
+                  )}
+                  size={200}
+                />
+              )}
+            </View>
+
+            <Text style={styles.safetyNumber}>
+              {VerificationService.formatSafetyNumber(safetyNumber.digits)}
+            </Text>
+
+            <Text style={styles.description}>
+              Scan {contact.name}&apos;s code, or compare the numbers above with the ones on
+              their device. If they match, nobody is intercepting your messages.
+            </Text>
+
+            <TouchableOpacity
+              style={styles.button}
+              onPress={scanning ? () => setScanning(false) : handleScan}
+            >
+              <Text style={styles.buttonText}>{scanning ? 'Cancel Scan' : 'Scan Code'}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleToggleVerified}>
+              <Text style={styles.secondaryButtonText}>
+                {status === 'verified' ? 'Clear Verification' : 'Mark as Verified'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: AppColors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    borderBottomWidth: 1,
+    borderBottomColor: AppColors.borderLight,
+  },
+  backButton: {
+    fontSize: 16,
+    color: AppColors.primary,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: AppColors.text,
+  },
+  content: {
+    padding: 20,
+  },
+  warning: {
+    backgroundColor: AppColors.dangerBackground,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  warningText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: AppColors.danger,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  camera: {
+    width: 240,
+    height: 240,
+  },
+  safetyNumber: {
+    fontSize: 20,
+    fontFamily: 'monospace',
+    letterSpacing: 2,
+    lineHeight: 32,
+    textAlign: 'center',
+    color: AppColors.text,
+    marginBottom: 20,
+  },
+  description: {
+    fontSize: 16,
+    color: AppColors.textSecondary,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  button: {
+    backgroundColor: AppColors.primary,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: AppColors.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: AppColors.border,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: AppColors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
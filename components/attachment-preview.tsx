@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Image, StyleSheet, Text, View } from 'react-native';
+
+import { AppColors } from '@/constants/colors';
+import { AttachmentService } from '@/services/attachmentService';
+import { Attachment } from '@/types/chat';
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function AttachmentPreview({
+  attachment,
+  isOwnMessage,
+  pending = false,
+}: {
+  attachment: Attachment;
+  isOwnMessage: boolean;
+  pending?: boolean; // Ciphertext is still waiting in the outbox
+}) {
+  const isImage = attachment.mimeType.startsWith('image/');
+  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Images are downloaded and decrypted on render; other files only show metadata
+  useEffect(() => {
+    if (!isImage || pending) return;
+
+    let cancelled = false;
+    AttachmentService.toDataUri(attachment)
+      .then((uri) => {
+        if (!cancelled) setImageUri(uri);
+      })
+      .catch((error) => {
+        console.error('Error loading attachment preview:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, isImage, pending]);
+
+  if (isImage && !failed) {
+    return imageUri ? (
+      <Image source={{ uri: imageUri }} style={styles.image} resizeMode="cover" />
+    ) : (
+      <View style={[styles.image, styles.imagePlaceholder]}>
+        <ActivityIndicator color={AppColors.textSecondary} />
+      </View>
+    );
+  }
+
+  const icon = attachment.mimeType.startsWith('audio/') ? '🎤' : '📄';
+  const textStyle = isOwnMessage ? styles.ownText : styles.otherText;
+
+  return (
+    <View style={styles.file}>
+      <Text style={styles.fileIcon}>{icon}</Text>
+      <View style={styles.fileInfo}>
+        <Text style={[styles.fileName, textStyle]} numberOfLines={1}>
+          {failed ? 'Attachment unavailable' : attachment.name}
+        </Text>
+        <Text style={[styles.fileSize, textStyle]}>{formatSize(attachment.size)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    width: 200,
+    height: 200,
+    borderRadius: 12,
+    marginBottom: 4,
+  },
+  imagePlaceholder: {
+    backgroundColor: AppColors.disabledBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  file: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  fileIcon: {
+    fontSize: 24,
+    marginRight: 8,
+  },
+  fileInfo: {
+    flexShrink: 1,
+  },
+  fileName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  fileSize: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  ownText: {
+    color: AppColors.white,
+  },
+  otherText: {
+    color: AppColors.text,
+  },
+});
@@ -13,6 +13,9 @@ export const AppColors = {
   white: "#fff",
   disabled: "#ccc",
   success: "#4CAF50",
+  readReceipt: "#34B7F1",
+  danger: "#D32F2F",
+  dangerBackground: "#FDECEA",
 
   get primaryLight() {
     return this.primary + "10";
@@ -1,240 +1,1410 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, Contact, Message, ChatConversation } from '../types/chat';
-import { ChatService } from '../services/chatService';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from 'react';
+import { AppState } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  User,
+  Contact,
+  ContactRequest,
+  ConversationSettings,
+  Device,
+  Message,
+  MessageCursor,
+  NewMessage,
+  ChatConversation,
+  Group,
+  AttachmentUpload,
+  Reaction,
+  ReportReason,
+} from '../types/chat';
+import { ChatService, MessagePage, OutgoingMessage } from '../services/chatService';
 import { EncryptionService } from '../services/encryptionService';
 import { AuthService } from '../services/authService';
+import { PresenceService } from '../services/presenceService';
+import { TypingService } from '../services/typingService';
+import { OutboxService } from '../services/outboxService';
+import { MessageCacheService } from '../services/messageCacheService';
+import { PrekeyService } from '../services/prekeyService';
+import { DeviceService } from '../services/deviceService';
+import { KeyBackupService } from '../services/keyBackupService';
+import { PushService } from '../services/pushService';
+import { ReactionService } from '../services/reactionService';
+import { ContactRequestService } from '../services/contactRequestService';
+import { ModerationService } from '../services/moderationService';
+import {
+  ConversationSettingsChanges,
+  ConversationSettingsService,
+} from '../services/conversationSettingsService';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
 interface ChatContextType {
   currentUser: User | null;
-  updateCurrentUser: (user: Partial<User>) => void;
+  updateCurrentUser: (user: Partial<User>) => Promise<boolean>;
   contacts: Contact[];
-  addContact: (contactEmail: string) => Promise<void>;
+  removeContact: (contactId: string) => Promise<boolean>;
+  contactRequests: ContactRequest[]; // Pending requests, sent and received
+  sendContactRequest: (userId: string, note?: string) => Promise<ContactRequest | null>;
+  acceptContactRequest: (request: ContactRequest) => Promise<boolean>;
+  declineContactRequest: (request: ContactRequest) => Promise<boolean>;
+  cancelContactRequest: (request: ContactRequest) => Promise<boolean>;
+  blockedUserIds: string[];
+  blockUser: (userId: string) => Promise<boolean>;
+  unblockUser: (userId: string) => Promise<boolean>;
+  reportUser: (
+    userId: string,
+    reason: ReportReason,
+    messageIds: string[],
+    details?: string
+  ) => Promise<boolean>;
+  groups: Group[];
+  createGroup: (name: string, memberIds: string[]) => Promise<Group | null>;
+  addGroupMember: (groupId: string, userId: string) => Promise<void>;
+  removeGroupMember: (groupId: string, userId: string) => Promise<void>;
   messages: Message[];
-  sendMessage: (message: Omit<Message, 'id' | 'timestamp'>) => Promise<void>;
+  sendMessage: (
+    message: NewMessage,
+    attachment?: AttachmentUpload
+  ) => Promise<boolean>; // false if the message could not be encrypted or queued
+  editMessage: (message: Message, content: string) => Promise<boolean>;
+  deleteMessage: (message: Message) => Promise<boolean>; // For everyone
+  reactions: Record<string, Reaction[]>; // Message id -> reactions, oldest first
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>;
   conversations: ChatConversation[];
-  getConversation: (contactId: string) => ChatConversation | undefined;
-  markMessagesAsRead: (contactId: string) => void;
+  getConversation: (conversationId: string) => ChatConversation | undefined;
+  conversationSettings: Record<string, ConversationSettings>; // Conversation id -> settings
+  archiveConversation: (conversationId: string, archived: boolean) => Promise<boolean>;
+  muteConversation: (conversationId: string, until: Date | null) => Promise<boolean>;
+  pinConversation: (conversationId: string, pinned: boolean) => Promise<boolean>;
+  loadOlderMessages: (conversationId: string, untilMessageId?: string) => Promise<void>;
+  markMessagesAsRead: (conversationId: string) => void;
+  typingContacts: Record<string, string[]>; // Conversation id -> ids of users typing
+  notifyTyping: (conversationId: string) => void;
+  stopTyping: (conversationId: string) => void;
+  keyRestoreOffered: boolean; // This device has no keys yet but the user has a key backup
+  restoreKeyBackup: (passphrase: string) => Promise<boolean>;
+  skipKeyRestore: () => void;
+  deviceLinkRequired: boolean; // Another device has to link this one before it can be used
+  onDeviceLinked: () => void;
+  startFreshOnThisDevice: () => Promise<void>;
+  addedDevice: Device | null; // A device added to the account from elsewhere, to confirm
+  dismissAddedDevice: () => void;
+  rotateKeys: () => Promise<void>;
   loading: boolean;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
-let CURRENT_USER_ID: string | null = null;
+/**
+ * Conversations are keyed by group id for group chats and by the other
+ * participant's user id for one-to-one chats.
+ */
+const getConversationId = (message: Message, userId: string): string => {
+  if (message.groupId) return message.groupId;
+  return message.senderId === userId ? message.receiverId || '' : message.senderId;
+};
+
+const toGroupConversation = (
+  group: Group,
+  { messages, cursor }: MessagePage = { messages: [] }
+): ChatConversation => ({
+  id: group.id,
+  type: 'group',
+  groupId: group.id,
+  messages,
+  lastMessage: messages[messages.length - 1],
+  unreadCount: 0,
+  historyCursor: cursor,
+});
+
+const mapConversationMessages = (
+  conversations: ChatConversation[],
+  update: (message: Message) => Message
+): ChatConversation[] =>
+  conversations.map((conv) => ({
+    ...conv,
+    messages: conv.messages.map(update),
+    lastMessage: conv.lastMessage && update(conv.lastMessage),
+  }));
+
+/**
+ * The parts of a message an edit or delete-for-everyone changes
+ */
+type MessageRevision = Pick<Message, 'id' | 'content' | 'attachment' | 'editedAt' | 'deletedAt'>;
+
+const toRevision = ({ id, content, attachment, editedAt, deletedAt }: Message): MessageRevision => ({
+  id,
+  content,
+  attachment,
+  editedAt,
+  deletedAt,
+});
 
-export const setCurrentUserId = (userId: string) => {
-  CURRENT_USER_ID = userId;
+/**
+ * Add reactions to their messages' lists, skipping any already known
+ */
+const mergeReactions = (
+  reactions: Record<string, Reaction[]>,
+  added: Reaction[]
+): Record<string, Reaction[]> => {
+  const merged = { ...reactions };
+  for (const reaction of added) {
+    const existing = merged[reaction.messageId] || [];
+    if (!existing.some((r) => r.id === reaction.id)) {
+      merged[reaction.messageId] = [...existing, reaction];
+    }
+  }
+  return merged;
 };
 
+const withoutReaction = (
+  reactions: Record<string, Reaction[]>,
+  reactionId: string
+): Record<string, Reaction[]> =>
+  Object.fromEntries(
+    Object.entries(reactions).map(([messageId, list]) => [
+      messageId,
+      list.filter((r) => r.id !== reactionId),
+    ])
+  );
+
+/**
+ * Append messages to their conversations, skipping any already loaded
+ */
+const mergeMessages = (
+  conversations: ChatConversation[],
+  newMessages: Message[],
+  userId: string
+): ChatConversation[] =>
+  conversations.map((conv) => {
+    const added = newMessages.filter(
+      (msg) =>
+        getConversationId(msg, userId) === conv.id &&
+        !conv.messages.some((m) => m.id === msg.id)
+    );
+    if (added.length === 0) return conv;
+
+    const convMessages = [...conv.messages, ...added];
+    return {
+      ...conv,
+      messages: convMessages,
+      lastMessage: convMessages[convMessages.length - 1],
+      unreadCount:
+        conv.unreadCount +
+        added.filter((msg) => msg.senderId !== userId && msg.status !== 'read').length,
+    };
+  });
+
 export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [sessionUserId, setSessionUserId] = useState<string | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [contacts, setContacts] = useState<Contact[]>([]);
+  const [contactRequests, setContactRequests] = useState<ContactRequest[]>([]);
+  const [blockedUserIds, setBlockedUserIds] = useState<string[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [conversationSettings, setConversationSettings] = useState<
+    Record<string, ConversationSettings>
+  >({});
+  const [reactions, setReactions] = useState<Record<string, Reaction[]>>({});
   const [loading, setLoading] = useState(true);
-  const [messageChannel, setMessageChannel] = useState<RealtimeChannel | null>(null);
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  const [lastSeenUpdates, setLastSeenUpdates] = useState<Record<string, Date>>({});
+  const [typingContacts, setTypingContacts] = useState<Record<string, string[]>>({});
+  const [keyRestoreOffered, setKeyRestoreOffered] = useState(false);
+  const [deviceLinkRequired, setDeviceLinkRequired] = useState(false);
+  const [addedDevice, setAddedDevice] = useState<Device | null>(null);
+  // Bumped to run initialization again once this device is registered
+  const [deviceRegistrations, setDeviceRegistrations] = useState(0);
+  const typingChannels = useRef<Record<string, RealtimeChannel>>({});
+  const outboxTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const loadingHistory = useRef<Set<string>>(new Set());
+  const keyRestoreDeclined = useRef(false);
+  // Mirrors blockedUserIds for the realtime handlers set up during initialization
+  const blockedUsers = useRef<Set<string>>(new Set());
+
+  // Deliver queued messages, then wake up again when the next retry is due
+  const flushOutbox = useCallback(async (userId: string, force = false) => {
+    if (outboxTimer.current) {
+      clearTimeout(outboxTimer.current);
+      outboxTimer.current = null;
+    }
+
+    const { delivered, failed } = await OutboxService.flush(userId, force);
+    if (failed.length > 0) {
+      const failedIds = new Set(failed.map((msg) => msg.id));
+      const markFailed = (msg: Message): Message =>
+        msg.status === 'sending' && failedIds.has(msg.id) ? { ...msg, status: 'failed' } : msg;
+
+      setMessages((prev) => prev.map(markFailed));
+      setConversations((prev) => mapConversationMessages(prev, markFailed));
+    }
+    if (delivered.length > 0) {
+      const createdAt = new Map(delivered.map((d) => [d.message.id, new Date(d.createdAt)]));
+      const markSent = (msg: Message): Message =>
+        msg.status === 'sending' && createdAt.has(msg.id)
+          ? { ...msg, status: 'sent', timestamp: createdAt.get(msg.id) || msg.timestamp }
+          : msg;
+
+      setMessages((prev) => prev.map(markSent));
+      setConversations((prev) => mapConversationMessages(prev, markSent));
+
+      const sentMessages = delivered.map(({ message: pending, createdAt: sentAt }) => {
+        const message: Message = { ...pending, timestamp: new Date(sentAt), status: 'sent' };
+        return { conversationId: getConversationId(message, userId), message };
+      });
+      MessageCacheService.saveMessages(userId, sentMessages);
+    }
+
+    const nextAttemptAt = await OutboxService.getNextAttemptAt(userId);
+    if (nextAttemptAt !== null) {
+      outboxTimer.current = setTimeout(
+        () =>
+          flushOutbox(userId).catch((error) => console.error('Error flushing outbox:', error)),
+        Math.max(nextAttemptAt - Date.now(), 0)
+      );
+    }
+  }, []);
+
+  // Apply an edit or delete-for-everyone to the loaded and cached copies
+  const reviseMessage = useCallback((userId: string, revision: MessageRevision) => {
+    const applyRevision = (msg: Message): Message =>
+      msg.id === revision.id ? { ...msg, ...revision } : msg;
+
+    MessageCacheService.updateMessage(userId, revision.id, revision);
+    setMessages((prev) => prev.map(applyRevision));
+    setConversations((prev) => mapConversationMessages(prev, applyRevision));
+  }, []);
+
+  // Pick up contacts added by an accepted request, with an empty conversation each
+  const refreshContacts = useCallback(async (userId: string) => {
+    const contactsList = await ChatService.getContacts(userId);
+    setContacts(contactsList);
+    setConversations((prev) => [
+      ...prev,
+      ...contactsList
+        .filter((contact) => !prev.some((conv) => conv.id === contact.id))
+        .map(
+          (contact): ChatConversation => ({
+            id: contact.id,
+            type: 'direct',
+            contactId: contact.id,
+            messages: [],
+            unreadCount: 0,
+          })
+        ),
+    ]);
+  }, []);
+
+  // Keep a pending request in the list until it is answered
+  const applyContactRequest = useCallback((request: ContactRequest) => {
+    setContactRequests((prev) => [
+      ...(request.status === 'pending' ? [request] : []),
+      ...prev.filter((r) => r.id !== request.id),
+    ]);
+  }, []);
+
+  // Follow the Supabase auth session
+  useEffect(() => {
+    return AuthService.onAuthStateChange(setSessionUserId);
+  }, []);
 
-  // Initialize data on mount
+  // (Re)load data whenever the signed-in user changes
   useEffect(() => {
+    let messageChannel: RealtimeChannel | null = null;
+    let membershipChannel: RealtimeChannel | null = null;
+    let receiptChannel: RealtimeChannel | null = null;
+    let revisionChannel: RealtimeChannel | null = null;
+    let reactionChannel: RealtimeChannel | null = null;
+    let requestChannel: RealtimeChannel | null = null;
+    let deviceChannel: RealtimeChannel | null = null;
+    let unsubscribeNetInfo: (() => void) | null = null;
+    let cancelled = false;
+
     const initializeData = async () => {
-      // Load user ID from storage if not already set
-      if (!CURRENT_USER_ID) {
-        const storedUserId = await AuthService.getCurrentUserId();
-        if (storedUserId) {
-          CURRENT_USER_ID = storedUserId;
-        } else {
-          // No user logged in
-          setLoading(false);
-          return;
-        }
+      if (!sessionUserId) {
+        // No user logged in
+        setCurrentUser(null);
+        setContacts([]);
+        setContactRequests([]);
+        setBlockedUserIds([]);
+        blockedUsers.current = new Set();
+        setGroups([]);
+        setMessages([]);
+        setConversations([]);
+        setConversationSettings({});
+        setReactions({});
+        setKeyRestoreOffered(false);
+        setDeviceLinkRequired(false);
+        keyRestoreDeclined.current = false;
+        setLoading(false);
+        return;
       }
 
+      setLoading(true);
+
       try {
         // Fetch current user
-        const user = await ChatService.getCurrentUser(CURRENT_USER_ID);
+        const user = await ChatService.getCurrentUser(sessionUserId);
+        if (cancelled) return;
         if (user) {
           setCurrentUser(user);
 
-          const hasKeys = await EncryptionService.hasKeys();
-          if (!hasKeys) {
-            console.log('Initializing encryption keys for user...');
-            const publicKey = await EncryptionService.initializeEncryption();
-
-            await ChatService.updateUser(CURRENT_USER_ID, { publicKey });
-            setCurrentUser((prev) => (prev ? { ...prev, publicKey } : null));
-          } else if (!user.publicKey) {
-            console.log('Uploading public key to database...');
-            const privateKey = await EncryptionService.getPrivateKey();
-            if (privateKey) {
-               const newPublicKey = await EncryptionService.initializeEncryption();
-              await ChatService.updateUser(CURRENT_USER_ID, { publicKey: newPublicKey });
-              setCurrentUser((prev) => (prev ? { ...prev, publicKey: newPublicKey } : null));
+          // Offer the user's key backup before a new key pair replaces it
+          if (!keyRestoreDeclined.current && !(await EncryptionService.hasKeys())) {
+            const backup = await KeyBackupService.getBackupInfo(sessionUserId);
+            if (cancelled) return;
+            if (backup) {
+              // Wait for app/restore-keys to restore it, or for the user to skip it
+              setKeyRestoreOffered(true);
+              setLoading(false);
+              return;
             }
           }
+          setKeyRestoreOffered(false);
+
+          // This device's key pair (generated on first use)
+          const publicKey = await EncryptionService.initializeEncryption();
+          const device = await DeviceService.registerCurrentDevice(
+            sessionUserId,
+            publicKey,
+            user.publicKey
+          );
+          if (cancelled) return;
+          if (!device) {
+            // Wait for app/link-device to link it, or for the user to start fresh
+            setDeviceLinkRequired(true);
+            setLoading(false);
+            return;
+          }
+          setDeviceLinkRequired(false);
+
+          if (!user.publicKey) {
+            // registerCurrentDevice may have adopted this device's key as the account key
+            const registeredUser = await ChatService.getCurrentUser(sessionUserId);
+            if (cancelled) return;
+            if (registeredUser) setCurrentUser(registeredUser);
+          }
+
+          // Let contacts start ratchet sessions with this device
+          PrekeyService.publishPrekeys(sessionUserId, device.id).catch((error) =>
+            console.error('Error publishing prekeys:', error)
+          );
+
+          deviceChannel = DeviceService.subscribeToNewDevices(sessionUserId, setAddedDevice);
         }
 
-  const contactsList = await ChatService.getContacts(CURRENT_USER_ID);
+        const [
+          contactsList,
+          groupsList,
+          cachedMessages,
+          lastSyncedAt,
+          requests,
+          blocked,
+          settings,
+        ] = await Promise.all([
+          ChatService.getContacts(sessionUserId),
+          ChatService.getGroups(sessionUserId),
+          MessageCacheService.getRecentMessages(sessionUserId),
+          MessageCacheService.getLastSyncedAt(sessionUserId),
+          ContactRequestService.getPendingRequests(sessionUserId),
+          ModerationService.getBlockedUserIds(sessionUserId),
+          ConversationSettingsService.getSettings(sessionUserId),
+        ]);
+        if (cancelled) return;
+        setConversationSettings(settings);
+        blockedUsers.current = new Set(blocked);
+        setBlockedUserIds(blocked);
         setContacts(contactsList);
+        setContactRequests(requests.filter((r) => !blockedUsers.current.has(r.user.id)));
+        setGroups(groupsList);
+
+        // Only the newest page, from the device cache when there is one; older
+        // history loads as the chat is scrolled up
+        const loadRecentMessages = async (
+          conversationId: string,
+          fetchPage: () => Promise<MessagePage>
+        ): Promise<MessagePage> => {
+          const cached = cachedMessages[conversationId];
+          if (cached?.length) {
+            return {
+              messages: cached,
+              cursor: { createdAt: cached[0].timestamp.toISOString(), id: cached[0].id },
+            };
+          }
 
-        const conversationsData = await Promise.all(
-          contactsList.map(async (contact) => {
-            const msgs = await ChatService.getMessages(CURRENT_USER_ID!, contact.id);
+          const page = await fetchPage();
+          MessageCacheService.saveMessages(
+            sessionUserId,
+            page.messages.map((message) => ({ conversationId, message }))
+          );
+          return page;
+        };
+
+        const directConversations = await Promise.all(
+          contactsList.map(async (contact): Promise<ChatConversation> => {
+            const { messages: msgs, cursor } = await loadRecentMessages(contact.id, () =>
+              ChatService.getMessages(sessionUserId, contact.id)
+            );
             const unreadCount = msgs.filter(
-              (msg) => msg.senderId === contact.id && !msg.isRead
+              (msg) => msg.senderId === contact.id && msg.status !== 'read'
             ).length;
 
             return {
+              id: contact.id,
+              type: 'direct',
               contactId: contact.id,
               messages: msgs,
               lastMessage: msgs[msgs.length - 1],
               unreadCount,
+              historyCursor: cursor,
             };
           })
         );
 
-        setConversations(conversationsData);
+        const groupConversations = await Promise.all(
+          groupsList.map(async (group) =>
+            toGroupConversation(
+              group,
+              await loadRecentMessages(group.id, () =>
+                ChatService.getGroupMessages(sessionUserId, group.id)
+              )
+            )
+          )
+        );
+
+        // Messages queued in an earlier session are still waiting to be sent
+        const queuedMessages = await OutboxService.getPendingMessages(sessionUserId);
+        if (cancelled) return;
+
+        setConversations(
+          mergeMessages([...directConversations, ...groupConversations], queuedMessages, sessionUserId)
+        );
+        // Conversations are usable now; the network catch-up below runs in the background
+        setLoading(false);
+
+        messageChannel = ChatService.subscribeToMessages(sessionUserId, (newMessage) => {
+          // Only group messages get here from blocked users; RLS rejects direct ones
+          if (blockedUsers.current.has(newMessage.senderId)) return;
 
-        const channel = ChatService.subscribeToMessages(CURRENT_USER_ID, (newMessage) => {
+          const conversationId = getConversationId(newMessage, sessionUserId);
+          if (newMessage.receiverId === sessionUserId) {
+            ChatService.markMessagesAsDelivered(sessionUserId, [newMessage.id]).catch((error) =>
+              console.error('Error marking message as delivered:', error)
+            );
+          }
+          MessageCacheService.saveMessages(sessionUserId, [{ conversationId, message: newMessage }]);
           setMessages((prev) => [...prev, newMessage]);
+          setConversations((prev) => mergeMessages(prev, [newMessage], sessionUserId));
+        });
 
-          setConversations((prev) =>
-            prev.map((conv) => {
-              if (conv.contactId === newMessage.senderId) {
-                return {
-                  ...conv,
-                  messages: [...conv.messages, newMessage],
-                  lastMessage: newMessage,
-                  unreadCount: conv.unreadCount + 1,
-                };
-              }
-              return conv;
-            })
-          );
+        receiptChannel = ChatService.subscribeToMessageReceipts(sessionUserId, (receipt) => {
+          const applyReceipt = (msg: Message): Message =>
+            msg.id === receipt.id ? { ...msg, ...receipt } : msg;
+
+          MessageCacheService.updateMessage(sessionUserId, receipt.id, receipt);
+          setMessages((prev) => prev.map(applyReceipt));
+          setConversations((prev) => mapConversationMessages(prev, applyReceipt));
         });
 
-        setMessageChannel(channel);
+        revisionChannel = ChatService.subscribeToMessageRevisions(sessionUserId, (revised) => {
+          reviseMessage(sessionUserId, toRevision(revised));
+        });
+
+        reactionChannel = ReactionService.subscribeToReactions(
+          (reaction) => {
+            if (blockedUsers.current.has(reaction.userId)) return;
+            setReactions((prev) => mergeReactions(prev, [reaction]));
+          },
+          (reactionId) => setReactions((prev) => withoutReaction(prev, reactionId))
+        );
+
+        requestChannel = ContactRequestService.subscribeToRequests(
+          sessionUserId,
+          async (requestId) => {
+            const request = await ContactRequestService.getRequest(requestId, sessionUserId);
+            if (!request || cancelled || blockedUsers.current.has(request.user.id)) return;
+
+            applyContactRequest(request);
+            if (request.status === 'accepted') {
+              await refreshContacts(sessionUserId);
+            }
+          }
+        );
+
+        // Also fires once straight away with the current connection state
+        unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+          if (state.isConnected) {
+            flushOutbox(sessionUserId, true).catch((error) =>
+              console.error('Error flushing outbox:', error)
+            );
+          }
+        });
+
+        membershipChannel = ChatService.subscribeToGroupMemberships(
+          sessionUserId,
+          async (groupId) => {
+            const group = await ChatService.getGroup(groupId);
+            if (!group || cancelled) return;
+
+            setGroups((prev) => [...prev.filter((g) => g.id !== group.id), group]);
+            setConversations((prev) =>
+              prev.some((conv) => conv.id === group.id)
+                ? prev
+                : [...prev, toGroupConversation(group)]
+            );
+          }
+        );
+
+        const loadedMessageIds = [...directConversations, ...groupConversations].flatMap((conv) =>
+          conv.messages.map((msg) => msg.id)
+        );
+
+        // Fetch only what arrived since the newest cached message
+        if (lastSyncedAt) {
+          const newMessages = (
+            await ChatService.getMessagesSince(sessionUserId, lastSyncedAt)
+          ).filter((msg) => !blockedUsers.current.has(msg.senderId));
+          if (cancelled) return;
+
+          MessageCacheService.saveMessages(
+            sessionUserId,
+            newMessages.map((message) => ({
+              conversationId: getConversationId(message, sessionUserId),
+              message,
+            }))
+          );
+          setConversations((prev) => mergeMessages(prev, newMessages, sessionUserId));
+          loadedMessageIds.push(...newMessages.map((msg) => msg.id));
+
+          // Cached messages edited or deleted while this device was offline
+          const revisions = await ChatService.getRevisionsSince(sessionUserId, lastSyncedAt);
+          if (cancelled) return;
+
+          revisions.forEach((revised) => reviseMessage(sessionUserId, toRevision(revised)));
+        }
+        // Messages cached from push notifications no longer hide older ones
+        MessageCacheService.clearSyncFloor(sessionUserId).catch((error) =>
+          console.error('Error clearing sync floor:', error)
+        );
+
+        // Everything fetched so far has now reached this device
+        ChatService.markMessagesAsDelivered(sessionUserId).catch((error) =>
+          console.error('Error marking messages as delivered:', error)
+        );
+        // Make messages cached before search existed searchable too
+        MessageCacheService.buildSearchIndex(sessionUserId);
+        // Once per launch, in case the OS handed out a new token
+        PushService.register(sessionUserId).catch((error) =>
+          console.error('Error registering for push notifications:', error)
+        );
+
+        const loadedReactions = await ReactionService.getReactions(loadedMessageIds);
+        if (cancelled) return;
+        setReactions((prev) =>
+          mergeReactions(
+            prev,
+            loadedReactions.filter((r) => !blockedUsers.current.has(r.userId))
+          )
+        );
       } catch (error) {
         console.error('Error initializing chat data:', error);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     initializeData();
 
     return () => {
+      cancelled = true;
       if (messageChannel) {
         ChatService.unsubscribeFromMessages(messageChannel);
       }
+      if (membershipChannel) {
+        ChatService.unsubscribeFromMessages(membershipChannel);
+      }
+      if (receiptChannel) {
+        ChatService.unsubscribeFromMessages(receiptChannel);
+      }
+      if (revisionChannel) {
+        ChatService.unsubscribeFromMessages(revisionChannel);
+      }
+      if (reactionChannel) {
+        ChatService.unsubscribeFromMessages(reactionChannel);
+      }
+      if (requestChannel) {
+        ChatService.unsubscribeFromMessages(requestChannel);
+      }
+      if (deviceChannel) {
+        ChatService.unsubscribeFromMessages(deviceChannel);
+      }
+      if (unsubscribeNetInfo) {
+        unsubscribeNetInfo();
+      }
+      if (outboxTimer.current) {
+        clearTimeout(outboxTimer.current);
+        outboxTimer.current = null;
+      }
     };
-  }, []);
+  }, [
+    sessionUserId,
+    flushOutbox,
+    reviseMessage,
+    refreshContacts,
+    applyContactRequest,
+    deviceRegistrations,
+  ]);
 
-  const updateCurrentUser = async (userData: Partial<User>) => {
-    if (!currentUser) return;
+  // Presence: online while the app is in the foreground
+  useEffect(() => {
+    if (!sessionUserId) return;
+
+    const channel = PresenceService.joinPresence(sessionUserId);
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        PresenceService.setOnline(channel, sessionUserId);
+      } else if (state === 'background') {
+        PresenceService.setOffline(channel, sessionUserId);
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      PresenceService.leavePresence(channel, sessionUserId);
+      setLastSeenUpdates({});
+    };
+  }, [sessionUserId]);
+
+  // Contacts' presence: one private channel per contact
+  const contactIds = contacts
+    .map((contact) => contact.id)
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    if (!sessionUserId) return;
+
+    const online = new Set<string>();
+    const channels = contactIds
+      .split(',')
+      .filter(Boolean)
+      .map((contactId) =>
+        PresenceService.watchPresence(contactId, (isOnline) => {
+          if (isOnline === online.has(contactId)) return;
+
+          if (isOnline) {
+            online.add(contactId);
+          } else {
+            online.delete(contactId);
+            setLastSeenUpdates((prev) => ({ ...prev, [contactId]: new Date() }));
+          }
+          setOnlineUserIds([...online]);
+        })
+      );
+
+    return () => {
+      channels.forEach((channel) => PresenceService.unwatchPresence(channel));
+      setOnlineUserIds([]);
+    };
+  }, [sessionUserId, contactIds]);
+
+  // Typing: one broadcast channel per conversation
+  const conversationKeys = conversations
+    .map((conv) => `${conv.id}|${conv.contactId ?? ''}|${conv.groupId ?? ''}`)
+    .join(',');
+
+  useEffect(() => {
+    if (!sessionUserId) return;
+
+    const channels = typingChannels.current;
+    const wanted = new Set<string>();
+
+    conversationKeys
+      .split(',')
+      .filter(Boolean)
+      .forEach((key) => {
+        const [conversationId, contactId, groupId] = key.split('|');
+        wanted.add(conversationId);
+        if (channels[conversationId]) return;
+
+        const topic = TypingService.getTopic(sessionUserId, {
+          contactId: contactId || undefined,
+          groupId: groupId || undefined,
+        });
+        channels[conversationId] = TypingService.joinConversation(
+          topic,
+          sessionUserId,
+          (typingUserIds) =>
+            setTypingContacts((prev) => ({
+              ...prev,
+              [conversationId]: typingUserIds.filter((id) => !blockedUsers.current.has(id)),
+            }))
+        );
+      });
+
+    Object.keys(channels).forEach((conversationId) => {
+      if (!wanted.has(conversationId)) {
+        TypingService.leaveConversation(channels[conversationId]);
+        delete channels[conversationId];
+      }
+    });
+  }, [sessionUserId, conversationKeys]);
+
+  useEffect(() => {
+    const channels = typingChannels.current;
+
+    return () => {
+      Object.keys(channels).forEach((conversationId) => {
+        TypingService.leaveConversation(channels[conversationId]);
+        delete channels[conversationId];
+      });
+      setTypingContacts({});
+    };
+  }, [sessionUserId]);
+
+  const notifyTyping = (conversationId: string) => {
+    const channel = typingChannels.current[conversationId];
+    if (channel && currentUser) {
+      TypingService.notifyTyping(channel, currentUser.id);
+    }
+  };
+
+  const stopTyping = (conversationId: string) => {
+    const channel = typingChannels.current[conversationId];
+    if (channel && currentUser) {
+      TypingService.stopTyping(channel, currentUser.id);
+    }
+  };
+
+  const contactsWithPresence = useMemo(
+    () =>
+      contacts.map((contact) => ({
+        ...contact,
+        isOnline: onlineUserIds.includes(contact.id),
+        lastSeen: lastSeenUpdates[contact.id] ?? contact.lastSeen,
+      })),
+    [contacts, onlineUserIds, lastSeenUpdates]
+  );
+
+  const updateCurrentUser = async (userData: Partial<User>): Promise<boolean> => {
+    if (!currentUser) return false;
 
     try {
       await ChatService.updateUser(currentUser.id, userData);
-      setCurrentUser((prev) => (prev ? { ...prev, ...userData } : null));
+      setCurrentUser((prev) =>
+        prev
+          ? {
+              ...prev,
+              ...userData,
+              username:
+                userData.username === undefined
+                  ? prev.username
+                  : userData.username.toLowerCase() || undefined,
+            }
+          : null
+      );
+      return true;
     } catch (error) {
       console.error('Error updating user:', error);
+      return false;
     }
   };
 
-  const addContact = async (contactEmail: string) => {
-    if (!currentUser) return;
+  /**
+   * Remove a contact and their conversation from the user's list. The
+   * history stays on the server; a new contact request brings it back.
+   */
+  const removeContact = async (contactId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const removed = await ChatService.removeContact(currentUser.id, contactId);
+    if (removed) {
+      setContacts((prev) => prev.filter((c) => c.id !== contactId));
+      setConversations((prev) => prev.filter((conv) => conv.id !== contactId));
+    }
+    return removed;
+  };
+
+  const updateConversationSettings = async (
+    conversationId: string,
+    changes: ConversationSettingsChanges
+  ): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const updated = await ConversationSettingsService.updateSettings(
+      currentUser.id,
+      conversationId,
+      changes
+    );
+    if (updated) {
+      setConversationSettings((prev) => ({
+        ...prev,
+        [conversationId]: { ...prev[conversationId], ...changes, conversationId },
+      }));
+    }
+    return updated;
+  };
+
+  // Archiving unpins; archived conversations are listed apart from the rest
+  const archiveConversation = (conversationId: string, archived: boolean) =>
+    updateConversationSettings(
+      conversationId,
+      archived ? { archivedAt: new Date(), pinnedAt: undefined } : { archivedAt: undefined }
+    );
+
+  const muteConversation = (conversationId: string, until: Date | null) =>
+    updateConversationSettings(conversationId, { mutedUntil: until ?? undefined });
+
+  const pinConversation = (conversationId: string, pinned: boolean) =>
+    updateConversationSettings(conversationId, { pinnedAt: pinned ? new Date() : undefined });
+
+  /**
+   * Ask someone to become a contact. If they already asked the user, their
+   * request is accepted instead.
+   */
+  const sendContactRequest = async (
+    userId: string,
+    note?: string
+  ): Promise<ContactRequest | null> => {
+    if (!currentUser) return null;
+
+    if (
+      userId === currentUser.id ||
+      blockedUserIds.includes(userId) ||
+      contacts.some((c) => c.id === userId)
+    ) {
+      return null;
+    }
+
+    const incoming = contactRequests.find(
+      (r) => r.senderId === userId && r.recipientId === currentUser.id
+    );
+    if (incoming) {
+      return (await acceptContactRequest(incoming)) ? { ...incoming, status: 'accepted' } : null;
+    }
+
+    const request = await ContactRequestService.sendRequest(currentUser.id, userId, note);
+    if (request) applyContactRequest(request);
+    return request;
+  };
+
+  const acceptContactRequest = async (request: ContactRequest): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const accepted = await ContactRequestService.acceptRequest(request.id);
+    if (accepted) {
+      applyContactRequest({ ...request, status: 'accepted' });
+      await refreshContacts(currentUser.id);
+    }
+    return accepted;
+  };
+
+  const declineContactRequest = async (request: ContactRequest): Promise<boolean> => {
+    const declined = await ContactRequestService.declineRequest(request.id);
+    if (declined) applyContactRequest({ ...request, status: 'declined' });
+    return declined;
+  };
+
+  const cancelContactRequest = async (request: ContactRequest): Promise<boolean> => {
+    const cancelledRequest = await ContactRequestService.cancelRequest(request.id);
+    if (cancelledRequest) applyContactRequest({ ...request, status: 'cancelled' });
+    return cancelledRequest;
+  };
+
+  const createGroup = async (name: string, memberIds: string[]): Promise<Group | null> => {
+    if (!currentUser) return null;
 
     try {
-      const contact = await ChatService.addContact(currentUser.id, contactEmail);
-      if (contact) {
-        setContacts((prev) => [...prev, contact]);
-        setConversations((prev) => [
-          ...prev,
-          {
-            contactId: contact.id,
-            messages: [],
-            unreadCount: 0,
-          },
-        ]);
+      const group = await ChatService.createGroup(currentUser.id, name, memberIds);
+      if (group) {
+        setGroups((prev) => [...prev, group]);
+        setConversations((prev) => [...prev, toGroupConversation(group)]);
+      }
+      return group;
+    } catch (error) {
+      console.error('Error creating group:', error);
+      return null;
+    }
+  };
+
+  const refreshGroup = async (groupId: string) => {
+    const group = await ChatService.getGroup(groupId);
+    if (group) {
+      setGroups((prev) => prev.map((g) => (g.id === groupId ? group : g)));
+    }
+  };
+
+  const addGroupMember = async (groupId: string, userId: string) => {
+    try {
+      if (await ChatService.addGroupMember(groupId, userId)) {
+        await refreshGroup(groupId);
       }
     } catch (error) {
-      console.error('Error adding contact:', error);
+      console.error('Error adding group member:', error);
     }
   };
 
-  const sendMessage = async (messageData: Omit<Message, 'id' | 'timestamp'>) => {
+  const removeGroupMember = async (groupId: string, userId: string) => {
     if (!currentUser) return;
 
     try {
-      const recipient = contacts.find((c) => c.id === messageData.receiverId);
-      const recipientPublicKey = recipient?.publicKey;
+      if (!(await ChatService.removeGroupMember(groupId, userId))) return;
 
-      if (!recipientPublicKey) {
-        console.warn('Recipient has no public key - message cannot be encrypted');
-        return;
+      if (userId === currentUser.id) {
+        // Left the group
+        setGroups((prev) => prev.filter((g) => g.id !== groupId));
+        setConversations((prev) => prev.filter((conv) => conv.id !== groupId));
+      } else {
+        await refreshGroup(groupId);
       }
+    } catch (error) {
+      console.error('Error removing group member:', error);
+    }
+  };
 
-      const newMessage = await ChatService.sendMessage(messageData, recipientPublicKey);
-      if (newMessage) {
-        setMessages((prev) => [...prev, newMessage]);
-
-        setConversations((prev) =>
-          prev.map((conv) => {
-            if (conv.contactId === messageData.receiverId) {
-              return {
-                ...conv,
-                messages: [...conv.messages, newMessage],
-                lastMessage: newMessage,
-              };
-            }
-            return conv;
-          })
-        );
+  /**
+   * Encrypt a message for its group's members or its recipient
+   */
+  const encryptMessage = async (
+    messageData: NewMessage,
+    id: string,
+    attachment?: AttachmentUpload
+  ): Promise<OutgoingMessage | null> => {
+    if (messageData.groupId) {
+      const group = groups.find((g) => g.id === messageData.groupId);
+      if (!group) {
+        console.warn('Group not found - message cannot be sent');
+        return null;
       }
+
+      const memberPublicKeys: Record<string, string> = {};
+      group.members.forEach((member) => {
+        if (member.publicKey) {
+          memberPublicKeys[member.userId] = member.publicKey;
+        } else {
+          console.warn(`Group member ${member.userId} has no public key - skipping`);
+        }
+      });
+
+      return await ChatService.prepareGroupMessage(messageData, id, memberPublicKeys, attachment);
+    }
+
+    const recipient = contacts.find((c) => c.id === messageData.receiverId);
+    const recipientPublicKey = recipient?.publicKey;
+
+    if (!recipientPublicKey) {
+      console.warn('Recipient has no public key - message cannot be encrypted');
+      return null;
+    }
+
+    return await ChatService.prepareMessage(messageData, id, recipientPublicKey, attachment);
+  };
+
+  const sendMessage = async (
+    messageData: NewMessage,
+    attachment?: AttachmentUpload
+  ): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const userId = currentUser.id;
+    // Generated here so a retried insert can never create a duplicate row
+    const id = Crypto.randomUUID();
+    let outgoing: OutgoingMessage | null = null;
+
+    try {
+      outgoing = await encryptMessage(messageData, id, attachment);
+      if (!outgoing) return false;
+
+      await OutboxService.enqueue(userId, outgoing);
     } catch (error) {
       console.error('Error sending message:', error);
+      return false;
     }
+
+    // Show the message straight away; the outbox delivers it when it can
+    const pendingMessage = outgoing.message;
+    const conversationId = getConversationId(pendingMessage, userId);
+    setMessages((prev) => [...prev, pendingMessage]);
+    setConversations((prev) =>
+      prev.map((conv) =>
+        conv.id === conversationId
+          ? {
+              ...conv,
+              messages: [...conv.messages, pendingMessage],
+              lastMessage: pendingMessage,
+            }
+          : conv
+      )
+    );
+
+    flushOutbox(userId).catch((error) => console.error('Error flushing outbox:', error));
+    return true;
   };
 
-  const getConversation = (contactId: string): ChatConversation | undefined => {
-    return conversations.find((conv) => conv.contactId === contactId);
+  const editMessage = async (message: Message, content: string): Promise<boolean> => {
+    // An attachment stays encrypted with the original message key, so only
+    // text messages can be re-encrypted
+    if (
+      !currentUser ||
+      message.attachment ||
+      message.deletedAt ||
+      message.status === 'sending' ||
+      message.status === 'failed'
+    ) {
+      return false;
+    }
+
+    try {
+      const outgoing = await encryptMessage(
+        {
+          senderId: message.senderId,
+          receiverId: message.receiverId,
+          groupId: message.groupId,
+          content,
+        },
+        message.id
+      );
+      if (!outgoing) return false;
+
+      const editedAt = await ChatService.editMessage(outgoing);
+      if (!editedAt) return false;
+
+      reviseMessage(currentUser.id, { id: message.id, content, editedAt: new Date(editedAt) });
+      return true;
+    } catch (error) {
+      console.error('Error editing message:', error);
+      return false;
+    }
+  };
+
+  const deleteMessage = async (message: Message): Promise<boolean> => {
+    if (!currentUser || message.status === 'sending' || message.status === 'failed') {
+      return false;
+    }
+
+    const deletedAt = await ChatService.deleteMessage(message);
+    if (!deletedAt) return false;
+
+    reviseMessage(currentUser.id, {
+      id: message.id,
+      content: '',
+      attachment: undefined,
+      deletedAt: new Date(deletedAt),
+    });
+    return true;
   };
 
-  const markMessagesAsRead = async (contactId: string) => {
+  /**
+   * Add the user's reaction with this emoji, or remove it if it is already there
+   */
+  const toggleReaction = async (messageId: string, emoji: string) => {
     if (!currentUser) return;
 
+    const own = reactions[messageId]?.find(
+      (r) => r.userId === currentUser.id && r.emoji === emoji
+    );
+
     try {
-      await ChatService.markMessagesAsRead(currentUser.id, contactId);
-
-      setMessages((prev) =>
-        prev.map((msg) =>
-          msg.senderId === contactId && msg.receiverId === currentUser.id
-            ? { ...msg, isRead: true }
-            : msg
-        )
-      );
+      if (own) {
+        if (await ReactionService.removeReaction(own.id)) {
+          setReactions((prev) => withoutReaction(prev, own.id));
+        }
+      } else {
+        const reaction = await ReactionService.addReaction(messageId, currentUser.id, emoji);
+        if (reaction) {
+          setReactions((prev) => mergeReactions(prev, [reaction]));
+        }
+      }
+    } catch (error) {
+      console.error('Error toggling reaction:', error);
+    }
+  };
+
+  const getConversation = (conversationId: string): ChatConversation | undefined => {
+    return conversations.find((conv) => conv.id === conversationId);
+  };
+
+  /**
+   * @param untilMessageId - Keep loading pages until this message is loaded
+   *   (e.g. the original of a reply), or the history runs out
+   */
+  const loadOlderMessages = async (conversationId: string, untilMessageId?: string) => {
+    const conversation = getConversation(conversationId);
+    const cursor = conversation?.historyCursor;
+    if (!currentUser || !cursor || loadingHistory.current.has(conversationId)) return;
+
+    loadingHistory.current.add(conversationId);
+    try {
+      const loaded: Message[] = [];
+      let nextCursor: MessageCursor | undefined = cursor;
+      do {
+        const page: MessagePage =
+          conversation.type === 'group'
+            ? await ChatService.getGroupMessages(currentUser.id, conversationId, nextCursor)
+            : await ChatService.getMessages(currentUser.id, conversationId, nextCursor);
+        loaded.unshift(...page.messages);
+        nextCursor = page.cursor;
+      } while (untilMessageId && nextCursor && !loaded.some((msg) => msg.id === untilMessageId));
 
+      MessageCacheService.saveMessages(
+        currentUser.id,
+        loaded.map((message) => ({ conversationId, message }))
+      );
       setConversations((prev) =>
-        prev.map((conv) =>
-          conv.contactId === contactId ? { ...conv, unreadCount: 0 } : conv
-        )
+        prev.map((conv) => {
+          if (conv.id !== conversationId) return conv;
+
+          const older = loaded.filter((msg) => !conv.messages.some((m) => m.id === msg.id));
+          return {
+            ...conv,
+            messages: [...older, ...conv.messages],
+            historyCursor: nextCursor,
+          };
+        })
       );
+
+      const olderReactions = await ReactionService.getReactions(loaded.map((msg) => msg.id));
+      setReactions((prev) => mergeReactions(prev, olderReactions));
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      loadingHistory.current.delete(conversationId);
+    }
+  };
+
+  const markMessagesAsRead = async (conversationId: string) => {
+    if (!currentUser) return;
+
+    const conversation = getConversation(conversationId);
+
+    try {
+      // Group messages share one read_at column, so only the local count is reset
+      if (conversation?.type !== 'group') {
+        await ChatService.markMessagesAsRead(currentUser.id, conversationId);
+
+        const readAt = new Date();
+        const markRead = (msg: Message): Message =>
+          msg.senderId === conversationId &&
+          msg.receiverId === currentUser.id &&
+          msg.status !== 'read'
+            ? { ...msg, status: 'read', deliveredAt: msg.deliveredAt || readAt, readAt }
+            : msg;
+
+        conversation?.messages.forEach((msg) => {
+          const read = markRead(msg);
+          if (read !== msg) {
+            MessageCacheService.updateMessage(currentUser.id, msg.id, read);
+          }
+        });
+
+        setMessages((prev) => prev.map(markRead));
+        setConversations((prev) =>
+          prev.map((conv) =>
+            conv.id === conversationId
+              ? { ...conv, messages: conv.messages.map(markRead), unreadCount: 0 }
+              : conv
+          )
+        );
+      } else {
+        setConversations((prev) =>
+          prev.map((conv) =>
+            conv.id === conversationId ? { ...conv, unreadCount: 0 } : conv
+          )
+        );
+      }
     } catch (error) {
       console.error('Error marking messages as read:', error);
     }
   };
 
+  /**
+   * Restore this device's keys from the user's backup. Knowing the
+   * passphrase stands in for approval from another device.
+   * @returns false if the passphrase is wrong
+   */
+  const restoreKeyBackup = async (passphrase: string): Promise<boolean> => {
+    if (!sessionUserId) return false;
+
+    if (!(await KeyBackupService.restoreBackup(sessionUserId, passphrase))) {
+      return false;
+    }
+
+    const publicKey = await EncryptionService.initializeEncryption();
+    const device = await DeviceService.restoreCurrentDevice(
+      sessionUserId,
+      publicKey,
+      currentUser?.publicKey
+    );
+    if (!device) {
+      throw new Error('Failed to register this device');
+    }
+
+    setDeviceRegistrations((count) => count + 1);
+    return true;
+  };
+
+  const skipKeyRestore = () => {
+    keyRestoreDeclined.current = true;
+    setDeviceRegistrations((count) => count + 1);
+  };
+
+  const onDeviceLinked = () => {
+    setDeviceRegistrations((count) => count + 1);
+  };
+
+  // Stable, so screens can show the notice from an effect
+  const dismissAddedDevice = useCallback(() => {
+    setAddedDevice(null);
+  }, []);
+
+  /**
+   * Register this device without another device's approval, for a user who
+   * has lost their other devices: those are removed first, as the database
+   * only takes an unlinked device as the first one. History that was only
+   * wrapped for them can't be read here.
+   */
+  const startFreshOnThisDevice = async () => {
+    if (!sessionUserId) return;
+
+    if (!(await DeviceService.removeOtherDevices(sessionUserId))) {
+      throw new Error('Failed to remove the other devices');
+    }
+    const publicKey = await EncryptionService.initializeEncryption();
+    const device = await DeviceService.addCurrentDevice(sessionUserId, publicKey);
+    if (!device) {
+      throw new Error('Failed to register this device');
+    }
+
+    // users.public_key stays with the linked devices: an unapproved device must
+    // not take over the account key. Contacts see the new device as a changed
+    // safety number (VerificationService).
+    setDeviceRegistrations((count) => count + 1);
+  };
+
+  /**
+   * Block a user: stop their messages and drop any pending request between
+   * the two of you. They stay in the contacts list, marked as blocked.
+   */
+  const blockUser = async (userId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const blocked = await ModerationService.blockUser(currentUser.id, userId);
+    if (!blocked) return false;
+
+    blockedUsers.current = new Set([...blockedUsers.current, userId]);
+    setBlockedUserIds([...blockedUsers.current]);
+    setTypingContacts((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([id, userIds]) => [id, userIds.filter((u) => u !== userId)])
+      )
+    );
+
+    const pending = contactRequests.filter((r) => r.user.id === userId);
+    await Promise.all(
+      pending.map((request) =>
+        request.recipientId === currentUser.id
+          ? declineContactRequest(request)
+          : cancelContactRequest(request)
+      )
+    );
+    return true;
+  };
+
+  const unblockUser = async (userId: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    const unblocked = await ModerationService.unblockUser(currentUser.id, userId);
+    if (unblocked) {
+      blockedUsers.current = new Set([...blockedUsers.current].filter((id) => id !== userId));
+      setBlockedUserIds([...blockedUsers.current]);
+    }
+    return unblocked;
+  };
+
+  const reportUser = async (
+    userId: string,
+    reason: ReportReason,
+    messageIds: string[],
+    details?: string
+  ): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    return await ModerationService.reportUser(currentUser.id, {
+      reportedUserId: userId,
+      reason,
+      messageIds,
+      details,
+    });
+  };
+
+  /**
+   * Give this device a new key pair (see DeviceService.rotateCurrentDeviceKey)
+   */
+  const rotateKeys = async () => {
+    if (!sessionUserId) return;
+
+    await DeviceService.rotateCurrentDeviceKey(sessionUserId);
+    const user = await ChatService.getCurrentUser(sessionUserId);
+    if (user) setCurrentUser(user);
+  };
+
   return (
     <ChatContext.Provider
       value={{
         currentUser,
         updateCurrentUser,
-        contacts,
-        addContact,
+        contacts: contactsWithPresence,
+        removeContact,
+        contactRequests,
+        sendContactRequest,
+        acceptContactRequest,
+        declineContactRequest,
+        cancelContactRequest,
+        blockedUserIds,
+        blockUser,
+        unblockUser,
+        reportUser,
+        groups,
+        createGroup,
+        addGroupMember,
+        removeGroupMember,
         messages,
         sendMessage,
+        editMessage,
+        deleteMessage,
+        reactions,
+        toggleReaction,
         conversations,
         getConversation,
+        conversationSettings,
+        archiveConversation,
+        muteConversation,
+        pinConversation,
+        loadOlderMessages,
         markMessagesAsRead,
+        typingContacts,
+        notifyTyping,
+        stopTyping,
+        keyRestoreOffered,
+        restoreKeyBackup,
+        skipKeyRestore,
+        deviceLinkRequired,
+        onDeviceLinked,
+        startFreshOnThisDevice,
+        addedDevice,
+        dismissAddedDevice,
+        rotateKeys,
         loading,
       }}
     >
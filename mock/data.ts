@@ -51,7 +51,7 @@ export const mockMessages: Message[] = [
     receiverId: 'user-1',
     content: 'Hey! How are you doing?',
     timestamp: new Date(Date.now() - 1000 * 60 * 60), 
-    isRead: true,
+    status: 'read',
   },
   {
     id: 'msg-2',
@@ -59,7 +59,7 @@ export const mockMessages: Message[] = [
     receiverId: 'contact-1',
     content: 'I am doing great! Thanks for asking.',
     timestamp: new Date(Date.now() - 1000 * 60 * 58),
-    isRead: true,
+    status: 'read',
   },
   {
     id: 'msg-3',
@@ -67,7 +67,7 @@ export const mockMessages: Message[] = [
     receiverId: 'user-1',
     content: 'Are we still on for the meeting tomorrow?',
     timestamp: new Date(Date.now() - 1000 * 60 * 5), 
-    isRead: false,
+    status: 'delivered',
   },
   {
     id: 'msg-4',
@@ -75,7 +75,7 @@ export const mockMessages: Message[] = [
     receiverId: 'user-1',
     content: 'Did you see the latest update?',
     timestamp: new Date(Date.now() - 1000 * 60 * 30), 
-    isRead: false,
+    status: 'delivered',
   },
   {
     id: 'msg-5',
@@ -83,12 +83,14 @@ export const mockMessages: Message[] = [
     receiverId: 'user-1',
     content: 'Let me know when you are free to chat',
     timestamp: new Date(Date.now() - 1000 * 60 * 15), 
-    isRead: true,
+    status: 'read',
   },
 ];
 
 export const mockConversations: ChatConversation[] = [
   {
+    id: 'contact-1',
+    type: 'direct',
     contactId: 'contact-1',
     messages: mockMessages.filter(
       (m) => m.senderId === 'contact-1' || m.receiverId === 'contact-1'
@@ -97,6 +99,8 @@ export const mockConversations: ChatConversation[] = [
     unreadCount: 1,
   },
   {
+    id: 'contact-2',
+    type: 'direct',
     contactId: 'contact-2',
     messages: mockMessages.filter(
       (m) => m.senderId === 'contact-2' || m.receiverId === 'contact-2'
@@ -105,6 +109,8 @@ export const mockConversations: ChatConversation[] = [
     unreadCount: 1,
   },
   {
+    id: 'contact-4',
+    type: 'direct',
     contactId: 'contact-4',
     messages: mockMessages.filter(
       (m) => m.senderId === 'contact-4' || m.receiverId === 'contact-4'
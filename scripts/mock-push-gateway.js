@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+
+/**
+ * Stand-in for the Expo push API, to test the push-message edge function locally.
+ * It logs every push it receives and answers with Expo-style tickets.
+ *
+ * Usage:
+ *   node scripts/mock-push-gateway.js [port]
+ *   supabase functions serve push-message --env-file <file with PUSH_GATEWAY_URL=http://host.docker.internal:4000>
+ *
+ * Tokens containing "unregistered" get a DeviceNotRegistered ticket, so token
+ * cleanup can be tested too.
+ */
+
+const { Buffer } = require("buffer");
+const http = require("http");
+
+const port = Number(process.argv[2]) || 4000;
+
+const server = http.createServer((request, response) => {
+  if (request.method !== "POST") {
+    response.writeHead(405);
+    response.end();
+    return;
+  }
+
+  let body = "";
+  request.on("data", (chunk) => {
+    body += chunk;
+  });
+  request.on("end", () => {
+    let pushes;
+    try {
+      pushes = JSON.parse(body);
+    } catch {
+      response.writeHead(400, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ errors: [{ code: "VALIDATION_ERROR" }] }));
+      return;
+    }
+    pushes = Array.isArray(pushes) ? pushes : [pushes];
+
+    const tickets = pushes.map((push, index) => {
+      const size = Buffer.byteLength(JSON.stringify(push.data ?? {}));
+      console.log(`[${new Date().toISOString()}] push ${index + 1}/${pushes.length} to ${push.to} (${size} bytes of data)`);
+      console.log(JSON.stringify(push, null, 2));
+
+      if (String(push.to).includes("unregistered")) {
+        return {
+          status: "error",
+          message: `"${push.to}" is not a registered push notification recipient`,
+          details: { error: "DeviceNotRegistered" },
+        };
+      }
+      return { status: "ok", id: `mock-${Date.now()}-${index}` };
+    });
+
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ data: tickets }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock push gateway listening on http://localhost:${port}`);
+});
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AttachmentUpload } from '../../types/chat';
+import { AttachmentService } from '../attachmentService';
+import { EncryptionService } from '../encryptionService';
+import { FileSystemAttachmentStorage } from '../fileSystemAttachmentStorage';
+
+// Only reached through SupabaseAttachmentStorage, which these tests replace
+jest.mock('../../lib/supabase', () => ({ supabase: {} }));
+
+const SENDER_ID = 'alice';
+const MESSAGE_ID = 'message-1';
+
+const upload: AttachmentUpload = {
+  name: 'notes.txt',
+  mimeType: 'text/plain',
+  data: new TextEncoder().encode('meet at noon').buffer as ArrayBuffer,
+};
+
+/**
+ * Encrypt and upload an attachment the way ChatService does, then read the
+ * record back as a recipient with the message's AES key
+ */
+const sendAttachment = async () => {
+  const prepared = await AttachmentService.prepare(SENDER_ID, MESSAGE_ID, upload);
+  const { aesKeyData, encryptedAttachment } = await EncryptionService.encryptContent(
+    'see attached',
+    prepared.input
+  );
+  const { record } = AttachmentService.toRecord(prepared, upload, encryptedAttachment!);
+  await AttachmentService.upload(prepared.path, encryptedAttachment!.data);
+
+  return AttachmentService.fromRecord(record, EncryptionService.arrayBufferToBase64(aesKeyData));
+};
+
+describe('AttachmentService', () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+    AttachmentService.setStorage(new FileSystemAttachmentStorage(rootDir));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores attachments under the sender and message ids', async () => {
+    const prepared = await AttachmentService.prepare(SENDER_ID, MESSAGE_ID, upload);
+
+    expect(prepared.path).toBe(`${SENDER_ID}/${MESSAGE_ID}`);
+  });
+
+  it('lets a recipient decrypt the reference and download the file', async () => {
+    const attachment = await sendAttachment();
+
+    expect(attachment).toMatchObject({
+      name: upload.name,
+      mimeType: upload.mimeType,
+      size: upload.data.byteLength,
+      path: `${SENDER_ID}/${MESSAGE_ID}`,
+    });
+    const data = await AttachmentService.download(attachment);
+    expect(new TextDecoder().decode(data)).toBe('meet at noon');
+  });
+
+  it('only ever stores ciphertext', async () => {
+    const attachment = await sendAttachment();
+
+    const stored = await fs.readFile(path.join(rootDir, attachment.path));
+    expect(stored.toString('utf8')).not.toContain('meet at noon');
+  });
+
+  it('rejects a file whose hash does not match the record', async () => {
+    const attachment = await sendAttachment();
+
+    await expect(
+      AttachmentService.download({ ...attachment, sha256: '0'.repeat(64) })
+    ).rejects.toThrow('Attachment integrity check failed');
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const attachment = await sendAttachment();
+    const filePath = path.join(rootDir, attachment.path);
+    const stored = await fs.readFile(filePath);
+    stored[0] ^= 0xff;
+    await fs.writeFile(filePath, stored);
+
+    await expect(AttachmentService.download(attachment)).rejects.toThrow();
+  });
+
+  it('removes the stored file', async () => {
+    const attachment = await sendAttachment();
+
+    await AttachmentService.remove(attachment.path);
+
+    await expect(AttachmentService.download(attachment)).rejects.toThrow();
+  });
+});
+
+describe('FileSystemAttachmentStorage', () => {
+  it('refuses paths outside its directory', async () => {
+    const storage = new FileSystemAttachmentStorage(os.tmpdir());
+
+    await expect(storage.download('../etc/passwd')).rejects.toThrow('Invalid attachment path');
+  });
+});
@@ -0,0 +1,104 @@
+import { EncryptionService } from '../encryptionService';
+import { KeyBackupService } from '../keyBackupService';
+
+// Stand-in for the key_backups table, by user id
+const mockBackups = new Map<string, Record<string, unknown>>();
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      upsert: async (row: Record<string, unknown>) => {
+        mockBackups.set(row.user_id as string, row);
+        return { error: null };
+      },
+      select: () => ({
+        eq: (_column: string, userId: string) => ({
+          maybeSingle: async () => ({ data: mockBackups.get(userId) ?? null, error: null }),
+        }),
+      }),
+    }),
+  },
+}));
+
+type KeyPair = Awaited<ReturnType<typeof EncryptionService.generateKeyPair>>;
+
+const USER_ID = 'alice';
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('KeyBackupService', () => {
+  let keys: KeyPair;
+  let previousKey: string;
+  let linked: KeyPair; // Handed over by a device this one was linked from
+
+  beforeAll(async () => {
+    [keys, { privateKey: previousKey }, linked] = await Promise.all([
+      EncryptionService.generateKeyPair(),
+      EncryptionService.generateKeyPair(),
+      EncryptionService.generateKeyPair(),
+    ]);
+  });
+
+  beforeEach(async () => {
+    mockBackups.clear();
+    await EncryptionService.clearKeys();
+    await EncryptionService.storePrivateKey(keys.privateKey);
+    await EncryptionService.storePublicKey(keys.publicKey);
+    await EncryptionService.storePreviousPrivateKeys([previousKey]);
+    await EncryptionService.storeLinkedPrivateKeys({ 'old-device': linked.privateKey });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('restores every backed up key on a device without keys', async () => {
+    expect(await KeyBackupService.createBackup(USER_ID, PASSPHRASE)).toBe(true);
+    await EncryptionService.clearKeys();
+
+    expect(await KeyBackupService.restoreBackup(USER_ID, PASSPHRASE)).toBe(true);
+    expect(await EncryptionService.getPrivateKey()).toBe(keys.privateKey);
+    expect(await EncryptionService.getPublicKey()).toBe(keys.publicKey);
+    expect(await EncryptionService.getLinkedPrivateKeys()).toEqual({ 'old-device': linked.privateKey });
+    expect(Object.values(await EncryptionService.getPreviousPrivateKeys())).toEqual([previousKey]);
+  });
+
+  it('lets restored keys unwrap messages wrapped for any of them', async () => {
+    const aesKeyData = new TextEncoder().encode('0123456789abcdef0123456789abcdef').buffer;
+    const encryptedKey = await EncryptionService.wrapKey(aesKeyData, linked.publicKey);
+
+    await KeyBackupService.createBackup(USER_ID, PASSPHRASE);
+    await EncryptionService.clearKeys();
+    await KeyBackupService.restoreBackup(USER_ID, PASSPHRASE);
+
+    const keyId = EncryptionService.getKeyId(linked.privateKey);
+    expect(await EncryptionService.getPrivateKeyIds()).toContain(keyId);
+    const unwrapped = await EncryptionService.unwrapMessageKey({
+      encryptedContent: '',
+      encryptedKey,
+      keyId,
+      iv: '',
+    });
+    expect(EncryptionService.base64ToArrayBuffer(unwrapped)).toEqual(aesKeyData);
+  });
+
+  it('keeps the keys out of the uploaded backup', async () => {
+    await KeyBackupService.createBackup(USER_ID, PASSPHRASE);
+
+    const uploaded = JSON.stringify(mockBackups.get(USER_ID));
+    expect(uploaded).not.toContain(JSON.parse(keys.privateKey).d);
+    expect(uploaded).not.toContain(PASSPHRASE);
+  });
+
+  it('refuses a wrong passphrase without touching the keys', async () => {
+    await KeyBackupService.createBackup(USER_ID, PASSPHRASE);
+    await EncryptionService.clearKeys();
+
+    expect(await KeyBackupService.restoreBackup(USER_ID, 'not the passphrase')).toBe(false);
+    expect(await EncryptionService.hasKeys()).toBe(false);
+  });
+
+  it('reports a missing backup', async () => {
+    expect(await KeyBackupService.restoreBackup(USER_ID, PASSPHRASE)).toBe(false);
+  });
+});
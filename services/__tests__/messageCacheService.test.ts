@@ -0,0 +1,78 @@
+import { Message } from '../../types/chat';
+import { InMemoryMessageStore } from '../inMemoryMessageStore';
+import { MessageCacheService } from '../messageCacheService';
+
+const OWNER_ID = 'owner';
+
+const message = (id: string, content: string, changes: Partial<Message> = {}): Message => ({
+  id,
+  senderId: 'sender',
+  receiverId: OWNER_ID,
+  content,
+  timestamp: new Date(`2026-01-01T00:00:0${id}Z`),
+  status: 'delivered',
+  ...changes,
+});
+
+describe('MessageCacheService', () => {
+  beforeEach(() => {
+    MessageCacheService.setStore(new InMemoryMessageStore());
+  });
+
+  it('finds messages by word prefixes, newest first', async () => {
+    await MessageCacheService.saveMessages(OWNER_ID, [
+      { conversationId: 'a', message: message('1', 'Coffee tomorrow?') },
+      { conversationId: 'b', message: message('2', 'Café is closed tomorrow') },
+      { conversationId: 'a', message: message('3', 'See you then') },
+    ]);
+
+    const results = await MessageCacheService.search(OWNER_ID, 'TOMOR');
+    expect(results.map((result) => result.message.id)).toEqual(['2', '1']);
+    expect(results[0].message.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('needs every word of the query and can stay in one conversation', async () => {
+    await MessageCacheService.saveMessages(OWNER_ID, [
+      { conversationId: 'a', message: message('1', 'Coffee tomorrow?') },
+      { conversationId: 'b', message: message('2', 'Café is closed tomorrow') },
+    ]);
+
+    expect(await MessageCacheService.search(OWNER_ID, 'cafe tomorrow')).toHaveLength(1);
+    expect(await MessageCacheService.search(OWNER_ID, 'tomorrow', 'a')).toEqual([
+      expect.objectContaining({ conversationId: 'a' }),
+    ]);
+  });
+
+  it('keeps queued and failed messages out of the cache', async () => {
+    await MessageCacheService.saveMessages(OWNER_ID, [
+      { conversationId: 'a', message: message('1', 'queued', { status: 'sending' }) },
+      { conversationId: 'a', message: message('2', 'rejected', { status: 'failed' }) },
+    ]);
+
+    expect(await MessageCacheService.getRecentMessages(OWNER_ID)).toEqual({});
+  });
+
+  it('stops finding a message once it is deleted', async () => {
+    await MessageCacheService.saveMessages(OWNER_ID, [
+      { conversationId: 'a', message: message('1', 'secret plans') },
+    ]);
+    await MessageCacheService.updateMessage(OWNER_ID, '1', {
+      content: '',
+      deletedAt: new Date(),
+    });
+
+    expect(await MessageCacheService.search(OWNER_ID, 'secret')).toEqual([]);
+  });
+
+  it('groups recent messages by conversation, oldest first', async () => {
+    await MessageCacheService.saveMessages(OWNER_ID, [
+      { conversationId: 'a', message: message('2', 'second') },
+      { conversationId: 'b', message: message('3', 'other') },
+      { conversationId: 'a', message: message('1', 'first') },
+    ]);
+
+    const recent = await MessageCacheService.getRecentMessages(OWNER_ID);
+    expect(recent.a.map((cached) => cached.content)).toEqual(['first', 'second']);
+    expect(recent.b.map((cached) => cached.content)).toEqual(['other']);
+  });
+});
@@ -0,0 +1,128 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatService, OutgoingMessage } from '../chatService';
+import { OutboxService } from '../outboxService';
+
+jest.mock('../chatService', () => ({
+  ChatService: { deliverMessage: jest.fn() },
+}));
+
+const USER_ID = 'alice';
+const deliverMessage = ChatService.deliverMessage as jest.MockedFunction<
+  typeof ChatService.deliverMessage
+>;
+
+const outgoing = (id: string, receiverId: string): OutgoingMessage => ({
+  row: {
+    id,
+    sender_id: USER_ID,
+    receiver_id: receiverId,
+    content: 'ciphertext',
+    encrypted_key: '',
+    iv: 'iv',
+  },
+  message: {
+    id,
+    senderId: USER_ID,
+    receiverId,
+    content: `message ${id}`,
+    timestamp: new Date(),
+    status: 'sending',
+  },
+});
+
+const queuedIds = async (): Promise<string[]> =>
+  (await OutboxService.getEntries(USER_ID)).map((entry) => entry.row.id);
+
+describe('OutboxService', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    deliverMessage.mockReset();
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('backs off exponentially up to five minutes', () => {
+    expect(OutboxService.getRetryDelay(1)).toBe(2000);
+    expect(OutboxService.getRetryDelay(2)).toBe(4000);
+    expect(OutboxService.getRetryDelay(5)).toBe(32000);
+    expect(OutboxService.getRetryDelay(20)).toBe(5 * 60 * 1000);
+  });
+
+  it('only treats RLS and constraint errors as permanent', () => {
+    expect(OutboxService.isPermanentFailure('42501')).toBe(true);
+    expect(OutboxService.isPermanentFailure('23503')).toBe(true);
+    expect(OutboxService.isPermanentFailure('23505')).toBe(false);
+    expect(OutboxService.isPermanentFailure('08006')).toBe(false);
+    expect(OutboxService.isPermanentFailure(undefined)).toBe(false);
+  });
+
+  it('delivers queued messages oldest first', async () => {
+    await OutboxService.enqueue(USER_ID, outgoing('1', 'bob'));
+    await OutboxService.enqueue(USER_ID, outgoing('2', 'bob'));
+    deliverMessage.mockResolvedValue({ createdAt: '2026-01-01T00:00:00Z' });
+
+    const { delivered, failed } = await OutboxService.flush(USER_ID);
+
+    expect(deliverMessage.mock.calls.map(([entry]) => entry.row.id)).toEqual(['1', '2']);
+    expect(delivered.map(({ message }) => message.content)).toEqual(['message 1', 'message 2']);
+    expect(failed).toEqual([]);
+    expect(await queuedIds()).toEqual([]);
+  });
+
+  it('holds a conversation behind its first failure while others carry on', async () => {
+    await OutboxService.enqueue(USER_ID, outgoing('1', 'bob'));
+    await OutboxService.enqueue(USER_ID, outgoing('2', 'carol'));
+    await OutboxService.enqueue(USER_ID, outgoing('3', 'bob'));
+    deliverMessage.mockImplementation(async (entry) =>
+      entry.row.receiver_id === 'bob' ? {} : { createdAt: '2026-01-01T00:00:00Z' }
+    );
+
+    const { delivered } = await OutboxService.flush(USER_ID);
+
+    expect(deliverMessage.mock.calls.map(([entry]) => entry.row.id)).toEqual(['1', '2']);
+    expect(delivered.map(({ message }) => message.id)).toEqual(['2']);
+    expect(await queuedIds()).toEqual(['1', '3']);
+  });
+
+  it('waits for the retry delay unless forced', async () => {
+    await OutboxService.enqueue(USER_ID, outgoing('1', 'bob'));
+    deliverMessage.mockResolvedValue({});
+
+    await OutboxService.flush(USER_ID);
+    const [entry] = await OutboxService.getEntries(USER_ID);
+    expect(entry.attempts).toBe(1);
+    expect(await OutboxService.getNextAttemptAt(USER_ID)).toBe(now + 2000);
+
+    await OutboxService.flush(USER_ID);
+    expect(deliverMessage).toHaveBeenCalledTimes(1);
+
+    await OutboxService.flush(USER_ID, true);
+    expect(deliverMessage).toHaveBeenCalledTimes(2);
+
+    now += OutboxService.getRetryDelay(2);
+    deliverMessage.mockResolvedValue({ createdAt: '2026-01-01T00:00:00Z' });
+    const { delivered } = await OutboxService.flush(USER_ID);
+    expect(delivered).toHaveLength(1);
+    expect(await OutboxService.getNextAttemptAt(USER_ID)).toBeNull();
+  });
+
+  it('drops rejected messages without holding up the conversation', async () => {
+    await OutboxService.enqueue(USER_ID, outgoing('1', 'bob'));
+    await OutboxService.enqueue(USER_ID, outgoing('2', 'bob'));
+    deliverMessage
+      .mockResolvedValueOnce({ errorCode: '42501' })
+      .mockResolvedValueOnce({ createdAt: '2026-01-01T00:00:00Z' });
+
+    const { delivered, failed } = await OutboxService.flush(USER_ID);
+
+    expect(failed).toEqual([expect.objectContaining({ id: '1', status: 'failed' })]);
+    expect(delivered.map(({ message }) => message.id)).toEqual(['2']);
+    expect(await queuedIds()).toEqual([]);
+  });
+});
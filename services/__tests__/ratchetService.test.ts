@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KeyPair, PrekeyService } from '../prekeyService';
+import { RatchetHeader, RatchetService } from '../ratchetService';
+
+jest.mock('../../lib/supabase', () => ({ supabase: {} }));
+
+interface TestDevice {
+  identity: { dh: KeyPair; signing: KeyPair };
+  signedPrekey: { id: number; keyPair: KeyPair };
+  oneTimePrekeys: Map<number, KeyPair>;
+}
+
+const createDevice = (): TestDevice => ({
+  identity: { dh: PrekeyService.generateKeyPair(), signing: PrekeyService.generateKeyPair() },
+  signedPrekey: { id: 1, keyPair: PrekeyService.generateKeyPair() },
+  oneTimePrekeys: new Map([[7, PrekeyService.generateKeyPair()]]),
+});
+
+type SentMessage = { header: RatchetHeader; ciphertext: string };
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer;
+const decode = (data: ArrayBuffer): string => new TextDecoder().decode(data);
+
+describe('RatchetService', () => {
+  let devices: Record<string, TestDevice>;
+  let current: TestDevice;
+
+  // Alice and Bob share this test's storage, so each side runs as its own device
+  const asAlice = <T>(run: () => Promise<T>): Promise<T> => {
+    current = devices['alice-device'];
+    return run();
+  };
+  const asBob = <T>(run: () => Promise<T>): Promise<T> => {
+    current = devices['bob-device'];
+    return run();
+  };
+
+  const send = async (text: string): Promise<SentMessage> => {
+    const sent = await asAlice(() => RatchetService.encrypt('alice', 'bob-device', encode(text)));
+    if (!sent) throw new Error('No session for bob-device');
+    return sent;
+  };
+
+  const receive = async ({ header, ciphertext }: SentMessage): Promise<string> =>
+    decode(await asBob(() => RatchetService.decrypt('bob', 'alice-device', header, ciphertext)));
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    devices = { 'alice-device': createDevice(), 'bob-device': createDevice() };
+
+    jest.spyOn(PrekeyService, 'getIdentityKeys').mockImplementation(async () => current.identity);
+    jest
+      .spyOn(PrekeyService, 'getSignedPrekey')
+      .mockImplementation(async () => current.signedPrekey);
+    jest
+      .spyOn(PrekeyService, 'getOneTimePrekey')
+      .mockImplementation(async (id) => current.oneTimePrekeys.get(id) ?? null);
+    jest.spyOn(PrekeyService, 'removeOneTimePrekey').mockImplementation(async (id) => {
+      current.oneTimePrekeys.delete(id);
+    });
+    jest
+      .spyOn(PrekeyService, 'getIdentityKey')
+      .mockImplementation(async (deviceId) => devices[deviceId]?.identity.dh.publicKey ?? null);
+    jest.spyOn(PrekeyService, 'claimBundle').mockImplementation(async (deviceId) => {
+      const device = devices[deviceId];
+      const [id, oneTimePrekey] = device.oneTimePrekeys.entries().next().value!;
+      return {
+        identityKey: device.identity.dh.publicKey,
+        signedPrekey: {
+          id: device.signedPrekey.id,
+          publicKey: device.signedPrekey.keyPair.publicKey,
+        },
+        oneTimePrekey: { id, publicKey: oneTimePrekey.publicKey },
+      };
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('decrypts messages both ways', async () => {
+    const first = await send('Hi Bob');
+    expect(first.header.prekey).toBeDefined();
+    expect(await receive(first)).toBe('Hi Bob');
+    expect(devices['bob-device'].oneTimePrekeys.size).toBe(0);
+
+    const reply = await asBob(() =>
+      RatchetService.encrypt('bob', 'alice-device', encode('Hi Alice'))
+    );
+    const replyData = await asAlice(() =>
+      RatchetService.decrypt('alice', 'bob-device', reply!.header, reply!.ciphertext)
+    );
+    expect(decode(replyData)).toBe('Hi Alice');
+
+    // Bob has the session now, so Alice stops sending the X3DH header
+    const second = await send('How are you?');
+    expect(second.header.prekey).toBeUndefined();
+    expect(second.header.dh).not.toBe(first.header.dh);
+    expect(await receive(second)).toBe('How are you?');
+  });
+
+  it('decrypts messages that arrive out of order', async () => {
+    const sent = [await send('one'), await send('two'), await send('three')];
+
+    expect(await receive(sent[2])).toBe('three');
+    expect(await receive(sent[0])).toBe('one');
+    expect(await receive(sent[1])).toBe('two');
+  });
+
+  it('rejects replayed and tampered messages without breaking the session', async () => {
+    const first = await send('once');
+    expect(await receive(first)).toBe('once');
+    await expect(receive(first)).rejects.toThrow();
+
+    const second = await send('twice');
+    const flipped = second.ciphertext[0] === 'A' ? 'B' : 'A';
+    const tampered = { ...second, ciphertext: flipped + second.ciphertext.slice(1) };
+    await expect(receive(tampered)).rejects.toThrow();
+
+    expect(await receive(second)).toBe('twice');
+  });
+
+  it('only uses message keys once', async () => {
+    const sent = [await send('one'), await send('two')];
+    expect(await receive(sent[1])).toBe('two');
+    expect(await receive(sent[0])).toBe('one');
+
+    await expect(receive(sent[0])).rejects.toThrow();
+  });
+});
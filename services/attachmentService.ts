@@ -0,0 +1,160 @@
+import { Attachment, AttachmentUpload } from '../types/chat';
+import { AttachmentStorage, SupabaseAttachmentStorage } from './attachmentStorage';
+import { AttachmentInput, EncryptedAttachment, EncryptionService } from './encryptionService';
+
+/**
+ * Shape of the `messages.attachment` column. The storage path and file
+ * name are only stored encrypted (`reference`).
+ */
+export type AttachmentRecord = {
+  reference: string;      // Base64 encrypted { path, name }
+  reference_iv: string;
+  iv: string;             // Base64 IV of the encrypted file
+  mime_type: string;
+  size: number;
+  sha256: string;         // Hex hash of the plain file bytes
+};
+
+export interface PreparedAttachment {
+  path: string;
+  sha256: string;
+  input: AttachmentInput;
+}
+
+/**
+ * Encrypted attachments
+ *
+ * Flow:
+ * 1. prepare() picks the message's storage path and hashes the plain bytes
+ * 2. EncryptionService encrypts the bytes and { path, name } with the message's AES key
+ * 3. toRecord() builds the `messages.attachment` record
+ * 4. upload() stores the ciphertext (the outbox retries it until it succeeds)
+ * 5. Recipients decrypt the reference with the same key, then download() and verify
+ */
+export class AttachmentService {
+  private static storage: AttachmentStorage = new SupabaseAttachmentStorage();
+
+  /**
+   * Swap the storage backend (e.g. FileSystemAttachmentStorage in tests)
+   */
+  static setStorage(storage: AttachmentStorage): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Read a local file (e.g. from the document picker) into memory
+   */
+  static async readFile(uri: string): Promise<ArrayBuffer> {
+    const response = await fetch(uri);
+    return await response.arrayBuffer();
+  }
+
+  /**
+   * Stored as <sender id>/<message id>, which the storage policy checks
+   * against the message to let only its participants download it
+   */
+  static async prepare(
+    senderId: string,
+    messageId: string,
+    upload: AttachmentUpload
+  ): Promise<PreparedAttachment> {
+    const path = `${senderId}/${messageId}`;
+    const sha256 = await EncryptionService.sha256(upload.data);
+
+    return {
+      path,
+      sha256,
+      input: {
+        data: upload.data,
+        reference: JSON.stringify({ path, name: upload.name }),
+      },
+    };
+  }
+
+  /**
+   * Describe encrypted bytes that are about to be uploaded
+   * @returns The column record plus the sender's local view of the attachment
+   */
+  static toRecord(
+    prepared: PreparedAttachment,
+    upload: AttachmentUpload,
+    encrypted: EncryptedAttachment
+  ): { record: AttachmentRecord; attachment: Attachment } {
+    return {
+      record: {
+        reference: encrypted.reference,
+        reference_iv: encrypted.referenceIv,
+        iv: encrypted.iv,
+        mime_type: upload.mimeType,
+        size: upload.data.byteLength,
+        sha256: prepared.sha256,
+      },
+      attachment: {
+        name: upload.name,
+        mimeType: upload.mimeType,
+        size: upload.data.byteLength,
+        sha256: prepared.sha256,
+        path: prepared.path,
+        iv: encrypted.iv,
+        key: encrypted.key,
+      },
+    };
+  }
+
+  /**
+   * Decrypt an attachment record using the message's unwrapped AES key
+   */
+  static async fromRecord(record: AttachmentRecord, key: string): Promise<Attachment> {
+    const referenceBuffer = await EncryptionService.decryptWithKey(
+      key,
+      record.reference,
+      record.reference_iv
+    );
+    const { path, name } = JSON.parse(new TextDecoder().decode(referenceBuffer));
+
+    return {
+      name,
+      mimeType: record.mime_type,
+      size: record.size,
+      sha256: record.sha256,
+      path,
+      iv: record.iv,
+      key,
+    };
+  }
+
+  /**
+   * Download, decrypt and verify an attachment
+   * @returns Plain file bytes
+   */
+  static async download(attachment: Attachment): Promise<ArrayBuffer> {
+    const encrypted = await this.storage.download(attachment.path);
+    const data = await EncryptionService.decryptWithKey(attachment.key, encrypted, attachment.iv);
+
+    const sha256 = await EncryptionService.sha256(data);
+    if (sha256 !== attachment.sha256) {
+      throw new Error('Attachment integrity check failed');
+    }
+
+    return data;
+  }
+
+  /**
+   * Download an attachment as a data URI (for image previews)
+   */
+  static async toDataUri(attachment: Attachment): Promise<string> {
+    const data = await this.download(attachment);
+    return `data:${attachment.mimeType};base64,${EncryptionService.arrayBufferToBase64(data)}`;
+  }
+
+  /**
+   * Upload encrypted bytes. Safe to repeat for the same path.
+   */
+  static async upload(path: string, encryptedData: ArrayBuffer): Promise<void> {
+    await this.storage.upload(path, encryptedData);
+  }
+
+  static async remove(path: string): Promise<void> {
+    await this.storage.remove(path);
+  }
+}
@@ -0,0 +1,59 @@
+import { supabase } from '../lib/supabase';
+
+/**
+ * Where encrypted attachment bytes live. Implementations only ever see
+ * ciphertext; encryption happens in AttachmentService.
+ */
+export interface AttachmentStorage {
+  upload(path: string, data: ArrayBuffer): Promise<void>; // Overwrites, so retries are safe
+  download(path: string): Promise<ArrayBuffer>;
+  remove(path: string): Promise<void>;
+}
+
+const ATTACHMENTS_BUCKET = 'attachments';
+
+/**
+ * Supabase Storage backed implementation used by the app
+ */
+export class SupabaseAttachmentStorage implements AttachmentStorage {
+  constructor(private bucket: string = ATTACHMENTS_BUCKET) {}
+
+  async upload(path: string, data: ArrayBuffer): Promise<void> {
+    const { error } = await supabase.storage.from(this.bucket).upload(path, data, {
+      contentType: 'application/octet-stream',
+      upsert: true,
+    });
+
+    if (error) {
+      console.error('Error uploading attachment:', error);
+      throw error;
+    }
+  }
+
+  async download(path: string): Promise<ArrayBuffer> {
+    const { data, error } = await supabase.storage
+      .from(this.bucket)
+      .createSignedUrl(path, 60);
+
+    if (error || !data) {
+      console.error('Error fetching attachment URL:', error);
+      throw error || new Error('Attachment not found');
+    }
+
+    const response = await fetch(data.signedUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download attachment (${response.status})`);
+    }
+
+    return await response.arrayBuffer();
+  }
+
+  async remove(path: string): Promise<void> {
+    const { error } = await supabase.storage.from(this.bucket).remove([path]);
+
+    if (error) {
+      console.error('Error removing attachment:', error);
+      throw error;
+    }
+  }
+}
@@ -1,80 +1,152 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { supabase } from "../lib/supabase";
 import { ChatService } from "./chatService";
 import { EncryptionService } from "./encryptionService";
+import { MessageCacheService } from "./messageCacheService";
+import { PrekeyService } from "./prekeyService";
+import { RatchetService } from "./ratchetService";
+import { DeviceService } from "./deviceService";
 import { User } from "../types/chat";
 
-const USER_ID_KEY = "@user_id";
-
 export class AuthService {
   static async isLoggedIn(): Promise<boolean> {
-    const userId = await AsyncStorage.getItem(USER_ID_KEY);
+    const userId = await this.getCurrentUserId();
     return userId !== null;
   }
 
   static async getCurrentUserId(): Promise<string | null> {
-    return await AsyncStorage.getItem(USER_ID_KEY);
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user.id ?? null;
+  }
+
+  /**
+   * Listen for sign-in / sign-out. The callback fires once with the
+   * restored session (or null) and again on every auth change.
+   * Returns an unsubscribe function.
+   */
+  static onAuthStateChange(callback: (userId: string | null) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      callback(session?.user.id ?? null);
+    });
+
+    return () => data.subscription.unsubscribe();
   }
 
+  /**
+   * Create an auth account. The `users` row is created by the
+   * `on_auth_user_created` trigger from the metadata passed here.
+   * Returns null when the project requires email confirmation first.
+   */
   static async signup(userData: {
     name: string;
     email: string;
+    password: string;
     avatar?: string;
     bio?: string;
-  }): Promise<User> {
-    try {
-      const publicKey = await EncryptionService.initializeEncryption();
-
-      const user = await ChatService.createUser({
-        name: userData.name,
-        email: userData.email,
-        avatar: userData.avatar,
-        bio: userData.bio,
-        isOnboarded: true,
-        publicKey,
-      });
-
-      await AsyncStorage.setItem(USER_ID_KEY, user.id);
-
-      return user;
-    } catch (error) {
+  }): Promise<User | null> {
+    const publicKey = await EncryptionService.initializeEncryption();
+
+    const { data, error } = await supabase.auth.signUp({
+      email: userData.email,
+      password: userData.password,
+      options: {
+        data: {
+          name: userData.name,
+          avatar: userData.avatar,
+          bio: userData.bio,
+          public_key: publicKey,
+        },
+      },
+    });
+
+    if (error) {
       console.error("Signup error:", error);
-      throw new Error(
-        "Failed to create user. This email may already be registered."
-      );
+      throw new Error(error.message || "Failed to create user.");
     }
-  }
 
-  static async login(email: string): Promise<User> {
-    try {
-      const user = await ChatService.getUserByEmail(email);
+    if (!data.session || !data.user) {
+      return null;
+    }
 
-      if (!user) {
-        throw new Error('User not found. Please sign up first.');
-      }
+    return await this.loadProfile(data.user.id);
+  }
 
-      await AsyncStorage.setItem(USER_ID_KEY, user.id);
-     const hasKeys = await EncryptionService.hasKeys();
-      if (!hasKeys) {
-        console.warn('No encryption keys found on this device. Messages cannot be decrypted.');
-      }
+  static async login(email: string, password: string): Promise<User> {
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
 
-      return user;
-    } catch (error: any) {
+    if (error) {
       console.error("Login error:", error);
-      throw error;
+      throw new Error(error.message || "Login failed");
+    }
+
+    return await this.loadProfile(data.user.id);
+  }
+
+  /**
+   * Email a one-time login code to an existing user
+   */
+  static async sendLoginCode(email: string): Promise<void> {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false },
+    });
+
+    if (error) {
+      console.error("Error sending login code:", error);
+      throw new Error(error.message || "Failed to send login code");
     }
   }
 
+  static async verifyLoginCode(email: string, code: string): Promise<User> {
+    const { data, error } = await supabase.auth.verifyOtp({
+      email,
+      token: code,
+      type: "email",
+    });
+
+    if (error || !data.user) {
+      console.error("Error verifying login code:", error);
+      throw new Error(error?.message || "Invalid or expired code");
+    }
+
+    return await this.loadProfile(data.user.id);
+  }
+
   static async logout(): Promise<void> {
-    await AsyncStorage.removeItem(USER_ID_KEY);
+    const userId = await this.getCurrentUserId();
+
+    // This device's keys are about to be deleted, so contacts must stop using them
+    if (userId) {
+      await DeviceService.removeCurrentDevice(userId);
+    }
+    await supabase.auth.signOut();
     await EncryptionService.clearKeys();
+    await PrekeyService.clearKeys();
+    // The cache holds decrypted history, so it must not outlive the session
+    if (userId) {
+      await MessageCacheService.clear(userId);
+      await RatchetService.clearSessions(userId);
+    }
   }
 
-
   static async getCurrentUser(): Promise<User | null> {
     const userId = await this.getCurrentUserId();
     if (!userId) return null;
 
     return await ChatService.getCurrentUser(userId);
   }
+
+  private static async loadProfile(userId: string): Promise<User> {
+    const user = await ChatService.getCurrentUser(userId);
+    if (!user) {
+      throw new Error("User profile not found. Please sign up first.");
+    }
+
+    // ChatContext sets up this device's keys, offering the user's key backup
+    // before it generates a new pair
+
+    return user;
+  }
 }
@@ -1,9 +1,87 @@
 import { supabase } from '../lib/supabase';
-import { User, Contact, Message } from '../types/chat';
+import {
+  User,
+  UserProfile,
+  Contact,
+  Message,
+  MessageStatus,
+  MessageCursor,
+  NewMessage,
+  Group,
+  Device,
+  Attachment,
+  AttachmentUpload,
+} from '../types/chat';
+import { Database } from '../types/database';
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { EncryptionService } from './encryptionService';
+import { AttachmentRecord, AttachmentService } from './attachmentService';
+import { RatchetHeader, RatchetService } from './ratchetService';
+import { MessageCacheService } from './messageCacheService';
+import { DeviceService } from './deviceService';
+
+export type MessageInsert = Database['public']['Tables']['messages']['Insert'];
+
+/**
+ * An encrypted message that has not reached the server yet
+ */
+export interface OutgoingMessage {
+  row: MessageInsert & { id: string };
+  upload?: { path: string; data: string }; // Base64 attachment ciphertext still to upload
+  message: Message;                        // Sender's plain local copy, never persisted
+}
+
+export interface MessagePage {
+  messages: Message[];        // Oldest first
+  cursor?: MessageCursor;     // Set when older messages remain
+}
+
+/**
+ * Outcome of one attempt to store a message
+ */
+export interface DeliveryResult {
+  createdAt?: string;   // Server timestamp, set once the message is stored
+  errorCode?: string;   // Postgres error code when the database rejected the row
+}
+
+export type MessageReceipt = Pick<Message, 'id' | 'status' | 'deliveredAt' | 'readAt'>;
+
+/**
+ * A message's AES key wrapped for one device, stored in `messages.device_keys`
+ */
+export type DeviceKey = {
+  key: string;                   // Base64 wrapped AES key
+  header?: RatchetHeader;        // Set when a ratchet session wrapped the key, otherwise RSA
+  keyId?: string;                // RSA only: id of the device key pair it was wrapped for
+};
+
+type DecryptedContent = Pick<Message, 'content' | 'attachment'>;
+
+const UNDECRYPTABLE_MESSAGE = '[Encrypted message - unable to decrypt]';
+const MESSAGE_PAGE_SIZE = 30;
+const MAX_RATCHET_DECRYPTIONS = 500;
+
+const GROUP_SELECT = `
+  id,
+  name,
+  avatar,
+  created_by,
+  group_members (
+    user_id,
+    role,
+    users:user_profiles (
+      id,
+      name,
+      avatar,
+      public_key
+    )
+  )
+`;
 
 export class ChatService {
+  // Ratchet decryptions by message id and revision, least recently used first (see decryptRatchetRow)
+  private static ratchetDecryptions = new Map<string, Promise<DecryptedContent>>();
+
   // User operations
   static async getCurrentUser(userId: string): Promise<User | null> {
     const { data, error } = await supabase
@@ -21,46 +99,79 @@ export class ChatService {
       id: data.id,
       name: data.name,
       email: data.email,
+      username: data.username || undefined,
       avatar: data.avatar || undefined,
       bio: data.bio || undefined,
       isOnboarded: data.is_onboarded,
       publicKey: data.public_key || undefined,
+      privacy: {
+        discoverable: data.discoverable,
+        emailVisibility: data.email_visibility,
+        avatarVisibility: data.avatar_visibility,
+      },
     };
   }
 
-  static async getUserByEmail(email: string): Promise<User | null> {
+  /**
+   * Another user's profile, as their privacy settings let the user see it
+   */
+  static async getUserProfile(userId: string): Promise<UserProfile | null> {
     const { data, error } = await supabase
-      .from('users')
-      .select('*')
-      .eq('email', email)
-      .single();
+      .from('user_profiles')
+      .select('id, name, username, email, avatar')
+      .eq('id', userId)
+      .maybeSingle();
 
-    if (error) {
-      console.error('Error fetching user by email:', error);
+    if (error || !data) {
+      console.error('Error fetching user profile:', error);
       return null;
     }
 
     return {
       id: data.id,
       name: data.name,
-      email: data.email,
+      username: data.username || undefined,
+      email: data.email || undefined,
       avatar: data.avatar || undefined,
-      bio: data.bio || undefined,
-      isOnboarded: data.is_onboarded,
-      publicKey: data.public_key || undefined,
     };
   }
 
+  /**
+   * Search the directory by username, name or exact email. Only discoverable
+   * users are listed, with what their privacy settings let the user see.
+   */
+  static async searchUsers(query: string): Promise<UserProfile[]> {
+    const { data, error } = await supabase.rpc('search_users', { query: query.trim() });
+
+    if (error) {
+      console.error('Error searching users:', error);
+      return [];
+    }
+
+    return data.map((row) => ({
+      id: row.id,
+      name: row.name,
+      username: row.username || undefined,
+      email: row.email || undefined,
+      avatar: row.avatar || undefined,
+    }));
+  }
+
   static async updateUser(userId: string, updates: Partial<User>): Promise<void> {
     const { error } = await supabase
       .from('users')
       .update({
         name: updates.name,
         email: updates.email,
+        // An empty username clears it; undefined leaves it as it is
+        username: updates.username === '' ? null : updates.username?.toLowerCase(),
         avatar: updates.avatar,
         bio: updates.bio,
         is_onboarded: updates.isOnboarded,
         public_key: updates.publicKey,
+        discoverable: updates.privacy?.discoverable,
+        email_visibility: updates.privacy?.emailVisibility,
+        avatar_visibility: updates.privacy?.avatarVisibility,
         updated_at: new Date().toISOString(),
       })
       .eq('id', userId);
@@ -71,48 +182,20 @@ export class ChatService {
     }
   }
 
-  static async createUser(user: Omit<User, 'id'>): Promise<User> {
-    const { data, error } = await supabase
-      .from('users')
-      .insert({
-        name: user.name,
-        email: user.email,
-        avatar: user.avatar,
-        bio: user.bio,
-        is_onboarded: user.isOnboarded,
-        public_key: user.publicKey,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating user:', error);
-      throw error;
-    }
-
-    return {
-      id: data.id,
-      name: data.name,
-      email: data.email,
-      avatar: data.avatar || undefined,
-      bio: data.bio || undefined,
-      isOnboarded: data.is_onboarded,
-      publicKey: data.public_key || undefined,
-    };
-  }
-
   // Contact operations
   static async getContacts(userId: string): Promise<Contact[]> {
     const { data, error } = await supabase
       .from('contacts')
       .select(`
         contact_user_id,
-        users!contacts_contact_user_id_fkey (
+        users:user_profiles!contacts_contact_user_id_fkey (
           id,
           name,
+          username,
           email,
           avatar,
-          public_key
+          public_key,
+          last_seen_at
         )
       `)
       .eq('user_id', userId);
@@ -125,161 +208,678 @@ export class ChatService {
     return data.map((contact: any) => ({
       id: contact.users.id,
       name: contact.users.name,
-      email: contact.users.email,
+      username: contact.users.username || undefined,
+      email: contact.users.email || undefined,
       avatar: contact.users.avatar || undefined,
-      isOnline: false, // Will be updated via presence
+      lastSeen: contact.users.last_seen_at ? new Date(contact.users.last_seen_at) : undefined,
+      isOnline: false, // Updated live by PresenceService
       publicKey: contact.users.public_key || undefined,
     }));
   }
 
-  static async addContact(userId: string, contactEmail: string): Promise<Contact | null> {
-    // First find the user by email
-    const { data: contactUser, error: findError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('email', contactEmail)
+  /**
+   * Remove a contact from the user's own list; the other user keeps theirs
+   */
+  static async removeContact(userId: string, contactId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('contacts')
+      .delete()
+      .eq('user_id', userId)
+      .eq('contact_user_id', contactId);
+
+    if (error) {
+      console.error('Error removing contact:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Group operations
+  static async getGroups(userId: string): Promise<Group[]> {
+    const { data, error } = await supabase
+      .from('groups')
+      .select(GROUP_SELECT);
+
+    if (error) {
+      console.error('Error fetching groups:', error);
+      return [];
+    }
+
+    return data
+      .map((group: any) => this.toGroup(group))
+      .filter((group) => group.members.some((member) => member.userId === userId));
+  }
+
+  static async getGroup(groupId: string): Promise<Group | null> {
+    const { data, error } = await supabase
+      .from('groups')
+      .select(GROUP_SELECT)
+      .eq('id', groupId)
       .single();
 
-    if (findError || !contactUser) {
-      console.error('Error finding contact user:', findError);
+    if (error) {
+      console.error('Error fetching group:', error);
       return null;
     }
 
-    // Then create the contact relationship
-    const { error: insertError } = await supabase
-      .from('contacts')
+    return this.toGroup(data);
+  }
+
+  static async createGroup(
+    creatorId: string,
+    name: string,
+    memberIds: string[],
+    avatar?: string
+  ): Promise<Group | null> {
+    const { data: group, error: groupError } = await supabase
+      .from('groups')
       .insert({
-        user_id: userId,
-        contact_user_id: contactUser.id,
-      });
+        name,
+        avatar,
+        created_by: creatorId,
+      })
+      .select()
+      .single();
+
+    if (groupError || !group) {
+      console.error('Error creating group:', groupError);
+      return null;
+    }
+
+    // The creator is the group's first admin
+    const { error: membersError } = await supabase.from('group_members').insert([
+      { group_id: group.id, user_id: creatorId, role: 'admin' },
+      ...memberIds
+        .filter((memberId) => memberId !== creatorId)
+        .map((memberId) => ({ group_id: group.id, user_id: memberId, role: 'member' })),
+    ]);
 
-    if (insertError) {
-      console.error('Error adding contact:', insertError);
+    if (membersError) {
+      console.error('Error adding group members:', membersError);
       return null;
     }
 
+    return await this.getGroup(group.id);
+  }
+
+  static async addGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const { error } = await supabase.from('group_members').insert({
+      group_id: groupId,
+      user_id: userId,
+      role: 'member',
+    });
+
+    if (error) {
+      console.error('Error adding group member:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Remove a member from a group (or leave it, when userId is the caller)
+   */
+  static async removeGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('group_members')
+      .delete()
+      .eq('group_id', groupId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error removing group member:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  private static toGroup(group: any): Group {
     return {
-      id: contactUser.id,
-      name: contactUser.name,
-      email: contactUser.email,
-      avatar: contactUser.avatar || undefined,
-      isOnline: false,
-      publicKey: contactUser.public_key || undefined,
+      id: group.id,
+      name: group.name,
+      avatar: group.avatar || undefined,
+      createdBy: group.created_by,
+      members: (group.group_members || []).map((member: any) => ({
+        userId: member.user_id,
+        name: member.users.name,
+        avatar: member.users.avatar || undefined,
+        publicKey: member.users.public_key || undefined,
+        role: member.role,
+      })),
     };
   }
 
   // Message operations
-  static async getMessages(userId: string, contactId: string): Promise<Message[]> {
-    const { data, error } = await supabase
+
+  /**
+   * Fetch one page of a direct conversation, newest first, keyed on created_at/id
+   * @param before - Cursor of the oldest message already loaded
+   */
+  static async getMessages(
+    userId: string,
+    contactId: string,
+    before?: MessageCursor
+  ): Promise<MessagePage> {
+    let query = supabase
       .from('messages')
       .select('*')
       .or(
         `and(sender_id.eq.${userId},receiver_id.eq.${contactId}),and(sender_id.eq.${contactId},receiver_id.eq.${userId})`
-      )
-      .order('created_at', { ascending: true });
+      );
+    if (before) {
+      query = query.or(this.getCursorFilter(before));
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE + 1);
 
     if (error) {
       console.error('Error fetching messages:', error);
-      return [];
+      return { messages: [] };
     }
 
-    // Decrypt messages
-    const decryptedMessages = await Promise.all(
-      data.map(async (msg) => {
-        let decryptedContent = msg.content;
-
-        // Only decrypt if the message is encrypted (has encrypted_key and iv)
-        if (msg.encrypted_key && msg.iv && msg.receiver_id === userId) {
-          try {
-            decryptedContent = await EncryptionService.decryptMessage({
-              encryptedContent: msg.content,
-              encryptedKey: msg.encrypted_key,
-              iv: msg.iv,
-            });
-          } catch (error) {
-            console.error('Error decrypting message:', error);
-            decryptedContent = '[Encrypted message - unable to decrypt]';
-          }
-        }
+    return await this.toPage(data, userId);
+  }
 
-        return {
-          id: msg.id,
-          senderId: msg.sender_id,
-          receiverId: msg.receiver_id,
-          content: decryptedContent,
-          timestamp: new Date(msg.created_at),
-          isRead: msg.is_read,
-        };
-      })
-    );
+  static async getGroupMessages(
+    userId: string,
+    groupId: string,
+    before?: MessageCursor
+  ): Promise<MessagePage> {
+    let query = supabase.from('messages').select('*').eq('group_id', groupId);
+    if (before) {
+      query = query.or(this.getCursorFilter(before));
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE + 1);
+
+    if (error) {
+      console.error('Error fetching group messages:', error);
+      return { messages: [] };
+    }
 
-    return decryptedMessages;
+    return await this.toPage(data, userId);
   }
 
-  static async sendMessage(
-    message: Omit<Message, 'id' | 'timestamp'>,
-    recipientPublicKey?: string
-  ): Promise<Message | null> {
+  /**
+   * Every message visible to the user that was created after `since`, oldest
+   * first. RLS limits the rows to the user's direct chats and groups.
+   */
+  static async getMessagesSince(userId: string, since: string): Promise<Message[]> {
+    const rows: any[] = [];
+
+    while (true) {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .gt('created_at', since)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(rows.length, rows.length + MESSAGE_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching new messages:', error);
+        break;
+      }
+
+      rows.push(...data);
+      if (data.length < MESSAGE_PAGE_SIZE) break;
+    }
+
+    return await Promise.all(rows.map((msg) => this.toMessage(msg, userId)));
+  }
+
+  /**
+   * Messages created up to `since` that were edited or deleted after it, so
+   * cached copies catch up with changes made while this device was offline
+   */
+  static async getRevisionsSince(userId: string, since: string): Promise<Message[]> {
+    const rows: any[] = [];
+
+    while (true) {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .lte('created_at', since)
+        .or(`edited_at.gt."${since}",deleted_at.gt."${since}"`)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(rows.length, rows.length + MESSAGE_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching message revisions:', error);
+        break;
+      }
+
+      rows.push(...data);
+      if (data.length < MESSAGE_PAGE_SIZE) break;
+    }
+
+    return await Promise.all(rows.map((msg) => this.toMessage(msg, userId)));
+  }
+
+  static async getMessage(userId: string, messageId: string): Promise<Message | null> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('Error fetching message:', error);
+      return null;
+    }
+
+    return await this.toMessage(data, userId);
+  }
+
+  /**
+   * Decrypt a message row that arrived outside of a query, e.g. in a push
+   * notification (see PushService)
+   */
+  static async readMessageRow(msg: any, userId: string): Promise<Message> {
+    return await this.toMessage(msg, userId);
+  }
+
+  /**
+   * Rows strictly older than the cursor (ties on created_at are broken by id)
+   */
+  private static getCursorFilter(before: MessageCursor): string {
+    return `created_at.lt."${before.createdAt}",and(created_at.eq."${before.createdAt}",id.lt.${before.id})`;
+  }
+
+  /**
+   * Decrypt a newest-first page of rows into chronological order. Only this
+   * page is decrypted; older history waits until it is scrolled to.
+   */
+  private static async toPage(rows: any[], userId: string): Promise<MessagePage> {
+    const pageRows = rows.slice(0, MESSAGE_PAGE_SIZE).reverse();
+    const oldest = pageRows[0];
+
+    return {
+      messages: await Promise.all(pageRows.map((msg) => this.toMessage(msg, userId))),
+      cursor:
+        rows.length > MESSAGE_PAGE_SIZE ? { createdAt: oldest.created_at, id: oldest.id } : undefined,
+    };
+  }
+
+  /**
+   * Encrypt a direct message into the row that will be inserted. Nothing is
+   * sent yet - deliverMessage() (usually via the outbox) does that.
+   */
+  static async prepareMessage(
+    message: NewMessage,
+    id: string,
+    recipientPublicKey?: string,
+    upload?: AttachmentUpload
+  ): Promise<OutgoingMessage | null> {
     // Encrypt the message if recipient has a public key
     let encryptedContent = message.content;
     let encryptedKey = '';
+    let keyId: string | null = null;
+    let senderEncryptedKey: string | null = null;
+    let senderKeyId: string | null = null;
+    let deviceKeys: Record<string, DeviceKey> | null = null;
     let iv = '';
+    let attachmentRecord: AttachmentRecord | null = null;
+    let attachment: Attachment | undefined;
+    let pendingUpload: OutgoingMessage['upload'];
 
     if (recipientPublicKey) {
       try {
-        const encrypted = await EncryptionService.encryptMessage(
+        const prepared = upload
+          ? await AttachmentService.prepare(message.senderId, id, upload)
+          : undefined;
+        const encrypted = await EncryptionService.encryptContent(
           message.content,
-          recipientPublicKey
+          prepared?.input
         );
         encryptedContent = encrypted.encryptedContent;
-        encryptedKey = encrypted.encryptedKey;
         iv = encrypted.iv;
+
+        const devices = message.receiverId
+          ? await DeviceService.getDevices([message.receiverId, message.senderId])
+          : [];
+        if (devices.some((device) => device.userId === message.receiverId)) {
+          deviceKeys = await this.wrapForDevices(
+            message.senderId,
+            encrypted.aesKeyData,
+            devices,
+            true
+          );
+        } else {
+          console.warn('Recipient has no registered devices - wrapping for their account key');
+          const senderPublicKey = await EncryptionService.getPublicKey();
+          encryptedKey = await EncryptionService.wrapKey(encrypted.aesKeyData, recipientPublicKey);
+          keyId = EncryptionService.getKeyId(recipientPublicKey);
+          if (senderPublicKey) {
+            senderEncryptedKey = await EncryptionService.wrapKey(encrypted.aesKeyData, senderPublicKey);
+            senderKeyId = EncryptionService.getKeyId(senderPublicKey);
+          }
+        }
+
+        if (upload && prepared && encrypted.encryptedAttachment) {
+          const described = AttachmentService.toRecord(
+            prepared,
+            upload,
+            encrypted.encryptedAttachment
+          );
+          attachmentRecord = described.record;
+          attachment = described.attachment;
+          pendingUpload = {
+            path: prepared.path,
+            data: EncryptionService.arrayBufferToBase64(encrypted.encryptedAttachment.data),
+          };
+        }
       } catch (error) {
         console.error('Error encrypting message:', error);
-        // Fall back to sending unencrypted if encryption fails
         return null;
       }
+    } else if (upload) {
+      console.error('Attachments cannot be sent without encryption');
+      return null;
     } else {
       // No encryption - this shouldn't happen in production
       console.warn('Sending unencrypted message - recipient has no public key');
     }
 
-    const { data, error } = await supabase
-      .from('messages')
-      .insert({
+    return {
+      row: {
+        id,
         sender_id: message.senderId,
         receiver_id: message.receiverId,
         content: encryptedContent,
         encrypted_key: encryptedKey,
+        key_id: keyId,
+        sender_encrypted_key: senderEncryptedKey,
+        sender_key_id: senderKeyId,
+        device_keys: deviceKeys,
+        sender_device_id: await DeviceService.getDeviceId(),
         iv: iv,
-        is_read: message.isRead,
+        attachment: attachmentRecord,
+        reply_to_id: message.replyToId ?? null,
+      },
+      upload: pendingUpload,
+      message: {
+        ...message,
+        id,
+        attachment,
+        timestamp: new Date(),
+        status: 'sending',
+      },
+    };
+  }
+
+  /**
+   * Encrypt a group message, wrapping its AES key for every member's devices
+   * @param memberPublicKeys - Map of member user id to public key, including the
+   *   sender; used for members without registered devices
+   */
+  static async prepareGroupMessage(
+    message: NewMessage,
+    id: string,
+    memberPublicKeys: Record<string, string>,
+    upload?: AttachmentUpload
+  ): Promise<OutgoingMessage | null> {
+    if (!message.groupId) {
+      console.error('Group message is missing a group id');
+      return null;
+    }
+
+    let encrypted;
+    let deviceKeys: Record<string, DeviceKey>;
+    const encryptedKeys: Record<string, string> = {};
+    let attachmentRecord: AttachmentRecord | null = null;
+    let attachment: Attachment | undefined;
+    let pendingUpload: OutgoingMessage['upload'];
+    try {
+      const prepared = upload
+        ? await AttachmentService.prepare(message.senderId, id, upload)
+        : undefined;
+      encrypted = await EncryptionService.encryptContent(message.content, prepared?.input);
+
+      // Groups use RSA only, including a copy for the sending device
+      const devices = await DeviceService.getDevices(Object.keys(memberPublicKeys));
+      deviceKeys = await this.wrapForDevices(
+        message.senderId,
+        encrypted.aesKeyData,
+        devices,
+        false
+      );
+      for (const [userId, publicKey] of Object.entries(memberPublicKeys)) {
+        if (!devices.some((device) => device.userId === userId)) {
+          encryptedKeys[userId] = await EncryptionService.wrapKey(encrypted.aesKeyData, publicKey);
+        }
+      }
+
+      if (upload && prepared && encrypted.encryptedAttachment) {
+        const described = AttachmentService.toRecord(
+          prepared,
+          upload,
+          encrypted.encryptedAttachment
+        );
+        attachmentRecord = described.record;
+        attachment = described.attachment;
+        pendingUpload = {
+          path: prepared.path,
+          data: EncryptionService.arrayBufferToBase64(encrypted.encryptedAttachment.data),
+        };
+      }
+    } catch (error) {
+      console.error('Error encrypting group message:', error);
+      return null;
+    }
+
+    return {
+      row: {
+        id,
+        sender_id: message.senderId,
+        group_id: message.groupId,
+        content: encrypted.encryptedContent,
+        encrypted_key: '',
+        encrypted_keys: encryptedKeys,
+        device_keys: deviceKeys,
+        sender_device_id: await DeviceService.getDeviceId(),
+        iv: encrypted.iv,
+        attachment: attachmentRecord,
+        reply_to_id: message.replyToId ?? null,
+      },
+      upload: pendingUpload,
+      message: {
+        ...message,
+        id,
+        attachment,
+        timestamp: new Date(),
+        status: 'sending',
+      },
+    };
+  }
+
+  /**
+   * Wrap a message key for each device
+   * @param forwardSecret - Use ratchet sessions where devices have prekeys, and
+   *   skip the sending device (its plain copy lives in the local cache)
+   */
+  private static async wrapForDevices(
+    userId: string,
+    aesKeyData: ArrayBuffer,
+    devices: Device[],
+    forwardSecret: boolean
+  ): Promise<Record<string, DeviceKey>> {
+    const currentDeviceId = await DeviceService.getDeviceId();
+    const deviceKeys: Record<string, DeviceKey> = {};
+
+    for (const device of devices) {
+      if (forwardSecret && device.id === currentDeviceId) continue;
+
+      const session = forwardSecret
+        ? await RatchetService.encrypt(userId, device.id, aesKeyData)
+        : null;
+      deviceKeys[device.id] = session
+        ? { key: session.ciphertext, header: session.header }
+        : {
+            key: await EncryptionService.wrapKey(aesKeyData, device.publicKey),
+            keyId: EncryptionService.getKeyId(device.publicKey),
+          };
+    }
+
+    return deviceKeys;
+  }
+
+  /**
+   * Upload any attachment ciphertext, then insert the message row. The row id
+   * is generated on the client, so repeating this after a timeout or crash
+   * can never create a second copy.
+   * @returns The server's created_at once the message is stored, otherwise the
+   *   error code if the database rejected it (none for network failures)
+   */
+  static async deliverMessage(
+    outgoing: Pick<OutgoingMessage, 'row' | 'upload'>
+  ): Promise<DeliveryResult> {
+    try {
+      if (outgoing.upload) {
+        await AttachmentService.upload(
+          outgoing.upload.path,
+          EncryptionService.base64ToArrayBuffer(outgoing.upload.data)
+        );
+      }
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      return {};
+    }
+
+    const { data, error } = await supabase
+      .from('messages')
+      .insert(outgoing.row)
+      .select('created_at')
+      .single();
+
+    if (!error) return { createdAt: data.created_at };
+
+    // 23505: an earlier attempt already inserted this id. The server has the
+    // message, so it is retried until its timestamp can be read, never dropped.
+    if (error.code === '23505') {
+      const { data: existing, error: selectError } = await supabase
+        .from('messages')
+        .select('created_at')
+        .eq('id', outgoing.row.id)
+        .maybeSingle();
+      if (existing) return { createdAt: existing.created_at };
+
+      console.error('Error reading sent message:', selectError);
+      return {};
+    }
+
+    console.error('Error sending message:', error);
+    return { errorCode: error.code || undefined };
+  }
+
+  /**
+   * Replace a sent message's content with a newly encrypted revision. The
+   * new content has its own AES key, wrapped for every device again.
+   * @param outgoing - prepareMessage() or prepareGroupMessage() output for the
+   *   new content, with the id of the message being edited
+   * @returns The server's edited_at, or null if the message was not changed
+   */
+  static async editMessage(outgoing: Pick<OutgoingMessage, 'row'>): Promise<string | null> {
+    const { row } = outgoing;
+    const { data, error } = await supabase
+      .from('messages')
+      .update({
+        content: row.content,
+        encrypted_key: row.encrypted_key,
+        key_id: row.key_id,
+        sender_encrypted_key: row.sender_encrypted_key,
+        sender_key_id: row.sender_key_id,
+        encrypted_keys: row.encrypted_keys,
+        device_keys: row.device_keys,
+        sender_device_id: row.sender_device_id,
+        iv: row.iv,
       })
-      .select()
+      .eq('id', row.id)
+      .select('edited_at')
       .single();
 
     if (error) {
-      console.error('Error sending message:', error);
+      console.error('Error editing message:', error);
       return null;
     }
 
-    // Return the message with decrypted content (for local display)
-    return {
-      id: data.id,
-      senderId: data.sender_id,
-      receiverId: data.receiver_id,
-      content: message.content, // Return original unencrypted content
-      timestamp: new Date(data.created_at),
-      isRead: data.is_read,
-    };
+    return data.edited_at;
+  }
+
+  /**
+   * Delete a sent message for everyone. The server wipes its ciphertext and
+   * keeps a tombstone; the attachment file is removed from storage too.
+   * @returns The server's deleted_at, or null if the message was not deleted
+   */
+  static async deleteMessage(message: Message): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('messages')
+      .update({
+        deleted_at: new Date().toISOString(),
+        // Lets the user's other devices tell this change apart from their own
+        sender_device_id: await DeviceService.getDeviceId(),
+      })
+      .eq('id', message.id)
+      .select('deleted_at')
+      .single();
+
+    if (error) {
+      console.error('Error deleting message:', error);
+      return null;
+    }
+
+    if (message.attachment) {
+      try {
+        await AttachmentService.remove(message.attachment.path);
+      } catch (error) {
+        console.error('Error removing attachment:', error);
+      }
+    }
+
+    return data.deleted_at;
+  }
+
+  /**
+   * Acknowledge that direct messages reached this device
+   * @param messageIds - Limit the receipt to these messages, otherwise every undelivered one
+   */
+  static async markMessagesAsDelivered(userId: string, messageIds?: string[]): Promise<void> {
+    let query = supabase
+      .from('messages')
+      .update({ delivered_at: new Date().toISOString() })
+      .eq('receiver_id', userId)
+      .is('delivered_at', null);
+
+    if (messageIds) {
+      if (messageIds.length === 0) return;
+      query = query.in('id', messageIds);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      console.error('Error marking messages as delivered:', error);
+    }
   }
 
   static async markMessagesAsRead(userId: string, contactId: string): Promise<void> {
+    // delivered_at is back-filled by the set_messages_receipts trigger
     const { error } = await supabase
       .from('messages')
-      .update({ is_read: true, updated_at: new Date().toISOString() })
+      .update({ read_at: new Date().toISOString() })
       .eq('sender_id', contactId)
       .eq('receiver_id', userId)
-      .eq('is_read', false);
+      .is('read_at', null);
 
     if (error) {
       console.error('Error marking messages as read:', error);
@@ -302,31 +902,38 @@ export class ChatService {
           filter: `receiver_id=eq.${userId}`,
         },
         async (payload) => {
+          onMessage(await this.toMessage(payload.new, userId));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `sender_id=eq.${userId}`,
+        },
+        async (payload) => {
+          // Direct messages sent from the user's other devices
           const msg = payload.new as any;
-          let decryptedContent = msg.content;
-
-          // Decrypt the message if it's encrypted
-          if (msg.encrypted_key && msg.iv) {
-            try {
-              decryptedContent = await EncryptionService.decryptMessage({
-                encryptedContent: msg.content,
-                encryptedKey: msg.encrypted_key,
-                iv: msg.iv,
-              });
-            } catch (error) {
-              console.error('Error decrypting real-time message:', error);
-              decryptedContent = '[Encrypted message - unable to decrypt]';
-            }
-          }
+          if (msg.group_id || (await this.isFromThisDevice(msg, userId))) return;
+
+          onMessage(await this.toMessage(msg, userId));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+        },
+        async (payload) => {
+          // RLS limits these rows to groups the user belongs to
+          const msg = payload.new as any;
+          if (!msg.group_id || (await this.isFromThisDevice(msg, userId))) return;
 
-          onMessage({
-            id: msg.id,
-            senderId: msg.sender_id,
-            receiverId: msg.receiver_id,
-            content: decryptedContent,
-            timestamp: new Date(msg.created_at),
-            isRead: msg.is_read,
-          });
+          onMessage(await this.toMessage(msg, userId));
         }
       )
       .subscribe();
@@ -334,7 +941,306 @@ export class ChatService {
     return channel;
   }
 
+  /**
+   * Listen for delivery and read receipts on messages this user sent
+   */
+  static subscribeToMessageReceipts(
+    userId: string,
+    onReceipt: (receipt: MessageReceipt) => void
+  ): RealtimeChannel {
+    return supabase
+      .channel('message_receipts')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `sender_id=eq.${userId}`,
+        },
+        (payload) => {
+          onReceipt(this.toReceipt(payload.new));
+        }
+      )
+      .subscribe();
+  }
+
+  /**
+   * Listen for messages being edited or deleted for everyone in the user's
+   * direct chats and groups. Changes made on this device are already applied.
+   */
+  static subscribeToMessageRevisions(
+    userId: string,
+    onRevision: (message: Message) => void
+  ): RealtimeChannel {
+    const handleUpdate = async (msg: any) => {
+      // Receipts update rows too; only revised ones matter here
+      if ((!msg.edited_at && !msg.deleted_at) || (await this.isFromThisDevice(msg, userId))) {
+        return;
+      }
+
+      onRevision(await this.toMessage(msg, userId));
+    };
+
+    return supabase
+      .channel('message_revisions')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `receiver_id=eq.${userId}`,
+        },
+        (payload) => handleUpdate(payload.new)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `sender_id=eq.${userId}`,
+        },
+        (payload) => handleUpdate(payload.new)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+        },
+        (payload) => {
+          // RLS limits these rows to groups the user belongs to
+          const msg = payload.new as any;
+          if (!msg.group_id || msg.sender_id === userId) return;
+
+          handleUpdate(msg);
+        }
+      )
+      .subscribe();
+  }
+
   static unsubscribeFromMessages(channel: RealtimeChannel): void {
     supabase.removeChannel(channel);
   }
+
+  /**
+   * Listen for the user being added to a group by someone else
+   */
+  static subscribeToGroupMemberships(
+    userId: string,
+    onJoined: (groupId: string) => void
+  ): RealtimeChannel {
+    return supabase
+      .channel('group_memberships')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'group_members',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          onJoined((payload.new as any).group_id);
+        }
+      )
+      .subscribe();
+  }
+
+  /**
+   * Messages sent from this device are already shown from the outbox
+   */
+  private static async isFromThisDevice(msg: any, userId: string): Promise<boolean> {
+    if (msg.sender_id !== userId) return false;
+    // Rows without a device id predate multi-device support
+    return !msg.sender_device_id || msg.sender_device_id === (await DeviceService.getDeviceId());
+  }
+
+  private static async toMessage(msg: any, userId: string): Promise<Message> {
+    // Nothing is left to decrypt once a message is deleted for everyone
+    const { content, attachment }: DecryptedContent = msg.deleted_at
+      ? { content: '' }
+      : await this.decryptRow(msg, userId);
+
+    return {
+      ...this.toReceipt(msg),
+      senderId: msg.sender_id,
+      receiverId: msg.receiver_id || undefined,
+      groupId: msg.group_id || undefined,
+      content,
+      attachment,
+      replyToId: msg.reply_to_id || undefined,
+      timestamp: new Date(msg.created_at),
+      editedAt: msg.edited_at ? new Date(msg.edited_at) : undefined,
+      deletedAt: msg.deleted_at ? new Date(msg.deleted_at) : undefined,
+    };
+  }
+
+  private static toReceipt(msg: any): MessageReceipt {
+    let status: MessageStatus = 'sent';
+    if (msg.read_at) {
+      status = 'read';
+    } else if (msg.delivered_at) {
+      status = 'delivered';
+    }
+
+    return {
+      id: msg.id,
+      status,
+      deliveredAt: msg.delivered_at ? new Date(msg.delivered_at) : undefined,
+      readAt: msg.read_at ? new Date(msg.read_at) : undefined,
+    };
+  }
+
+  /**
+   * Decrypt a message row with whichever AES key copy belongs to this user
+   */
+  private static async decryptRow(msg: any, userId: string): Promise<DecryptedContent> {
+    // Only decrypt if the message is encrypted (has a wrapped key and iv)
+    if (!msg.iv || (!msg.group_id && !msg.encrypted_key && !msg.device_keys)) {
+      return { content: msg.content };
+    }
+
+    if (msg.device_keys) {
+      return await this.decryptDeviceRow(msg, userId);
+    }
+
+    let encryptedKey: string | undefined;
+    let keyId: string | undefined;
+    if (msg.group_id) {
+      encryptedKey = msg.encrypted_keys?.[userId];
+    } else if (msg.sender_id === userId) {
+      encryptedKey = msg.sender_encrypted_key || undefined;
+      keyId = msg.sender_key_id || undefined;
+    } else {
+      encryptedKey = msg.encrypted_key;
+      keyId = msg.key_id || undefined;
+    }
+
+    if (!encryptedKey) {
+      // Sent before sender key wrapping existed, or before this user joined the group
+      return { content: UNDECRYPTABLE_MESSAGE };
+    }
+
+    try {
+      const key = await EncryptionService.unwrapMessageKey({
+        encryptedContent: msg.content,
+        encryptedKey,
+        keyId,
+        iv: msg.iv,
+      });
+      return await this.decryptWithMessageKey(msg, key);
+    } catch (error) {
+      console.error('Error decrypting message:', error);
+      return { content: UNDECRYPTABLE_MESSAGE };
+    }
+  }
+
+  /**
+   * Decrypt with the key copy for this device, or with any RSA copy wrapped
+   * for a key this device holds: keys handed over when it was linked, or
+   * restored from a backup made under another device id
+   */
+  private static async decryptDeviceRow(msg: any, userId: string): Promise<DecryptedContent> {
+    const deviceId = await DeviceService.getDeviceId();
+    const deviceKeys: Record<string, DeviceKey> = msg.device_keys;
+    const deviceKey = deviceKeys[deviceId];
+
+    if (deviceKey?.header || (!msg.group_id && msg.sender_device_id === deviceId)) {
+      return await this.decryptRatchetRow(msg, userId, deviceKey);
+    }
+
+    const [linkedKeys, keyIds] = await Promise.all([
+      EncryptionService.getLinkedPrivateKeys(),
+      EncryptionService.getPrivateKeyIds(),
+    ]);
+    const rsaKey =
+      deviceKey ??
+      Object.entries(deviceKeys).find(
+        ([id, key]) => !key.header && ((key.keyId && keyIds.has(key.keyId)) || id in linkedKeys)
+      )?.[1];
+    if (!rsaKey) {
+      // Sent before this device was registered, or forward secret for another device
+      return { content: UNDECRYPTABLE_MESSAGE };
+    }
+
+    try {
+      const key = await EncryptionService.unwrapMessageKey({
+        encryptedContent: msg.content,
+        encryptedKey: rsaKey.key,
+        keyId: rsaKey.keyId,
+        iv: msg.iv,
+      });
+      return await this.decryptWithMessageKey(msg, key);
+    } catch (error) {
+      console.error('Error decrypting message:', error);
+      return { content: UNDECRYPTABLE_MESSAGE };
+    }
+  }
+
+  /**
+   * Ratchet message keys can only be derived once. Rows decrypted before are
+   * read back from the local cache, and concurrent fetches of the same row
+   * share a single decryption. An edit wraps a new key with a new ratchet
+   * step, so every revision of a message is decrypted once.
+   */
+  private static decryptRatchetRow(
+    msg: any,
+    userId: string,
+    deviceKey?: DeviceKey
+  ): Promise<DecryptedContent> {
+    const revision = `${msg.id}:${msg.edited_at ?? ''}`;
+    const existing = this.ratchetDecryptions.get(revision);
+    if (existing) {
+      this.ratchetDecryptions.delete(revision);
+      this.ratchetDecryptions.set(revision, existing);
+      return existing;
+    }
+
+    const decryption = (async (): Promise<DecryptedContent> => {
+      const cached = await MessageCacheService.getMessage(userId, msg.id);
+      const editedAt = msg.edited_at ? new Date(msg.edited_at).getTime() : undefined;
+      if (cached && cached.editedAt?.getTime() === editedAt) {
+        return { content: cached.content, attachment: cached.attachment };
+      }
+
+      if (!deviceKey?.header) {
+        // Direct messages carry no copy for the sending device; only its cache has it
+        return { content: UNDECRYPTABLE_MESSAGE };
+      }
+
+      try {
+        const keyData = await RatchetService.decrypt(
+          userId,
+          msg.sender_device_id,
+          deviceKey.header,
+          deviceKey.key
+        );
+        return await this.decryptWithMessageKey(msg, EncryptionService.arrayBufferToBase64(keyData));
+      } catch (error) {
+        console.error('Error decrypting ratchet message:', error);
+        this.ratchetDecryptions.delete(revision);
+        return { content: UNDECRYPTABLE_MESSAGE };
+      }
+    })();
+
+    this.ratchetDecryptions.set(revision, decryption);
+    // Older revisions have long been saved to the message cache, which is read first
+    if (this.ratchetDecryptions.size > MAX_RATCHET_DECRYPTIONS) {
+      this.ratchetDecryptions.delete(this.ratchetDecryptions.keys().next().value!);
+    }
+    return decryption;
+  }
+
+  private static async decryptWithMessageKey(msg: any, key: string): Promise<DecryptedContent> {
+    const contentBuffer = await EncryptionService.decryptWithKey(key, msg.content, msg.iv);
+    const attachment = msg.attachment
+      ? await AttachmentService.fromRecord(msg.attachment, key)
+      : undefined;
+
+    return { content: new TextDecoder().decode(contentBuffer), attachment };
+  }
 }
@@ -0,0 +1,172 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { ContactRequest } from '../types/chat';
+
+const NOTE_MAX_LENGTH = 280;
+
+const REQUEST_SELECT = `
+  *,
+  sender:user_profiles!contact_requests_sender_id_fkey (id, name, username, email, avatar),
+  recipient:user_profiles!contact_requests_recipient_id_fkey (id, name, username, email, avatar)
+`;
+
+/**
+ * Contact requests
+ *
+ * Flow:
+ * 1. Adding someone sends them a pending request with an optional note;
+ *    nobody becomes a contact without agreeing to it
+ * 2. The recipient accepts or declines it, or the sender cancels it
+ * 3. Accepting creates the contacts rows on both sides in the database
+ *    (accept_contact_request trigger), so both users get the conversation
+ * 4. Realtime events tell the recipient about new requests and the sender
+ *    about responses
+ */
+export class ContactRequestService {
+  /**
+   * Pending requests the user sent or received, newest first
+   */
+  static async getPendingRequests(userId: string): Promise<ContactRequest[]> {
+    const { data, error } = await supabase
+      .from('contact_requests')
+      .select(REQUEST_SELECT)
+      .eq('status', 'pending')
+      .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching contact requests:', error);
+      return [];
+    }
+
+    return data.map((row) => this.toRequest(row, userId));
+  }
+
+  static async getRequest(requestId: string, userId: string): Promise<ContactRequest | null> {
+    const { data, error } = await supabase
+      .from('contact_requests')
+      .select(REQUEST_SELECT)
+      .eq('id', requestId)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('Error fetching contact request:', error);
+      return null;
+    }
+
+    return this.toRequest(data, userId);
+  }
+
+  static async sendRequest(
+    userId: string,
+    recipientId: string,
+    note?: string
+  ): Promise<ContactRequest | null> {
+    const { data, error } = await supabase
+      .from('contact_requests')
+      .insert({
+        sender_id: userId,
+        recipient_id: recipientId,
+        note: note?.trim().slice(0, NOTE_MAX_LENGTH) || null,
+      })
+      .select(REQUEST_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error sending contact request:', error);
+      return null;
+    }
+
+    return this.toRequest(data, userId);
+  }
+
+  static async acceptRequest(requestId: string): Promise<boolean> {
+    return await this.respond(requestId, 'accepted');
+  }
+
+  static async declineRequest(requestId: string): Promise<boolean> {
+    return await this.respond(requestId, 'declined');
+  }
+
+  static async cancelRequest(requestId: string): Promise<boolean> {
+    return await this.respond(requestId, 'cancelled');
+  }
+
+  /**
+   * Listen for requests sent to the user and for changes to any of their
+   * requests (responses, or the user acting on another device)
+   * @param onChange - Called with the request id; fetch it for the current state
+   */
+  static subscribeToRequests(
+    userId: string,
+    onChange: (requestId: string) => void
+  ): RealtimeChannel {
+    return supabase
+      .channel('contact_requests')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'contact_requests',
+          filter: `recipient_id=eq.${userId}`,
+        },
+        (payload) => {
+          const id = (payload.new as any).id;
+          if (id) onChange(id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'contact_requests',
+          filter: `sender_id=eq.${userId}`,
+        },
+        (payload) => {
+          const id = (payload.new as any).id;
+          if (id) onChange(id);
+        }
+      )
+      .subscribe();
+  }
+
+  private static async respond(
+    requestId: string,
+    status: 'accepted' | 'declined' | 'cancelled'
+  ): Promise<boolean> {
+    const { error } = await supabase
+      .from('contact_requests')
+      .update({ status })
+      .eq('id', requestId)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('Error responding to contact request:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  private static toRequest(row: any, userId: string): ContactRequest {
+    const other = row.sender_id === userId ? row.recipient : row.sender;
+
+    return {
+      id: row.id,
+      senderId: row.sender_id,
+      recipientId: row.recipient_id,
+      note: row.note || undefined,
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      user: {
+        id: other.id,
+        name: other.name,
+        username: other.username || undefined,
+        email: other.email || undefined,
+        avatar: other.avatar || undefined,
+      },
+    };
+  }
+}
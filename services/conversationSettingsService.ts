@@ -0,0 +1,86 @@
+import { supabase } from '../lib/supabase';
+import { ConversationSettings } from '../types/chat';
+
+// "Until I unmute", as a date the database and JavaScript can both store
+export const MUTED_FOREVER = new Date('9999-12-31T23:59:59Z');
+
+export const MUTE_DURATIONS: { label: string; until: () => Date }[] = [
+  { label: '8 hours', until: () => new Date(Date.now() + 8 * 60 * 60 * 1000) },
+  { label: '1 week', until: () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) },
+  { label: 'Until I unmute', until: () => MUTED_FOREVER },
+];
+
+export type ConversationSettingsChanges = Partial<Omit<ConversationSettings, 'conversationId'>>;
+
+/**
+ * Per-user conversation settings: archived, muted and pinned conversations
+ *
+ * Flow:
+ * 1. Settings are rows in conversation_settings keyed by user and
+ *    conversation (group id, or the other user's id for direct chats), so
+ *    they follow the user to every device
+ * 2. Archived conversations move out of the main list, pinned ones to the top
+ * 3. A mute lasts until muted_until; the push-message edge function sends no
+ *    notifications for muted conversations
+ */
+export class ConversationSettingsService {
+  /**
+   * @returns Map of conversation id to the user's settings for it
+   */
+  static async getSettings(userId: string): Promise<Record<string, ConversationSettings>> {
+    const { data, error } = await supabase
+      .from('conversation_settings')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching conversation settings:', error);
+      return {};
+    }
+
+    return Object.fromEntries(
+      data.map((row) => [row.conversation_id, this.toSettings(row)])
+    );
+  }
+
+  /**
+   * Change some of a conversation's settings; undefined clears a setting
+   */
+  static async updateSettings(
+    userId: string,
+    conversationId: string,
+    changes: ConversationSettingsChanges
+  ): Promise<boolean> {
+    const row: Record<string, string | null> = {};
+    if ('archivedAt' in changes) row.archived_at = changes.archivedAt?.toISOString() ?? null;
+    if ('mutedUntil' in changes) row.muted_until = changes.mutedUntil?.toISOString() ?? null;
+    if ('pinnedAt' in changes) row.pinned_at = changes.pinnedAt?.toISOString() ?? null;
+
+    const { error } = await supabase.from('conversation_settings').upsert({
+      user_id: userId,
+      conversation_id: conversationId,
+      ...row,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error('Error updating conversation settings:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  static isMuted(settings?: ConversationSettings): boolean {
+    return !!settings?.mutedUntil && settings.mutedUntil.getTime() > Date.now();
+  }
+
+  private static toSettings(row: any): ConversationSettings {
+    return {
+      conversationId: row.conversation_id,
+      archivedAt: row.archived_at ? new Date(row.archived_at) : undefined,
+      mutedUntil: row.muted_until ? new Date(row.muted_until) : undefined,
+      pinnedAt: row.pinned_at ? new Date(row.pinned_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,710 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import { supabase } from '../lib/supabase';
+import { Device } from '../types/chat';
+import { EncryptionService } from './encryptionService';
+
+const DEVICE_ID_STORAGE_KEY = 'device_id';
+const DEVICE_LIST_STORAGE_KEY_PREFIX = 'devices:';
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+const LINK_LOOKUP_LENGTH = 4;   // Sent to the server to find the link
+const LINK_SECRET_LENGTH = 12;  // 60 bits, only ever used as the proof key
+const LINK_PROOF_ITERATIONS = 100000;
+const LINK_EXPIRY_MS = 10 * 60 * 1000;
+
+export type DeviceLinkStatus = 'pending' | 'claimed' | 'approved';
+
+export interface DeviceLink {
+  id: string;
+  status: DeviceLinkStatus;
+  deviceId?: string;             // Set once the new device has claimed the link
+  deviceName?: string;
+  publicKey?: string;
+  proof?: string;
+  keyBundle?: KeyBundle;         // Set once the link is approved
+  expiresAt: Date;
+}
+
+export interface KeyHistoryEntry {
+  keyId: string;
+  deviceId?: string;             // Unset once the device is removed
+  publicKey: string;
+  createdAt: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * The approving device's private keys, for the new device only
+ */
+interface KeyBundle {
+  key: string;                   // Base64 AES key wrapped with the new device's public key
+  data: string;                  // Base64 AES-GCM ciphertext of { device id: private key }
+  iv: string;
+}
+
+/**
+ * Devices and device linking
+ *
+ * Flow:
+ * 1. Every device has its own id and RSA key pair; senders wrap each
+ *    message key for every registered device (see ChatService)
+ * 2. The first device of an account registers itself
+ * 3. Further devices must be linked: an existing device shows a code
+ *    (createLink), the new device enters it and claims the link with its
+ *    public key and an HMAC proof (claimLink). Only the code's first part
+ *    reaches the server, to find the link; the secret rest keys the proof
+ *    through PBKDF2, so nothing stored can be brute-forced into the code.
+ * 4. The existing device checks the proof, registers the new device and
+ *    sends it its private keys so older history stays readable (approveLink)
+ * 5. The new device stores those keys (completeLink)
+ * 6. Every key a device registers is recorded in key_history; rotating or
+ *    removing a device revokes its keys there (rotateCurrentDeviceKey)
+ * 7. The database refuses other new devices (check_new_device), except with a
+ *    key the account already had. Starting fresh without a linked device
+ *    removes the lost devices first, so this one becomes the first again.
+ *    Every other device is told when one is added (subscribeToNewDevices).
+ */
+export class DeviceService {
+  private static deviceId: Promise<string> | null = null;
+  // Devices this one approved, which need no warning when they appear
+  private static approvedDeviceIds = new Set<string>();
+
+  /**
+   * This device's id, generated on first use
+   */
+  static getDeviceId(): Promise<string> {
+    if (!this.deviceId) {
+      this.deviceId = (async () => {
+        const stored = await SecureStore.getItemAsync(DEVICE_ID_STORAGE_KEY);
+        if (stored) return stored;
+
+        const id = Crypto.randomUUID();
+        await SecureStore.setItemAsync(DEVICE_ID_STORAGE_KEY, id);
+        return id;
+      })();
+      this.deviceId.catch(() => {
+        this.deviceId = null;
+      });
+    }
+    return this.deviceId;
+  }
+
+  static getDeviceName(): string {
+    switch (Platform.OS) {
+      case 'ios':
+        return 'iOS device';
+      case 'android':
+        return 'Android device';
+      default:
+        return 'Web browser';
+    }
+  }
+
+  /**
+   * Registered devices of some users. Falls back to the last fetched list
+   * when offline, so messages can still be encrypted and queued.
+   */
+  static async getDevices(userIds: string[]): Promise<Device[]> {
+    const { data, error } = await supabase
+      .from('devices')
+      .select('*')
+      .in('user_id', userIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching devices:', error);
+      const cached = await Promise.all(userIds.map((userId) => this.getCachedDevices(userId)));
+      return cached.flat();
+    }
+
+    const devices = data.map((row) => this.toDevice(row));
+    await Promise.all(
+      userIds.map((userId) =>
+        AsyncStorage.setItem(
+          `${DEVICE_LIST_STORAGE_KEY_PREFIX}${userId}`,
+          JSON.stringify(devices.filter((device) => device.userId === userId))
+        )
+      )
+    );
+    return devices;
+  }
+
+  /**
+   * Make sure this device is registered
+   * @param accountPublicKey - users.public_key; the device holding that key
+   *   is the account's original device and may register itself
+   * @returns The device, or null if another device has to link this one first
+   */
+  static async registerCurrentDevice(
+    userId: string,
+    publicKey: string,
+    accountPublicKey?: string
+  ): Promise<Device | null> {
+    const deviceId = await this.getDeviceId();
+    const { data, error } = await supabase.from('devices').select('*').eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching devices:', error);
+      // Offline: trust the last known list
+      const cached = await this.getCachedDevices(userId);
+      return cached.find((device) => device.id === deviceId) ?? null;
+    }
+
+    const existing = data.find((row) => row.id === deviceId);
+    if (existing) {
+      if (existing.public_key === publicKey) return this.toDevice(existing);
+      // A rotation interrupted between the upload and storing the key pair
+      return await this.updateCurrentDeviceKey(userId, deviceId, existing.public_key, publicKey);
+    }
+
+    if (data.length === 0 || publicKey === accountPublicKey) {
+      const device = await this.addCurrentDevice(userId, publicKey);
+      if (device && !accountPublicKey) {
+        // Accounts created before keys were set at signup adopt their first device's key
+        const { error: userError } = await supabase
+          .from('users')
+          .update({ public_key: publicKey })
+          .eq('id', userId)
+          .is('public_key', null);
+        if (userError) {
+          console.error('Error setting account key:', userError);
+        }
+      }
+      return device;
+    }
+    return null;
+  }
+
+  /**
+   * Register this device with a key pair restored from the key backup. The
+   * key is one the account already had, so its key history entry is marked
+   * active again rather than the device being approved as a new one.
+   * @param accountPublicKey - users.public_key, as for registerCurrentDevice
+   * @returns The device, or null if the account never had the key
+   */
+  static async restoreCurrentDevice(
+    userId: string,
+    publicKey: string,
+    accountPublicKey?: string
+  ): Promise<Device | null> {
+    const device = await this.registerCurrentDevice(userId, publicKey, accountPublicKey);
+    if (device) return device;
+
+    const { data, error } = await supabase
+      .from('key_history')
+      .select('key_id')
+      .eq('user_id', userId)
+      .eq('key_id', EncryptionService.getKeyId(publicKey))
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching key history:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    return await this.addCurrentDevice(userId, publicKey);
+  }
+
+  /**
+   * Register this device without approval from another one. The database
+   * only accepts this for the first device or a key the account already had.
+   */
+  static async addCurrentDevice(userId: string, publicKey: string): Promise<Device | null> {
+    const { data, error } = await supabase
+      .from('devices')
+      .insert({
+        id: await this.getDeviceId(),
+        user_id: userId,
+        name: this.getDeviceName(),
+        public_key: publicKey,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error registering device:', error);
+      return null;
+    }
+
+    await this.recordKey(userId, data.id, publicKey);
+    return this.toDevice(data);
+  }
+
+  /**
+   * Replace this device's key pair. The old private key stays on the device,
+   * so history wrapped for it stays readable, while contacts encrypt to the
+   * new key from now on.
+   * @returns The new public key
+   */
+  static async rotateCurrentDeviceKey(userId: string): Promise<string> {
+    const oldPublicKey = await EncryptionService.getPublicKey();
+    if (!oldPublicKey) {
+      throw new Error('Encryption keys not found');
+    }
+
+    // Uploaded first: a key kept only locally would leave this device
+    // registered under a key it no longer uses
+    const { publicKey, privateKey } = await EncryptionService.generateKeyPair();
+    const device = await this.updateCurrentDeviceKey(
+      userId,
+      await this.getDeviceId(),
+      oldPublicKey,
+      publicKey
+    );
+    if (!device) {
+      throw new Error('Failed to upload the new key');
+    }
+
+    await EncryptionService.storeRotatedKeyPair(publicKey, privateKey);
+    return publicKey;
+  }
+
+  /**
+   * Every key the user's devices have registered, newest first
+   */
+  static async getKeyHistory(userId: string): Promise<KeyHistoryEntry[]> {
+    const { data, error } = await supabase
+      .from('key_history')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching key history:', error);
+      return [];
+    }
+
+    return data.map((row) => ({
+      keyId: row.key_id,
+      deviceId: row.device_id || undefined,
+      publicKey: row.public_key,
+      createdAt: new Date(row.created_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+    }));
+  }
+
+  static async removeDevice(deviceId: string): Promise<boolean> {
+    const { error: revokeError } = await supabase
+      .from('key_history')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('device_id', deviceId)
+      .is('revoked_at', null);
+    if (revokeError) {
+      console.error('Error revoking device keys:', revokeError);
+    }
+
+    const { error } = await supabase.from('devices').delete().eq('id', deviceId);
+
+    if (error) {
+      console.error('Error removing device:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Remove every device of the user but this one, e.g. because they are lost
+   * and can't link this one any more
+   */
+  static async removeOtherDevices(userId: string): Promise<boolean> {
+    const deviceId = await this.getDeviceId();
+    const { data, error } = await supabase
+      .from('devices')
+      .select('id')
+      .eq('user_id', userId)
+      .neq('id', deviceId);
+
+    if (error) {
+      console.error('Error fetching devices:', error);
+      return false;
+    }
+
+    const removed = await Promise.all(data.map((row) => this.removeDevice(row.id)));
+    return removed.every(Boolean);
+  }
+
+  /**
+   * Unregister this device and forget its id (e.g., on logout)
+   */
+  static async removeCurrentDevice(userId: string): Promise<void> {
+    await this.removeDevice(await this.getDeviceId());
+    await AsyncStorage.removeItem(`${DEVICE_LIST_STORAGE_KEY_PREFIX}${userId}`);
+    await SecureStore.deleteItemAsync(DEVICE_ID_STORAGE_KEY);
+    this.deviceId = null;
+  }
+
+  /**
+   * Start linking a new device from this one
+   * @returns The link and the code to show; only its lookup part is sent to the server
+   */
+  static async createLink(userId: string): Promise<{ link: DeviceLink; code: string } | null> {
+    // 32 divides 256, so every character is equally likely
+    const code = Array.from(
+      Crypto.getRandomBytes(LINK_LOOKUP_LENGTH + LINK_SECRET_LENGTH),
+      (byte) => LINK_CODE_ALPHABET[byte % LINK_CODE_ALPHABET.length]
+    ).join('');
+
+    const { data, error } = await supabase
+      .from('device_links')
+      .insert({
+        user_id: userId,
+        lookup: this.splitCode(code).lookup,
+        expires_at: new Date(Date.now() + LINK_EXPIRY_MS).toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating device link:', error);
+      return null;
+    }
+
+    return { link: this.toLink(data), code };
+  }
+
+  /**
+   * Claim a link from the new device
+   * @returns null if the code is wrong, expired or already used
+   */
+  static async claimLink(code: string, publicKey: string): Promise<DeviceLink | null> {
+    const { lookup, secret } = this.splitCode(code);
+    if (secret.length !== LINK_SECRET_LENGTH) return null;
+
+    const { data: pending, error: lookupError } = await supabase
+      .from('device_links')
+      .select('id')
+      .eq('lookup', lookup)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (lookupError || !pending) {
+      console.error('Error finding device link:', lookupError);
+      return null;
+    }
+
+    const deviceId = await this.getDeviceId();
+    const { data, error } = await supabase
+      .from('device_links')
+      .update({
+        status: 'claimed',
+        device_id: deviceId,
+        device_name: this.getDeviceName(),
+        public_key: publicKey,
+        proof: await this.getProof(code, pending.id, deviceId, publicKey),
+      })
+      .eq('id', pending.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error claiming device link:', error);
+      return null;
+    }
+
+    return data ? this.toLink(data) : null;
+  }
+
+  /**
+   * Register the device that claimed a link and hand it this device's keys
+   * @throws If the claim was not made with the code shown on this device
+   */
+  static async approveLink(userId: string, link: DeviceLink, code: string): Promise<void> {
+    if (!link.deviceId || !link.publicKey || !link.proof) {
+      throw new Error('Device link has not been claimed');
+    }
+    if (link.proof !== (await this.getProof(code, link.id, link.deviceId, link.publicKey))) {
+      throw new Error('Device link proof does not match the code');
+    }
+
+    const privateKey = await EncryptionService.getPrivateKey();
+    if (!privateKey) {
+      throw new Error('Private key not found');
+    }
+    // Keys this device rotated away from are handed over under their key ids
+    const keys = {
+      ...(await EncryptionService.getLinkedPrivateKeys()),
+      ...(await EncryptionService.getPreviousPrivateKeys()),
+      [await this.getDeviceId()]: privateKey,
+    };
+
+    const bundleKey = await EncryptionService.generateRawKey();
+    const sealed = await EncryptionService.encryptWithRawKey(
+      bundleKey,
+      new TextEncoder().encode(JSON.stringify(keys))
+    );
+    const keyBundle: KeyBundle = {
+      key: await EncryptionService.wrapKey(
+        EncryptionService.base64ToArrayBuffer(bundleKey),
+        link.publicKey
+      ),
+      data: sealed.data,
+      iv: sealed.iv,
+    };
+
+    this.approvedDeviceIds.add(link.deviceId);
+    const { error: deviceError } = await supabase.from('devices').insert({
+      id: link.deviceId,
+      user_id: userId,
+      name: link.deviceName || 'New device',
+      public_key: link.publicKey,
+    });
+    if (deviceError) throw deviceError;
+    await this.recordKey(userId, link.deviceId, link.publicKey);
+
+    const { error } = await supabase
+      .from('device_links')
+      .update({ status: 'approved', key_bundle: { ...keyBundle } })
+      .eq('id', link.id);
+    if (error) throw error;
+  }
+
+  /**
+   * Store the keys from an approved link on the new device
+   */
+  static async completeLink(link: DeviceLink): Promise<void> {
+    if (!link.keyBundle) {
+      throw new Error('Device link has not been approved');
+    }
+
+    const bundleKey = await EncryptionService.unwrapMessageKey({
+      encryptedContent: link.keyBundle.data,
+      encryptedKey: link.keyBundle.key,
+      iv: link.keyBundle.iv,
+    });
+    const keys = await EncryptionService.decryptWithKey(
+      bundleKey,
+      link.keyBundle.data,
+      link.keyBundle.iv
+    );
+    await EncryptionService.storeLinkedPrivateKeys(JSON.parse(new TextDecoder().decode(keys)));
+    await this.cancelLink(link.id);
+  }
+
+  static async getLink(linkId: string): Promise<DeviceLink | null> {
+    const { data, error } = await supabase
+      .from('device_links')
+      .select('*')
+      .eq('id', linkId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching device link:', error);
+      return null;
+    }
+
+    return data ? this.toLink(data) : null;
+  }
+
+  static async cancelLink(linkId: string): Promise<void> {
+    const { error } = await supabase.from('device_links').delete().eq('id', linkId);
+    if (error) {
+      console.error('Error removing device link:', error);
+    }
+  }
+
+  /**
+   * Follow a link as the other device claims or approves it
+   */
+  static subscribeToLink(
+    linkId: string,
+    onChange: (link: DeviceLink) => void
+  ): RealtimeChannel {
+    return supabase
+      .channel(`device_link:${linkId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'device_links',
+          filter: `id=eq.${linkId}`,
+        },
+        (payload) => {
+          onChange(this.toLink(payload.new));
+        }
+      )
+      .subscribe();
+  }
+
+  static unsubscribeFromLink(channel: RealtimeChannel): void {
+    supabase.removeChannel(channel);
+  }
+
+  /**
+   * Devices added to the user's account from elsewhere, so the user can
+   * remove one they don't recognize
+   */
+  static subscribeToNewDevices(
+    userId: string,
+    onAdded: (device: Device) => void
+  ): RealtimeChannel {
+    return supabase
+      .channel(`devices:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'devices',
+          filter: `user_id=eq.${userId}`,
+        },
+        async (payload) => {
+          const device = this.toDevice(payload.new);
+          if (device.id === (await this.getDeviceId()) || this.approvedDeviceIds.has(device.id)) {
+            return;
+          }
+          onAdded(device);
+        }
+      )
+      .subscribe();
+  }
+
+  /**
+   * Code in groups of four, e.g. ABCD-EFGH-JKLM-NPQR
+   */
+  static formatCode(code: string): string {
+    return this.normalizeCode(code).match(/.{1,4}/g)?.join('-') ?? '';
+  }
+
+  /**
+   * Point this device's row at a new key, revoke the old key and move the
+   * account key along if it was this device's
+   */
+  private static async updateCurrentDeviceKey(
+    userId: string,
+    deviceId: string,
+    oldPublicKey: string,
+    publicKey: string
+  ): Promise<Device | null> {
+    const { data, error } = await supabase
+      .from('devices')
+      .update({ public_key: publicKey })
+      .eq('id', deviceId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating device key:', error);
+      return null;
+    }
+
+    await this.recordKey(userId, deviceId, publicKey);
+    const { error: revokeError } = await supabase
+      .from('key_history')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('key_id', EncryptionService.getKeyId(oldPublicKey));
+    if (revokeError) {
+      console.error('Error revoking key:', revokeError);
+    }
+
+    // Clients that predate the devices table follow the account key
+    const { error: userError } = await supabase
+      .from('users')
+      .update({ public_key: publicKey })
+      .eq('id', userId)
+      .eq('public_key', oldPublicKey);
+    if (userError) {
+      console.error('Error updating account key:', userError);
+    }
+
+    return this.toDevice(data);
+  }
+
+  /**
+   * Add a key to key_history. A key the account already had moves to this
+   * device, which set_key_history_revocation takes as the key being active again.
+   */
+  private static async recordKey(userId: string, deviceId: string, publicKey: string): Promise<void> {
+    const { error } = await supabase.from('key_history').upsert(
+      {
+        user_id: userId,
+        key_id: EncryptionService.getKeyId(publicKey),
+        device_id: deviceId,
+        public_key: publicKey,
+      },
+      { onConflict: 'user_id,key_id' }
+    );
+
+    if (error) {
+      console.error('Error recording key:', error);
+    }
+  }
+
+  private static normalizeCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  private static splitCode(code: string): { lookup: string; secret: string } {
+    const normalized = this.normalizeCode(code);
+    return {
+      lookup: normalized.slice(0, LINK_LOOKUP_LENGTH),
+      secret: normalized.slice(LINK_LOOKUP_LENGTH),
+    };
+  }
+
+  /**
+   * Binds the claiming device's key to the code, so a claim made without
+   * the code can't be approved. The key is stretched from the code's secret
+   * part with the link id as salt.
+   */
+  private static async getProof(
+    code: string,
+    linkId: string,
+    deviceId: string,
+    publicKey: string
+  ): Promise<string> {
+    const encoder = new TextEncoder();
+    const proofKey = await EncryptionService.deriveKeyFromPassphrase(
+      this.splitCode(code).secret,
+      EncryptionService.arrayBufferToBase64(encoder.encode(linkId).buffer),
+      LINK_PROOF_ITERATIONS
+    );
+    return bytesToHex(
+      hmac(
+        sha256,
+        new Uint8Array(EncryptionService.base64ToArrayBuffer(proofKey)),
+        encoder.encode(`${deviceId}:${publicKey}`)
+      )
+    );
+  }
+
+  private static async getCachedDevices(userId: string): Promise<Device[]> {
+    const stored = await AsyncStorage.getItem(`${DEVICE_LIST_STORAGE_KEY_PREFIX}${userId}`);
+    const devices: Device[] = stored ? JSON.parse(stored) : [];
+    return devices.map((device) => ({ ...device, createdAt: new Date(device.createdAt) }));
+  }
+
+  private static toDevice(row: any): Device {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      publicKey: row.public_key,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private static toLink(row: any): DeviceLink {
+    return {
+      id: row.id,
+      status: row.status,
+      deviceId: row.device_id || undefined,
+      deviceName: row.device_name || undefined,
+      publicKey: row.public_key || undefined,
+      proof: row.proof || undefined,
+      keyBundle: row.key_bundle || undefined,
+      expiresAt: new Date(row.expires_at),
+    };
+  }
+}
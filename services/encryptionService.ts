@@ -1,5 +1,9 @@
 import * as Crypto from 'expo-crypto';
 import * as SecureStore from 'expo-secure-store';
+import { sha256 } from '@noble/hashes/sha2';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { bytesToHex } from '@noble/hashes/utils';
 
 /**
  * End-to-End Encryption Service
@@ -13,19 +17,69 @@ import * as SecureStore from 'expo-secure-store';
  * 2. Public keys are shared via the database
  * 3. Private keys are stored securely on device
  * 4. Messages are encrypted with AES-256-GCM
- * 5. AES keys are encrypted with recipient's RSA public key
+ * 5. AES keys are encrypted with recipient's RSA public key, and again
+ *    with the sender's so they can read their own history
+ * 6. Group messages wrap the AES key once per member's public key
+ * 7. Attachments are encrypted with the same per-message AES key
+ * 8. Direct messages now wrap the AES key with a forward-secret ratchet
+ *    session instead (see RatchetService); RSA wrapping remains for groups,
+ *    for contacts without prekeys and for decrypting stored messages
+ * 9. Every device has its own key pair. Linking a device hands it the
+ *    private keys of the device that approved it, so older RSA-wrapped
+ *    history stays readable (see DeviceService)
+ * 10. Private keys can be backed up encrypted with a passphrase-derived
+ *     key, so logging out or losing every device isn't final (see KeyBackupService)
+ * 11. Key pairs can be rotated. Every RSA-wrapped key records the id of the
+ *     key pair it was wrapped for, and replaced private keys stay on the
+ *     device under that id so older history remains readable
  */
 
 const PRIVATE_KEY_STORAGE_KEY = 'user_private_key';
 const PUBLIC_KEY_STORAGE_KEY = 'user_public_key';
+const DEVICE_KEY_STORAGE_KEY = 'device_storage_key';
+const LINKED_KEYS_STORAGE_KEY = 'linked_private_keys';
+const LINKED_KEY_STORAGE_PREFIX = 'linked_private_key_';
+const PREVIOUS_KEYS_STORAGE_KEY = 'previous_private_keys';
+const PREVIOUS_KEY_STORAGE_PREFIX = 'previous_private_key_';
+const KEY_ID_LENGTH = 16;
+const SEARCH_INDEX_INFO = new TextEncoder().encode('beteseb-search-index');
+
+/**
+ * Data encrypted with this device's local storage key
+ */
+export interface SealedData {
+  data: string;                  // Base64 AES-GCM ciphertext
+  iv: string;
+}
+
+export interface AttachmentInput {
+  data: ArrayBuffer;             // Plain file bytes
+  reference: string;             // Plain storage reference, encrypted alongside the file
+}
+
+export interface EncryptedAttachment {
+  data: ArrayBuffer;             // Encrypted file bytes
+  iv: string;                    // Base64 IV used for the file bytes
+  reference: string;             // Base64 encrypted storage reference
+  referenceIv: string;           // Base64 IV used for the reference
+  key: string;                   // Base64 raw AES key, for the sender's local copy only
+}
 
 interface EncryptedMessage {
   encryptedContent: string;      // Base64 encoded encrypted message
   encryptedKey: string;          // Base64 encoded encrypted AES key
+  keyId?: string;                // Id of the key pair encryptedKey was wrapped for
   iv: string;                    // Base64 encoded initialization vector
+  senderEncryptedKey?: string;   // Base64 AES key encrypted for the sender
+  senderKeyId?: string;
+  encryptedAttachment?: EncryptedAttachment;
 }
 
 export class EncryptionService {
+  private static deviceKey: Promise<string> | null = null;
+  private static linkedKeys: Promise<Record<string, string>> | null = null;
+  private static previousKeys: Promise<Record<string, string>> | null = null;
+
   /**
    * Generate RSA key pair for a user
    * Returns: { publicKey, privateKey } in PEM format
@@ -83,6 +137,31 @@ export class EncryptionService {
     return await SecureStore.getItemAsync(PUBLIC_KEY_STORAGE_KEY);
   }
 
+  /**
+   * Stable id of an RSA key pair, from either half
+   * @param keyJwkString - Public or private key (JWK format)
+   * @returns Truncated hex SHA-256 of the key's modulus
+   */
+  static getKeyId(keyJwkString: string): string {
+    const { n } = JSON.parse(keyJwkString);
+    return bytesToHex(sha256(new TextEncoder().encode(n))).slice(0, KEY_ID_LENGTH);
+  }
+
+  /**
+   * Ids of every RSA private key this device holds: its own, the ones it
+   * rotated away from and any handed over by linking or a restored backup
+   */
+  static async getPrivateKeyIds(): Promise<Set<string>> {
+    const privateKey = await this.getPrivateKey();
+    return new Set(
+      [
+        ...(privateKey ? [privateKey] : []),
+        ...Object.values(await this.getPreviousPrivateKeys()),
+        ...Object.values(await this.getLinkedPrivateKeys()),
+      ].map((key) => this.getKeyId(key))
+    );
+  }
+
   /**
    * Check if user has encryption keys set up
    */
@@ -92,15 +171,18 @@ export class EncryptionService {
   }
 
   /**
-   * Encrypt a message for a recipient
-   * @param message - Plain text message
-   * @param recipientPublicKey - Recipient's public key (JWK format)
-   * @returns Encrypted message object
+   * Encrypt plain text (and an optional attachment) with a fresh AES-GCM key
+   * @returns Base64 ciphertext and IV, plus the raw AES key for wrapping
    */
-  static async encryptMessage(
+  static async encryptContent(
     message: string,
-    recipientPublicKey: string
-  ): Promise<EncryptedMessage> {
+    attachment?: AttachmentInput
+  ): Promise<{
+    encryptedContent: string;
+    iv: string;
+    aesKeyData: ArrayBuffer;
+    encryptedAttachment?: EncryptedAttachment;
+  }> {
     // 1. Generate a random AES key for this message
     const aesKey = await crypto.subtle.generateKey(
       {
@@ -128,8 +210,58 @@ export class EncryptionService {
     // 4. Export the AES key to raw format
     const aesKeyData = await crypto.subtle.exportKey('raw', aesKey);
 
-    // 5. Import recipient's public key
-    const publicKeyJwk = JSON.parse(recipientPublicKey);
+    // 5. Encrypt the attachment bytes and reference with the same key
+    let encryptedAttachment: EncryptedAttachment | undefined;
+    if (attachment) {
+      const file = await this.encryptWithKey(aesKey, attachment.data);
+      const reference = await this.encryptWithKey(
+        aesKey,
+        new TextEncoder().encode(attachment.reference)
+      );
+      encryptedAttachment = {
+        data: file.data,
+        iv: file.iv,
+        reference: this.arrayBufferToBase64(reference.data),
+        referenceIv: reference.iv,
+        key: this.arrayBufferToBase64(aesKeyData),
+      };
+    }
+
+    // 6. Convert to Base64 for storage/transmission
+    return {
+      encryptedContent: this.arrayBufferToBase64(encryptedMessageBuffer),
+      iv: this.arrayBufferToBase64(iv),
+      aesKeyData,
+      encryptedAttachment,
+    };
+  }
+
+  /**
+   * Encrypt bytes with an AES-GCM key under a fresh IV
+   */
+  private static async encryptWithKey(
+    aesKey: CryptoKey,
+    data: BufferSource
+  ): Promise<{ data: ArrayBuffer; iv: string }> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: iv,
+      },
+      aesKey,
+      data
+    );
+
+    return { data: encrypted, iv: this.arrayBufferToBase64(iv.buffer) };
+  }
+
+  /**
+   * Encrypt a raw AES key with an RSA public key
+   * @returns Base64 encoded encrypted key
+   */
+  static async wrapKey(aesKeyData: ArrayBuffer, publicKeyJwkString: string): Promise<string> {
+    const publicKeyJwk = JSON.parse(publicKeyJwkString);
     const publicKey = await crypto.subtle.importKey(
       'jwk',
       publicKeyJwk,
@@ -141,7 +273,6 @@ export class EncryptionService {
       ['encrypt']
     );
 
-    // 6. Encrypt the AES key with recipient's RSA public key
     const encryptedKeyBuffer = await crypto.subtle.encrypt(
       {
         name: 'RSA-OAEP',
@@ -150,53 +281,221 @@ export class EncryptionService {
       aesKeyData
     );
 
-    // 7. Convert everything to Base64 for storage/transmission
-    return {
-      encryptedContent: this.arrayBufferToBase64(encryptedMessageBuffer),
-      encryptedKey: this.arrayBufferToBase64(encryptedKeyBuffer),
-      iv: this.arrayBufferToBase64(iv),
-    };
+    return this.arrayBufferToBase64(encryptedKeyBuffer);
   }
 
   /**
-   * Decrypt a message using user's private key
+   * Recover a message's AES key using user's private key
    * @param encryptedMessage - Encrypted message object
-   * @returns Decrypted plain text message
+   * @param asSender - Unwrap the sender's copy of the AES key instead of the recipient's
+   * @returns Base64 encoded raw AES key (keep in memory only)
    */
-  static async decryptMessage(encryptedMessage: EncryptedMessage): Promise<string> {
-    // 1. Get user's private key from secure storage
+  static async unwrapMessageKey(
+    encryptedMessage: EncryptedMessage,
+    asSender = false
+  ): Promise<string> {
+    const wrappedKey = asSender
+      ? encryptedMessage.senderEncryptedKey
+      : encryptedMessage.encryptedKey;
+    const keyId = asSender ? encryptedMessage.senderKeyId : encryptedMessage.keyId;
+    if (!wrappedKey) {
+      throw new Error('No encrypted key for this user');
+    }
+
+    // 1. Get this device's private key, plus rotated ones and any handed over by device linking
     const privateKeyJwkString = await this.getPrivateKey();
     if (!privateKeyJwkString) {
       throw new Error('Private key not found');
     }
+    const candidates = [
+      privateKeyJwkString,
+      ...Object.values(await this.getPreviousPrivateKeys()),
+      ...Object.values(await this.getLinkedPrivateKeys()),
+    ];
+    // Keys wrapped before key ids existed have to be tried against every key
+    const matching = keyId
+      ? candidates.filter((candidate) => this.getKeyId(candidate) === keyId)
+      : [];
+
+    let lastError: unknown = new Error(`Private key ${keyId} not found`);
+    for (const keyJwkString of matching.length > 0 ? matching : candidates) {
+      try {
+        // 2. Import private key
+        const privateKey = await crypto.subtle.importKey(
+          'jwk',
+          JSON.parse(keyJwkString),
+          {
+            name: 'RSA-OAEP',
+            hash: 'SHA-256',
+          },
+          false,
+          ['decrypt']
+        );
+
+        // 3. Decrypt the AES key using RSA private key
+        const aesKeyData = await crypto.subtle.decrypt(
+          {
+            name: 'RSA-OAEP',
+          },
+          privateKey,
+          this.base64ToArrayBuffer(wrappedKey)
+        );
+
+        return this.arrayBufferToBase64(aesKeyData);
+      } catch (error) {
+        // Wrapped for another of the user's keys
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
 
-    // 2. Import private key
-    const privateKeyJwk = JSON.parse(privateKeyJwkString);
-    const privateKey = await crypto.subtle.importKey(
-      'jwk',
-      privateKeyJwk,
+  /**
+   * Private keys received from other devices when this one was linked
+   * @returns Map of device id to private key (JWK format)
+   */
+  static getLinkedPrivateKeys(): Promise<Record<string, string>> {
+    if (!this.linkedKeys) {
+      this.linkedKeys = (async () => {
+        const stored = await SecureStore.getItemAsync(LINKED_KEYS_STORAGE_KEY);
+        const deviceIds: string[] = stored ? JSON.parse(stored) : [];
+
+        const keys: Record<string, string> = {};
+        for (const deviceId of deviceIds) {
+          const key = await SecureStore.getItemAsync(`${LINKED_KEY_STORAGE_PREFIX}${deviceId}`);
+          if (key) keys[deviceId] = key;
+        }
+        return keys;
+      })();
+      this.linkedKeys.catch(() => {
+        this.linkedKeys = null;
+      });
+    }
+    return this.linkedKeys;
+  }
+
+  /**
+   * Keep private keys handed over by another device, one SecureStore entry each
+   */
+  static async storeLinkedPrivateKeys(keys: Record<string, string>): Promise<void> {
+    const existing = await this.getLinkedPrivateKeys();
+    for (const [deviceId, key] of Object.entries(keys)) {
+      await SecureStore.setItemAsync(`${LINKED_KEY_STORAGE_PREFIX}${deviceId}`, key);
+    }
+    await SecureStore.setItemAsync(
+      LINKED_KEYS_STORAGE_KEY,
+      JSON.stringify(Object.keys({ ...existing, ...keys }))
+    );
+    this.linkedKeys = null;
+  }
+
+  /**
+   * Private keys this device used before rotating its key pair
+   * @returns Map of key id to private key (JWK format)
+   */
+  static getPreviousPrivateKeys(): Promise<Record<string, string>> {
+    if (!this.previousKeys) {
+      this.previousKeys = (async () => {
+        const stored = await SecureStore.getItemAsync(PREVIOUS_KEYS_STORAGE_KEY);
+        const keyIds: string[] = stored ? JSON.parse(stored) : [];
+
+        const keys: Record<string, string> = {};
+        for (const keyId of keyIds) {
+          const key = await SecureStore.getItemAsync(`${PREVIOUS_KEY_STORAGE_PREFIX}${keyId}`);
+          if (key) keys[keyId] = key;
+        }
+        return keys;
+      })();
+      this.previousKeys.catch(() => {
+        this.previousKeys = null;
+      });
+    }
+    return this.previousKeys;
+  }
+
+  /**
+   * Keep replaced private keys, one SecureStore entry each
+   * @param keys - Private keys (JWK format), stored under their key ids
+   */
+  static async storePreviousPrivateKeys(keys: string[]): Promise<void> {
+    const existing = await this.getPreviousPrivateKeys();
+    const keyIds = new Set(Object.keys(existing));
+    for (const key of keys) {
+      const keyId = this.getKeyId(key);
+      await SecureStore.setItemAsync(`${PREVIOUS_KEY_STORAGE_PREFIX}${keyId}`, key);
+      keyIds.add(keyId);
+    }
+    await SecureStore.setItemAsync(PREVIOUS_KEYS_STORAGE_KEY, JSON.stringify([...keyIds]));
+    this.previousKeys = null;
+  }
+
+  /**
+   * Make a new key pair this device's current one, keeping the old private key
+   */
+  static async storeRotatedKeyPair(publicKey: string, privateKey: string): Promise<void> {
+    const currentPrivateKey = await this.getPrivateKey();
+    if (currentPrivateKey) {
+      await this.storePreviousPrivateKeys([currentPrivateKey]);
+    }
+    await this.storePrivateKey(privateKey);
+    await this.storePublicKey(publicKey);
+  }
+
+  /**
+   * Generate a standalone AES-256 key (e.g. the device key for local storage)
+   * @returns Base64 raw key
+   */
+  static async generateRawKey(): Promise<string> {
+    const aesKey = await crypto.subtle.generateKey(
       {
-        name: 'RSA-OAEP',
-        hash: 'SHA-256',
+        name: 'AES-GCM',
+        length: 256,
       },
-      false,
-      ['decrypt']
+      true,
+      ['encrypt', 'decrypt']
     );
 
-    // 3. Decrypt the AES key using RSA private key
-    const encryptedKeyBuffer = this.base64ToArrayBuffer(encryptedMessage.encryptedKey);
-    const aesKeyData = await crypto.subtle.decrypt(
+    return this.arrayBufferToBase64(await crypto.subtle.exportKey('raw', aesKey));
+  }
+
+  /**
+   * Encrypt data with a raw AES key, the counterpart of decryptWithKey
+   * @returns Base64 ciphertext and IV
+   */
+  static async encryptWithRawKey(
+    aesKeyBase64: string,
+    data: BufferSource
+  ): Promise<{ data: string; iv: string }> {
+    const aesKey = await crypto.subtle.importKey(
+      'raw',
+      this.base64ToArrayBuffer(aesKeyBase64),
       {
-        name: 'RSA-OAEP',
+        name: 'AES-GCM',
+        length: 256,
       },
-      privateKey,
-      encryptedKeyBuffer
+      false,
+      ['encrypt']
     );
+    const encrypted = await this.encryptWithKey(aesKey, data);
+
+    return { data: this.arrayBufferToBase64(encrypted.data), iv: encrypted.iv };
+  }
 
-    // 4. Import the AES key
+  /**
+   * Decrypt data with an already unwrapped AES key
+   * @param aesKeyBase64 - Raw AES key from unwrapMessageKey
+   * @param encryptedData - Ciphertext, as Base64 or raw bytes
+   * @param ivBase64 - Base64 encoded initialization vector
+   */
+  static async decryptWithKey(
+    aesKeyBase64: string,
+    encryptedData: string | ArrayBuffer,
+    ivBase64: string
+  ): Promise<ArrayBuffer> {
+    // 1. Import the AES key
     const aesKey = await crypto.subtle.importKey(
       'raw',
-      aesKeyData,
+      this.base64ToArrayBuffer(aesKeyBase64),
       {
         name: 'AES-GCM',
         length: 256,
@@ -205,21 +504,63 @@ export class EncryptionService {
       ['decrypt']
     );
 
-    // 5. Decrypt the message using AES key
-    const encryptedContentBuffer = this.base64ToArrayBuffer(encryptedMessage.encryptedContent);
-    const iv = this.base64ToArrayBuffer(encryptedMessage.iv);
+    // 2. Decrypt the data using AES key
+    const encryptedBuffer =
+      typeof encryptedData === 'string'
+        ? this.base64ToArrayBuffer(encryptedData)
+        : encryptedData;
 
-    const decryptedBuffer = await crypto.subtle.decrypt(
+    return await crypto.subtle.decrypt(
       {
         name: 'AES-GCM',
-        iv: iv,
+        iv: this.base64ToArrayBuffer(ivBase64),
       },
       aesKey,
-      encryptedContentBuffer
+      encryptedBuffer
     );
+  }
 
-    // 6. Convert decrypted data back to string
-    return new TextDecoder().decode(decryptedBuffer);
+  /**
+   * Derive an AES-256 key from a passphrase with PBKDF2-SHA256
+   * @param saltBase64 - Base64 random salt, stored with whatever the key encrypts
+   * @returns Base64 raw key, for encryptWithRawKey / decryptWithKey
+   */
+  static async deriveKeyFromPassphrase(
+    passphrase: string,
+    saltBase64: string,
+    iterations: number
+  ): Promise<string> {
+    const baseKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+      {
+        name: 'PBKDF2',
+        salt: this.base64ToArrayBuffer(saltBase64),
+        iterations,
+        hash: 'SHA-256',
+      },
+      baseKey,
+      256
+    );
+
+    return this.arrayBufferToBase64(bits);
+  }
+
+  /**
+   * SHA-256 digest of some bytes
+   * @returns Hex encoded hash
+   */
+  static async sha256(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
   }
 
   /**
@@ -243,44 +584,70 @@ export class EncryptionService {
   }
 
   /**
-   * Get user's public key from their stored private key
-   * (In case we need to re-upload it)
+   * Encrypt data for local storage with a per-device key kept in SecureStore
    */
-  static async getPublicKeyFromPrivateKey(): Promise<string | null> {
-    const privateKeyJwkString = await this.getPrivateKey();
-    if (!privateKeyJwkString) {
-      return null;
-    }
-
-    // Import private key
-    const privateKeyJwk = JSON.parse(privateKeyJwkString);
-    const privateKey = await crypto.subtle.importKey(
-      'jwk',
-      privateKeyJwk,
-      {
-        name: 'RSA-OAEP',
-        hash: 'SHA-256',
-      },
-      true,
-      ['decrypt']
+  static async sealLocal(plainText: string): Promise<SealedData> {
+    return await this.encryptWithRawKey(
+      await this.getDeviceKey(),
+      new TextEncoder().encode(plainText)
     );
+  }
+
+  static async openLocal(sealed: SealedData): Promise<string> {
+    const decrypted = await this.decryptWithKey(await this.getDeviceKey(), sealed.data, sealed.iv);
+    return new TextDecoder().decode(decrypted);
+  }
+
+  /**
+   * Blind index values for the local search index: HMACs of the tokens under
+   * a key derived from the local storage key, so the index holds no words
+   * but the same word always maps to the same value on this device
+   */
+  static async hashSearchTokens(tokens: string[]): Promise<string[]> {
+    const deviceKey = new Uint8Array(this.base64ToArrayBuffer(await this.getDeviceKey()));
+    const searchKey = hkdf(sha256, deviceKey, undefined, SEARCH_INDEX_INFO, 32);
+    const encoder = new TextEncoder();
 
-    // Note: We need to derive public key from private key
-    // In practice, we should store both. Let's modify our approach.
-    // For now, we'll store both public and private keys together
-    return null; // This is a limitation we'll address
+    return tokens.map((token) => bytesToHex(hmac(sha256, searchKey, encoder.encode(token))));
+  }
+
+  private static getDeviceKey(): Promise<string> {
+    if (!this.deviceKey) {
+      this.deviceKey = (async () => {
+        const stored = await SecureStore.getItemAsync(DEVICE_KEY_STORAGE_KEY);
+        if (stored) return stored;
+
+        const key = await this.generateRawKey();
+        await SecureStore.setItemAsync(DEVICE_KEY_STORAGE_KEY, key);
+        return key;
+      })();
+      this.deviceKey.catch(() => {
+        this.deviceKey = null;
+      });
+    }
+    return this.deviceKey;
   }
 
   /**
    * Clear all encryption keys (e.g., on logout)
    */
   static async clearKeys(): Promise<void> {
+    for (const deviceId of Object.keys(await this.getLinkedPrivateKeys())) {
+      await SecureStore.deleteItemAsync(`${LINKED_KEY_STORAGE_PREFIX}${deviceId}`);
+    }
+    await SecureStore.deleteItemAsync(LINKED_KEYS_STORAGE_KEY);
+    this.linkedKeys = null;
+    for (const keyId of Object.keys(await this.getPreviousPrivateKeys())) {
+      await SecureStore.deleteItemAsync(`${PREVIOUS_KEY_STORAGE_PREFIX}${keyId}`);
+    }
+    await SecureStore.deleteItemAsync(PREVIOUS_KEYS_STORAGE_KEY);
+    this.previousKeys = null;
     await SecureStore.deleteItemAsync(PRIVATE_KEY_STORAGE_KEY);
     await SecureStore.deleteItemAsync(PUBLIC_KEY_STORAGE_KEY);
   }
 
   // Utility functions
-  private static arrayBufferToBase64(buffer: ArrayBuffer): string {
+  static arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
     const bytes = new Uint8Array(buffer);
     let binary = '';
     for (let i = 0; i < bytes.byteLength; i++) {
@@ -289,7 +656,11 @@ export class EncryptionService {
     return btoa(binary);
   }
 
-  private static base64ToArrayBuffer(base64: string): ArrayBuffer {
+  static base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    return new Uint8Array(this.base64ToArrayBuffer(base64));
+  }
+
+  static base64ToArrayBuffer(base64: string): ArrayBuffer {
     const binaryString = atob(base64);
     const bytes = new Uint8Array(binaryString.length);
     for (let i = 0; i < binaryString.length; i++) {
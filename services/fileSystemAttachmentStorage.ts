@@ -0,0 +1,37 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AttachmentStorage } from './attachmentStorage';
+
+/**
+ * Local filesystem stand-in for AttachmentStorage, for Node test runs.
+ * Not bundled into the app: nothing in the app imports it.
+ *
+ * Usage: AttachmentService.setStorage(new FileSystemAttachmentStorage(tmpDir))
+ */
+export class FileSystemAttachmentStorage implements AttachmentStorage {
+  constructor(private rootDir: string) {}
+
+  async upload(storagePath: string, data: ArrayBuffer): Promise<void> {
+    const filePath = this.resolve(storagePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, new Uint8Array(data));
+  }
+
+  async download(storagePath: string): Promise<ArrayBuffer> {
+    const buffer = await fs.readFile(this.resolve(storagePath));
+    return new Uint8Array(buffer).buffer;
+  }
+
+  async remove(storagePath: string): Promise<void> {
+    await fs.rm(this.resolve(storagePath), { force: true });
+  }
+
+  private resolve(storagePath: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, storagePath);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid attachment path: ${storagePath}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,88 @@
+import { MessageStore, SearchIndexEntry, StoredMessageRecord } from './messageStore';
+
+const byCreatedAt = (a: StoredMessageRecord, b: StoredMessageRecord): number =>
+  a.createdAt === b.createdAt ? a.id.localeCompare(b.id) : a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * In-memory stand-in for MessageStore, for test runs.
+ * Not bundled into the app: nothing in the app imports it.
+ *
+ * Usage: MessageCacheService.setStore(new InMemoryMessageStore())
+ */
+export class InMemoryMessageStore implements MessageStore {
+  private records = new Map<string, StoredMessageRecord>();
+  private tokens = new Map<string, Set<string>>(); // Owner and message id -> tokens
+
+  async upsert(records: StoredMessageRecord[]): Promise<void> {
+    records.forEach((record) => this.records.set(this.key(record.ownerId, record.id), record));
+  }
+
+  async get(ownerId: string, id: string): Promise<StoredMessageRecord | null> {
+    return this.records.get(this.key(ownerId, id)) ?? null;
+  }
+
+  async getRecent(ownerId: string, perConversation: number): Promise<StoredMessageRecord[]> {
+    const byConversation = new Map<string, StoredMessageRecord[]>();
+    this.ownedBy(ownerId).forEach((record) => {
+      byConversation.set(record.conversationId, [
+        ...(byConversation.get(record.conversationId) || []),
+        record,
+      ]);
+    });
+
+    return Array.from(byConversation.values())
+      .flatMap((records) => records.sort(byCreatedAt).slice(-perConversation))
+      .sort(byCreatedAt);
+  }
+
+  async getLatestCreatedAt(ownerId: string): Promise<string | null> {
+    const records = this.ownedBy(ownerId).sort(byCreatedAt);
+    return records.length > 0 ? records[records.length - 1].createdAt : null;
+  }
+
+  async index(entries: SearchIndexEntry[]): Promise<void> {
+    entries.forEach((entry) =>
+      this.tokens.set(this.key(entry.ownerId, entry.messageId), new Set(entry.tokens))
+    );
+  }
+
+  async getUnindexed(ownerId: string, limit: number): Promise<StoredMessageRecord[]> {
+    return this.ownedBy(ownerId)
+      .filter((record) => !this.tokens.has(this.key(ownerId, record.id)))
+      .slice(0, limit);
+  }
+
+  async search(
+    ownerId: string,
+    tokens: string[],
+    conversationId: string | null,
+    limit: number
+  ): Promise<StoredMessageRecord[]> {
+    if (tokens.length === 0) return [];
+
+    return this.ownedBy(ownerId)
+      .filter((record) => conversationId === null || record.conversationId === conversationId)
+      .filter((record) => {
+        const indexed = this.tokens.get(this.key(ownerId, record.id));
+        return !!indexed && tokens.every((token) => indexed.has(token));
+      })
+      .sort(byCreatedAt)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async clear(ownerId: string): Promise<void> {
+    this.ownedBy(ownerId).forEach((record) => {
+      this.records.delete(this.key(ownerId, record.id));
+      this.tokens.delete(this.key(ownerId, record.id));
+    });
+  }
+
+  private ownedBy(ownerId: string): StoredMessageRecord[] {
+    return Array.from(this.records.values()).filter((record) => record.ownerId === ownerId);
+  }
+
+  private key(ownerId: string, id: string): string {
+    return `${ownerId}:${id}`;
+  }
+}
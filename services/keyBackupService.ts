@@ -0,0 +1,155 @@
+import * as Crypto from 'expo-crypto';
+import { supabase } from '../lib/supabase';
+import { EncryptionService } from './encryptionService';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_LENGTH = 16;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Contents of a backup, encrypted as one JSON document
+ */
+interface BackedUpKeys {
+  publicKey: string;
+  privateKey: string;
+  linkedKeys: Record<string, string>;   // Device id -> private key handed over when linking
+  previousKeys?: string[];              // Private keys replaced by key rotation
+}
+
+export interface KeyBackupInfo {
+  updatedAt: Date;
+}
+
+/**
+ * Passphrase-protected key backup
+ *
+ * Flow:
+ * 1. PBKDF2-SHA256 turns the user's passphrase and a random salt into an
+ *    AES-256 key; neither the passphrase nor that key leave the device
+ * 2. This device's key pair, the keys it rotated away from and any keys it
+ *    received from linked devices are encrypted with it and uploaded to
+ *    key_backups with the salt
+ * 3. A device without keys (new install, or after logging out) is offered
+ *    to restore the backup before it generates a new key pair (see ChatContext)
+ *
+ * What a restore recovers: every message whose key was wrapped with RSA for
+ * one of the backed up keys, i.e. group messages and direct messages sent
+ * while the device had no prekeys published. Direct messages sent over a
+ * ratchet session are forward secret: their keys are used once and deleted,
+ * and sessions and the message cache are never backed up, so that history
+ * stays on the devices that received it.
+ */
+export class KeyBackupService {
+  static async getBackupInfo(userId: string): Promise<KeyBackupInfo | null> {
+    const { data, error } = await supabase
+      .from('key_backups')
+      .select('updated_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching key backup:', error);
+      return null;
+    }
+
+    return data ? { updatedAt: new Date(data.updated_at) } : null;
+  }
+
+  /**
+   * Back up this device's keys, replacing any previous backup
+   */
+  static async createBackup(userId: string, passphrase: string): Promise<boolean> {
+    try {
+      const [publicKey, privateKey, linkedKeys, previousKeys] = await Promise.all([
+        EncryptionService.getPublicKey(),
+        EncryptionService.getPrivateKey(),
+        EncryptionService.getLinkedPrivateKeys(),
+        EncryptionService.getPreviousPrivateKeys(),
+      ]);
+      if (!publicKey || !privateKey) {
+        throw new Error('Encryption keys not found');
+      }
+
+      const keys: BackedUpKeys = {
+        publicKey,
+        privateKey,
+        linkedKeys,
+        previousKeys: Object.values(previousKeys),
+      };
+      const salt = EncryptionService.arrayBufferToBase64(Crypto.getRandomBytes(SALT_LENGTH));
+      const backupKey = await EncryptionService.deriveKeyFromPassphrase(
+        passphrase,
+        salt,
+        PBKDF2_ITERATIONS
+      );
+      const sealed = await EncryptionService.encryptWithRawKey(
+        backupKey,
+        new TextEncoder().encode(JSON.stringify(keys))
+      );
+
+      const { error } = await supabase.from('key_backups').upsert({
+        user_id: userId,
+        encrypted_keys: sealed.data,
+        iv: sealed.iv,
+        salt,
+        iterations: PBKDF2_ITERATIONS,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+
+      return true;
+    } catch (error) {
+      console.error('Error creating key backup:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Decrypt the backup and store its keys on this device
+   * @returns false if there is no backup or the passphrase is wrong
+   */
+  static async restoreBackup(userId: string, passphrase: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase
+        .from('key_backups')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return false;
+
+      const backupKey = await EncryptionService.deriveKeyFromPassphrase(
+        passphrase,
+        data.salt,
+        data.iterations
+      );
+      // AES-GCM authentication fails here when the passphrase is wrong
+      const decrypted = await EncryptionService.decryptWithKey(
+        backupKey,
+        data.encrypted_keys,
+        data.iv
+      );
+      const keys: BackedUpKeys = JSON.parse(new TextDecoder().decode(decrypted));
+
+      await EncryptionService.storePrivateKey(keys.privateKey);
+      await EncryptionService.storePublicKey(keys.publicKey);
+      await EncryptionService.storeLinkedPrivateKeys(keys.linkedKeys);
+      await EncryptionService.storePreviousPrivateKeys(keys.previousKeys ?? []);
+      return true;
+    } catch (error) {
+      console.error('Error restoring key backup:', error);
+      return false;
+    }
+  }
+
+  static async deleteBackup(userId: string): Promise<boolean> {
+    const { error } = await supabase.from('key_backups').delete().eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting key backup:', error);
+      return false;
+    }
+
+    return true;
+  }
+}
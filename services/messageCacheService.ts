@@ -0,0 +1,255 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Message } from '../types/chat';
+import { EncryptionService } from './encryptionService';
+import { MessageStore, SQLiteMessageStore, StoredMessageRecord } from './messageStore';
+import { getIndexTokens, tokenize } from '../utils/search';
+
+const RECENT_MESSAGES_PER_CONVERSATION = 30;
+const SEARCH_RESULT_LIMIT = 50;
+const INDEX_BATCH_SIZE = 100;
+const SYNC_FLOOR_STORAGE_KEY_PREFIX = 'message_sync_floor:';
+
+export interface CachedMessage {
+  conversationId: string;
+  message: Message;
+}
+
+/**
+ * Local message cache
+ *
+ * Flow:
+ * 1. Decrypted messages are re-encrypted with the device's local storage key
+ * 2. The ciphertext is written to a MessageStore (SQLite in the app)
+ * 3. On startup getRecentMessages() hydrates conversations without the network
+ * 4. getLastSyncedAt() tells ChatService which newer messages still need fetching
+ * 5. Every cached message is also indexed for search: each prefix of each
+ *    word is stored as an HMAC under a key derived from the device key, so
+ *    search() finds messages without the store ever holding plain words
+ * 6. Messages decrypted from push notifications are cached out of order, so
+ *    getLastSyncedAt() keeps returning the point the app last synced up to
+ *    until the app has caught up again (clearSyncFloor)
+ */
+export class MessageCacheService {
+  private static store: MessageStore = new SQLiteMessageStore();
+
+  /**
+   * Swap the storage backend (e.g. InMemoryMessageStore in tests)
+   */
+  static setStore(store: MessageStore): void {
+    this.store = store;
+  }
+
+  static async saveMessages(ownerId: string, messages: CachedMessage[]): Promise<void> {
+    // Queued messages live in the outbox until the server has them; failed ones never do
+    const sent = messages.filter(
+      ({ message }) => message.status !== 'sending' && message.status !== 'failed'
+    );
+    if (sent.length === 0) return;
+
+    try {
+      const records = await Promise.all(
+        sent.map(({ conversationId, message }) => this.toRecord(ownerId, conversationId, message))
+      );
+      await this.store.upsert(records);
+      await this.index(ownerId, sent.map(({ message }) => message));
+    } catch (error) {
+      console.error('Error caching messages:', error);
+    }
+  }
+
+  /**
+   * Apply a local change (e.g. a receipt) to a cached message, if it is cached
+   */
+  static async updateMessage(
+    ownerId: string,
+    id: string,
+    changes: Partial<Message>
+  ): Promise<void> {
+    try {
+      const record = await this.store.get(ownerId, id);
+      if (!record) return;
+
+      const message = { ...(await this.fromRecord(record)), ...changes };
+      await this.store.upsert([await this.toRecord(ownerId, record.conversationId, message)]);
+      if ('content' in changes || 'attachment' in changes) {
+        await this.index(ownerId, [message]);
+      }
+    } catch (error) {
+      console.error('Error updating cached message:', error);
+    }
+  }
+
+  static async getMessage(ownerId: string, id: string): Promise<Message | null> {
+    try {
+      const record = await this.store.get(ownerId, id);
+      return record ? await this.fromRecord(record) : null;
+    } catch (error) {
+      console.error('Error reading message cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The newest cached messages, grouped by conversation id and oldest first
+   */
+  static async getRecentMessages(ownerId: string): Promise<Record<string, Message[]>> {
+    const grouped: Record<string, Message[]> = {};
+
+    try {
+      const records = await this.store.getRecent(ownerId, RECENT_MESSAGES_PER_CONVERSATION);
+      for (const record of records) {
+        const message = await this.fromRecord(record);
+        grouped[record.conversationId] = [...(grouped[record.conversationId] || []), message];
+      }
+    } catch (error) {
+      console.error('Error reading message cache:', error);
+    }
+
+    return grouped;
+  }
+
+  /**
+   * Cache a message that arrived while the app was not syncing (e.g. in a
+   * push notification) without moving getLastSyncedAt() past messages that
+   * have not been fetched yet
+   */
+  static async saveOutOfOrderMessage(ownerId: string, message: CachedMessage): Promise<void> {
+    try {
+      const floorKey = `${SYNC_FLOOR_STORAGE_KEY_PREFIX}${ownerId}`;
+      if ((await AsyncStorage.getItem(floorKey)) === null) {
+        // An empty string records that the cache was empty
+        await AsyncStorage.setItem(floorKey, (await this.store.getLatestCreatedAt(ownerId)) ?? '');
+      }
+    } catch (error) {
+      console.error('Error caching messages:', error);
+      return;
+    }
+
+    await this.saveMessages(ownerId, [message]);
+  }
+
+  /**
+   * The app has fetched every message up to the newest cached one
+   */
+  static async clearSyncFloor(ownerId: string): Promise<void> {
+    await AsyncStorage.removeItem(`${SYNC_FLOOR_STORAGE_KEY_PREFIX}${ownerId}`);
+  }
+
+  /**
+   * created_at of the newest cached message, or null for an empty cache
+   */
+  static async getLastSyncedAt(ownerId: string): Promise<string | null> {
+    try {
+      const floor = await AsyncStorage.getItem(`${SYNC_FLOOR_STORAGE_KEY_PREFIX}${ownerId}`);
+      if (floor !== null) return floor || null;
+
+      return await this.store.getLatestCreatedAt(ownerId);
+    } catch (error) {
+      console.error('Error reading message cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Cached messages containing every word of the query (words match by
+   * prefix), newest first
+   * @param conversationId - Only search this conversation
+   */
+  static async search(
+    ownerId: string,
+    query: string,
+    conversationId?: string
+  ): Promise<CachedMessage[]> {
+    const words = tokenize(query);
+    if (words.length === 0) return [];
+
+    try {
+      const tokens = await EncryptionService.hashSearchTokens(words);
+      const records = await this.store.search(
+        ownerId,
+        tokens,
+        conversationId ?? null,
+        SEARCH_RESULT_LIMIT
+      );
+      return await Promise.all(
+        records.map(async (record) => ({
+          conversationId: record.conversationId,
+          message: await this.fromRecord(record),
+        }))
+      );
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Index cached messages that are not searchable yet, e.g. ones cached
+   * before search existed
+   */
+  static async buildSearchIndex(ownerId: string): Promise<void> {
+    try {
+      while (true) {
+        const records = await this.store.getUnindexed(ownerId, INDEX_BATCH_SIZE);
+        if (records.length === 0) break;
+
+        await this.index(ownerId, await Promise.all(records.map((r) => this.fromRecord(r))));
+      }
+    } catch (error) {
+      console.error('Error building search index:', error);
+    }
+  }
+
+  static async clear(ownerId: string): Promise<void> {
+    await this.store.clear(ownerId);
+    await this.clearSyncFloor(ownerId);
+  }
+
+  private static async index(ownerId: string, messages: Message[]): Promise<void> {
+    const entries = await Promise.all(
+      messages.map(async (message) => ({
+        ownerId,
+        messageId: message.id,
+        // Deleted messages stay indexed, without tokens
+        tokens: message.deletedAt
+          ? []
+          : await EncryptionService.hashSearchTokens(
+              getIndexTokens(`${message.content} ${message.attachment?.name ?? ''}`)
+            ),
+      }))
+    );
+    await this.store.index(entries);
+  }
+
+  private static async toRecord(
+    ownerId: string,
+    conversationId: string,
+    message: Message
+  ): Promise<StoredMessageRecord> {
+    const sealed = await EncryptionService.sealLocal(JSON.stringify(message));
+
+    return {
+      ownerId,
+      id: message.id,
+      conversationId,
+      createdAt: message.timestamp.toISOString(),
+      payload: sealed.data,
+      iv: sealed.iv,
+    };
+  }
+
+  private static async fromRecord(record: StoredMessageRecord): Promise<Message> {
+    const message = JSON.parse(
+      await EncryptionService.openLocal({ data: record.payload, iv: record.iv })
+    );
+
+    return {
+      ...message,
+      timestamp: new Date(message.timestamp),
+      deliveredAt: message.deliveredAt ? new Date(message.deliveredAt) : undefined,
+      readAt: message.readAt ? new Date(message.readAt) : undefined,
+      editedAt: message.editedAt ? new Date(message.editedAt) : undefined,
+      deletedAt: message.deletedAt ? new Date(message.deletedAt) : undefined,
+    };
+  }
+}
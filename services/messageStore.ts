@@ -0,0 +1,246 @@
+import * as SQLite from 'expo-sqlite';
+
+/**
+ * A cached message as the store sees it. The message itself is only ever
+ * held encrypted (`payload`); ids and timestamps stay plain so the store
+ * can order and page without the device key.
+ */
+export interface StoredMessageRecord {
+  ownerId: string;          // Signed-in user the cache belongs to
+  id: string;
+  conversationId: string;
+  createdAt: string;        // ISO timestamp from the server
+  payload: string;          // Base64 AES-GCM ciphertext of the message JSON
+  iv: string;
+}
+
+/**
+ * A cached message's search tokens, as blind index values (see
+ * EncryptionService.hashSearchTokens), never the words themselves
+ */
+export interface SearchIndexEntry {
+  ownerId: string;
+  messageId: string;
+  tokens: string[];
+}
+
+/**
+ * Where decrypted messages are cached on the device. Implementations only
+ * ever see ciphertext; encryption happens in MessageCacheService.
+ */
+export interface MessageStore {
+  upsert(records: StoredMessageRecord[]): Promise<void>;
+  get(ownerId: string, id: string): Promise<StoredMessageRecord | null>;
+  getRecent(ownerId: string, perConversation: number): Promise<StoredMessageRecord[]>; // Oldest first
+  getLatestCreatedAt(ownerId: string): Promise<string | null>;
+  index(entries: SearchIndexEntry[]): Promise<void>; // Replaces the messages' previous tokens
+  getUnindexed(ownerId: string, limit: number): Promise<StoredMessageRecord[]>;
+  search(
+    ownerId: string,
+    tokens: string[],
+    conversationId: string | null,
+    limit: number
+  ): Promise<StoredMessageRecord[]>; // Messages with every token, newest first
+  clear(ownerId: string): Promise<void>;
+}
+
+const DATABASE_NAME = 'message-cache.db';
+
+/**
+ * SQLite backed implementation used by the app
+ */
+export class SQLiteMessageStore implements MessageStore {
+  private database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  constructor(private databaseName: string = DATABASE_NAME) {}
+
+  async upsert(records: StoredMessageRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const db = await this.open();
+    await db.withTransactionAsync(async () => {
+      for (const record of records) {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO messages (owner_id, id, conversation_id, created_at, payload, iv)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          record.ownerId,
+          record.id,
+          record.conversationId,
+          record.createdAt,
+          record.payload,
+          record.iv
+        );
+      }
+    });
+  }
+
+  async get(ownerId: string, id: string): Promise<StoredMessageRecord | null> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<any>(
+      'SELECT * FROM messages WHERE owner_id = ? AND id = ?',
+      ownerId,
+      id
+    );
+
+    return row ? this.toRecord(row) : null;
+  }
+
+  async getRecent(ownerId: string, perConversation: number): Promise<StoredMessageRecord[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<any>(
+      `SELECT * FROM (
+         SELECT *, ROW_NUMBER() OVER (
+           PARTITION BY conversation_id ORDER BY created_at DESC, id DESC
+         ) AS position
+         FROM messages WHERE owner_id = ?
+       )
+       WHERE position <= ?
+       ORDER BY created_at ASC, id ASC`,
+      ownerId,
+      perConversation
+    );
+
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  async getLatestCreatedAt(ownerId: string): Promise<string | null> {
+    const db = await this.open();
+    const row = await db.getFirstAsync<{ latest: string | null }>(
+      'SELECT MAX(created_at) AS latest FROM messages WHERE owner_id = ?',
+      ownerId
+    );
+
+    return row?.latest ?? null;
+  }
+
+  async index(entries: SearchIndexEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const db = await this.open();
+    await db.withTransactionAsync(async () => {
+      for (const entry of entries) {
+        await db.runAsync(
+          'DELETE FROM search_tokens WHERE owner_id = ? AND message_id = ?',
+          entry.ownerId,
+          entry.messageId
+        );
+        for (const token of entry.tokens) {
+          await db.runAsync(
+            'INSERT OR IGNORE INTO search_tokens (owner_id, token, message_id) VALUES (?, ?, ?)',
+            entry.ownerId,
+            token,
+            entry.messageId
+          );
+        }
+        await db.runAsync(
+          'INSERT OR IGNORE INTO search_documents (owner_id, message_id) VALUES (?, ?)',
+          entry.ownerId,
+          entry.messageId
+        );
+      }
+    });
+  }
+
+  async getUnindexed(ownerId: string, limit: number): Promise<StoredMessageRecord[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<any>(
+      `SELECT m.* FROM messages m
+       LEFT JOIN search_documents d ON d.owner_id = m.owner_id AND d.message_id = m.id
+       WHERE m.owner_id = ? AND d.message_id IS NULL
+       LIMIT ?`,
+      ownerId,
+      limit
+    );
+
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  async search(
+    ownerId: string,
+    tokens: string[],
+    conversationId: string | null,
+    limit: number
+  ): Promise<StoredMessageRecord[]> {
+    if (tokens.length === 0) return [];
+
+    const db = await this.open();
+    const rows = await db.getAllAsync<any>(
+      `SELECT * FROM messages
+       WHERE owner_id = ?
+         AND (? IS NULL OR conversation_id = ?)
+         AND id IN (
+           SELECT message_id FROM search_tokens
+           WHERE owner_id = ? AND token IN (${tokens.map(() => '?').join(', ')})
+           GROUP BY message_id
+           HAVING COUNT(*) = ?
+         )
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`,
+      ownerId,
+      conversationId,
+      conversationId,
+      ownerId,
+      ...tokens,
+      tokens.length,
+      limit
+    );
+
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  async clear(ownerId: string): Promise<void> {
+    const db = await this.open();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM messages WHERE owner_id = ?', ownerId);
+      await db.runAsync('DELETE FROM search_tokens WHERE owner_id = ?', ownerId);
+      await db.runAsync('DELETE FROM search_documents WHERE owner_id = ?', ownerId);
+    });
+  }
+
+  private open(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.database) {
+      this.database = SQLite.openDatabaseAsync(this.databaseName).then(async (db) => {
+        await db.execAsync(`
+          CREATE TABLE IF NOT EXISTS messages (
+            owner_id TEXT NOT NULL,
+            id TEXT NOT NULL,
+            conversation_id TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            payload TEXT NOT NULL,
+            iv TEXT NOT NULL,
+            PRIMARY KEY (owner_id, id)
+          );
+          CREATE INDEX IF NOT EXISTS idx_messages_conversation
+            ON messages (owner_id, conversation_id, created_at);
+          CREATE TABLE IF NOT EXISTS search_tokens (
+            owner_id TEXT NOT NULL,
+            token TEXT NOT NULL,
+            message_id TEXT NOT NULL,
+            PRIMARY KEY (owner_id, token, message_id)
+          );
+          CREATE INDEX IF NOT EXISTS idx_search_tokens_message
+            ON search_tokens (owner_id, message_id);
+          -- Messages whose tokens are in search_tokens, including ones without any
+          CREATE TABLE IF NOT EXISTS search_documents (
+            owner_id TEXT NOT NULL,
+            message_id TEXT NOT NULL,
+            PRIMARY KEY (owner_id, message_id)
+          );
+        `);
+        return db;
+      });
+    }
+    return this.database;
+  }
+
+  private toRecord(row: any): StoredMessageRecord {
+    return {
+      ownerId: row.owner_id,
+      id: row.id,
+      conversationId: row.conversation_id,
+      createdAt: row.created_at,
+      payload: row.payload,
+      iv: row.iv,
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { supabase } from '../lib/supabase';
+import { ReportReason } from '../types/chat';
+
+const REPORT_DETAILS_MAX_LENGTH = 1000;
+
+export const REPORT_REASONS: { reason: ReportReason; label: string }[] = [
+  { reason: 'spam', label: 'Spam' },
+  { reason: 'harassment', label: 'Harassment' },
+  { reason: 'inappropriate', label: 'Inappropriate content' },
+  { reason: 'other', label: 'Something else' },
+];
+
+export interface UserReport {
+  reportedUserId: string;
+  reason: ReportReason;
+  messageIds: string[];   // Messages from the reported user, if the report is about any
+  details?: string;
+}
+
+/**
+ * Blocking and reporting users
+ *
+ * Flow:
+ * 1. Blocking someone adds a row to blocks that only the blocker can see;
+ *    RLS then rejects direct messages and contact requests between the two
+ *    users in both directions
+ * 2. Group messages from blocked users can't be rejected for one member, so
+ *    ChatContext drops them (and their reactions, typing and requests) as
+ *    they arrive
+ * 3. A report records the reason and the ids of the reported messages. The
+ *    messages stay end-to-end encrypted; RLS checks that they were sent by
+ *    the reported user to someone who can see them.
+ */
+export class ModerationService {
+  static async getBlockedUserIds(userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('blocks')
+      .select('blocked_id')
+      .eq('blocker_id', userId);
+
+    if (error) {
+      console.error('Error fetching blocked users:', error);
+      return [];
+    }
+
+    return data.map((row) => row.blocked_id);
+  }
+
+  static async blockUser(userId: string, blockedId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('blocks')
+      .upsert(
+        { blocker_id: userId, blocked_id: blockedId },
+        { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error blocking user:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  static async unblockUser(userId: string, blockedId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('blocks')
+      .delete()
+      .eq('blocker_id', userId)
+      .eq('blocked_id', blockedId);
+
+    if (error) {
+      console.error('Error unblocking user:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  static async reportUser(userId: string, report: UserReport): Promise<boolean> {
+    const { error } = await supabase.from('reports').insert({
+      reporter_id: userId,
+      reported_user_id: report.reportedUserId,
+      reason: report.reason,
+      message_ids: report.messageIds,
+      details: report.details?.trim().slice(0, REPORT_DETAILS_MAX_LENGTH) || null,
+    });
+
+    if (error) {
+      console.error('Error reporting user:', error);
+      return false;
+    }
+
+    return true;
+  }
+}
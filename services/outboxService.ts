@@ -0,0 +1,198 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Message } from '../types/chat';
+import { ChatService, OutgoingMessage } from './chatService';
+import { EncryptionService, SealedData } from './encryptionService';
+
+const OUTBOX_STORAGE_KEY_PREFIX = 'message_outbox:';
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export interface DeliveredMessage {
+  message: Message;  // Sender's local copy, still with its queued status and time
+  createdAt: string; // Server timestamp
+}
+
+export interface FlushResult {
+  delivered: DeliveredMessage[];
+  failed: Message[];   // Rejected for good and dropped from the queue
+}
+
+/**
+ * A queued message. Ratchet-encrypted rows can't be decrypted by their
+ * sender, so the local copy is kept alongside, sealed with the device key.
+ */
+export interface OutboxEntry extends Pick<OutgoingMessage, 'row' | 'upload'> {
+  local: SealedData;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+/**
+ * Offline outbox
+ *
+ * Flow:
+ * 1. enqueue() persists the encrypted message in AsyncStorage
+ * 2. flush() delivers due entries oldest first. A conversation stops at its
+ *    first failure so it keeps its order; other conversations carry on.
+ * 3. Network and server errors back off exponentially until connectivity
+ *    returns
+ * 4. Rows the database rejects (RLS, e.g. after the recipient blocked the
+ *    user, or a constraint) can never succeed, so they are dropped and
+ *    reported as failed
+ */
+export class OutboxService {
+  // Serializes read-modify-write cycles on the stored queue
+  private static pending: Promise<unknown> = Promise.resolve();
+  private static flushing: Promise<FlushResult> | null = null;
+
+  static async getEntries(userId: string): Promise<OutboxEntry[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.getStorageKey(userId));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading outbox:', error);
+      return [];
+    }
+  }
+
+  static async enqueue(userId: string, outgoing: OutgoingMessage): Promise<void> {
+    const now = Date.now();
+    const local = await EncryptionService.sealLocal(JSON.stringify(outgoing.message));
+    await this.update(userId, (entries) => [
+      ...entries,
+      {
+        row: outgoing.row,
+        upload: outgoing.upload,
+        local,
+        queuedAt: now,
+        attempts: 0,
+        nextAttemptAt: now,
+      },
+    ]);
+  }
+
+  /**
+   * The sender's copies of every queued message, for display after a restart
+   */
+  static async getPendingMessages(userId: string): Promise<Message[]> {
+    const entries = await this.getEntries(userId);
+    const messages = await Promise.all(
+      entries.map((entry) => this.toMessage(entry).catch(() => null))
+    );
+    return messages.filter((message): message is Message => message !== null);
+  }
+
+  /**
+   * Deliver every entry that is due
+   * @param force - Ignore backoff, e.g. because the device just came back online
+   * @returns The messages that reached the server, and those rejected for good
+   */
+  static flush(userId: string, force = false): Promise<FlushResult> {
+    if (!this.flushing) {
+      this.flushing = this.deliverDue(userId, force).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * When the next retry is due, or null if the outbox is empty
+   */
+  static async getNextAttemptAt(userId: string): Promise<number | null> {
+    const entries = await this.getEntries(userId);
+    if (entries.length === 0) return null;
+
+    return Math.min(...entries.map((entry) => entry.nextAttemptAt));
+  }
+
+  static getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  /**
+   * Whether retrying can't help: 42501 is an RLS rejection, class 23 an
+   * integrity constraint violation. 23505 (unique violation) means the
+   * message is already stored, so it never counts.
+   */
+  static isPermanentFailure(errorCode?: string): boolean {
+    return (
+      !!errorCode &&
+      errorCode !== '23505' &&
+      (errorCode === '42501' || errorCode.startsWith('23'))
+    );
+  }
+
+  private static async deliverDue(userId: string, force: boolean): Promise<FlushResult> {
+    const entries = await this.getEntries(userId);
+    const result: FlushResult = { delivered: [], failed: [] };
+    // Conversations with an earlier message still queued; later ones wait behind it
+    const held = new Set<string>();
+
+    for (const entry of entries) {
+      const conversationKey = this.getConversationKey(entry);
+      if (held.has(conversationKey)) continue;
+      if (!force && entry.nextAttemptAt > Date.now()) {
+        held.add(conversationKey);
+        continue;
+      }
+
+      const { createdAt, errorCode } = await ChatService.deliverMessage(entry);
+      if (createdAt) {
+        await this.remove(userId, entry);
+        result.delivered.push({ message: await this.toMessage(entry), createdAt });
+      } else if (this.isPermanentFailure(errorCode)) {
+        await this.remove(userId, entry);
+        result.failed.push({ ...(await this.toMessage(entry)), status: 'failed' });
+      } else {
+        held.add(conversationKey);
+        await this.update(userId, (current) =>
+          current.map((e) =>
+            e.row.id === entry.row.id
+              ? {
+                  ...e,
+                  attempts: e.attempts + 1,
+                  nextAttemptAt: Date.now() + this.getRetryDelay(e.attempts + 1),
+                }
+              : e
+          )
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private static remove(userId: string, entry: OutboxEntry): Promise<void> {
+    return this.update(userId, (current) => current.filter((e) => e.row.id !== entry.row.id));
+  }
+
+  /**
+   * Group id, or the recipient's id for direct messages
+   */
+  private static getConversationKey(entry: OutboxEntry): string {
+    return entry.row.group_id || entry.row.receiver_id || '';
+  }
+
+  private static async toMessage(entry: OutboxEntry): Promise<Message> {
+    const message = JSON.parse(await EncryptionService.openLocal(entry.local));
+    return { ...message, timestamp: new Date(entry.queuedAt), status: 'sending' };
+  }
+
+  private static update(
+    userId: string,
+    change: (entries: OutboxEntry[]) => OutboxEntry[]
+  ): Promise<void> {
+    const next = this.pending.then(async () => {
+      const entries = change(await this.getEntries(userId));
+      await AsyncStorage.setItem(this.getStorageKey(userId), JSON.stringify(entries));
+    });
+    this.pending = next.catch((error) => console.error('Error saving outbox:', error));
+    return next;
+  }
+
+  private static getStorageKey(userId: string): string {
+    return `${OUTBOX_STORAGE_KEY_PREFIX}${userId}`;
+  }
+}
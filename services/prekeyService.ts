@@ -0,0 +1,308 @@
+import * as SecureStore from 'expo-secure-store';
+import { ed25519, x25519 } from '@noble/curves/ed25519';
+import { supabase } from '../lib/supabase';
+import { EncryptionService } from './encryptionService';
+
+const IDENTITY_KEY_STORAGE_KEY = 'identity_key';
+const SIGNED_PREKEY_STORAGE_KEY = 'signed_prekey';
+const ONE_TIME_PREKEYS_STORAGE_KEY = 'one_time_prekeys';
+const ONE_TIME_PREKEY_STORAGE_PREFIX = 'one_time_prekey_';
+const ONE_TIME_PREKEY_BATCH_SIZE = 20;
+const MIN_ONE_TIME_PREKEYS = 5;
+
+export interface KeyPair {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+}
+
+export interface IdentityKeys {
+  dh: KeyPair;                   // X25519, used in the X3DH handshake
+  signing: KeyPair;              // Ed25519, signs the signed prekey
+}
+
+export interface PrekeyBundle {
+  identityKey: Uint8Array;
+  signedPrekey: { id: number; publicKey: Uint8Array };
+  oneTimePrekey?: { id: number; publicKey: Uint8Array };
+}
+
+/**
+ * X3DH key material
+ *
+ * Flow:
+ * 1. Each device keeps an identity key pair, a signed prekey and a batch of
+ *    one-time prekeys in SecureStore
+ * 2. publishPrekeys() uploads the public halves to the `prekeys` table and
+ *    tops up one-time prekeys as contacts consume them
+ * 3. claimBundle() fetches one device's bundle (consuming one one-time
+ *    prekey) and checks the signed prekey against its identity key
+ */
+export class PrekeyService {
+  static generateKeyPair(): KeyPair {
+    const privateKey = x25519.utils.randomSecretKey();
+    return { privateKey, publicKey: x25519.getPublicKey(privateKey) };
+  }
+
+  static async getIdentityKeys(): Promise<IdentityKeys> {
+    const stored = await SecureStore.getItemAsync(IDENTITY_KEY_STORAGE_KEY);
+    if (stored) {
+      const { dh, signing } = JSON.parse(stored);
+      const dhPrivateKey = EncryptionService.base64ToBytes(dh);
+      const signingPrivateKey = EncryptionService.base64ToBytes(signing);
+
+      return {
+        dh: { privateKey: dhPrivateKey, publicKey: x25519.getPublicKey(dhPrivateKey) },
+        signing: { privateKey: signingPrivateKey, publicKey: ed25519.getPublicKey(signingPrivateKey) },
+      };
+    }
+
+    const signingPrivateKey = ed25519.utils.randomSecretKey();
+    const identity = {
+      dh: this.generateKeyPair(),
+      signing: { privateKey: signingPrivateKey, publicKey: ed25519.getPublicKey(signingPrivateKey) },
+    };
+    await SecureStore.setItemAsync(
+      IDENTITY_KEY_STORAGE_KEY,
+      JSON.stringify({
+        dh: EncryptionService.arrayBufferToBase64(identity.dh.privateKey),
+        signing: EncryptionService.arrayBufferToBase64(identity.signing.privateKey),
+      })
+    );
+    return identity;
+  }
+
+  static async getSignedPrekey(): Promise<{ id: number; keyPair: KeyPair }> {
+    const stored = await SecureStore.getItemAsync(SIGNED_PREKEY_STORAGE_KEY);
+    if (stored) {
+      const { id, privateKey } = JSON.parse(stored);
+      const privateKeyBytes = EncryptionService.base64ToBytes(privateKey);
+      return {
+        id,
+        keyPair: { privateKey: privateKeyBytes, publicKey: x25519.getPublicKey(privateKeyBytes) },
+      };
+    }
+
+    const signedPrekey = { id: 1, keyPair: this.generateKeyPair() };
+    await SecureStore.setItemAsync(
+      SIGNED_PREKEY_STORAGE_KEY,
+      JSON.stringify({
+        id: signedPrekey.id,
+        privateKey: EncryptionService.arrayBufferToBase64(signedPrekey.keyPair.privateKey),
+      })
+    );
+    return signedPrekey;
+  }
+
+  static async getOneTimePrekey(id: number): Promise<KeyPair | null> {
+    const stored = await SecureStore.getItemAsync(`${ONE_TIME_PREKEY_STORAGE_PREFIX}${id}`);
+    if (!stored) return null;
+
+    const privateKey = EncryptionService.base64ToBytes(stored);
+    return { privateKey, publicKey: x25519.getPublicKey(privateKey) };
+  }
+
+  /**
+   * Forget a one-time prekey once a handshake has used it
+   */
+  static async removeOneTimePrekey(id: number): Promise<void> {
+    const index = await this.getOneTimePrekeyIndex();
+    await SecureStore.deleteItemAsync(`${ONE_TIME_PREKEY_STORAGE_PREFIX}${id}`);
+    await this.saveOneTimePrekeyIndex({ ...index, ids: index.ids.filter((i) => i !== id) });
+  }
+
+  /**
+   * Make sure this device's identity, signed prekey and enough one-time
+   * prekeys are published
+   */
+  static async publishPrekeys(userId: string, deviceId: string): Promise<void> {
+    const identity = await this.getIdentityKeys();
+    const signedPrekey = await this.getSignedPrekey();
+    const identityKey = EncryptionService.arrayBufferToBase64(identity.dh.publicKey);
+    const signedPublicKey = EncryptionService.arrayBufferToBase64(signedPrekey.keyPair.publicKey);
+
+    const { data: published, error } = await supabase
+      .from('prekeys')
+      .select('kind, key_id, public_key')
+      .eq('device_id', deviceId);
+
+    if (error) {
+      console.error('Error fetching prekeys:', error);
+      return;
+    }
+
+    let rows = published;
+    const publishedIdentity = rows.find((row) => row.kind === 'identity');
+    if (publishedIdentity?.public_key !== identityKey) {
+      // Reinstall: prekeys published with another identity are useless
+      const { error: deleteError } = await supabase.from('prekeys').delete().eq('device_id', deviceId);
+      if (deleteError) {
+        console.error('Error replacing prekeys:', deleteError);
+        return;
+      }
+      rows = [];
+    }
+
+    const inserts = [];
+    if (!rows.some((row) => row.kind === 'identity')) {
+      inserts.push({
+        user_id: userId,
+        device_id: deviceId,
+        kind: 'identity',
+        key_id: 1,
+        public_key: identityKey,
+        signing_key: EncryptionService.arrayBufferToBase64(identity.signing.publicKey),
+      });
+    }
+    if (!rows.some((row) => row.kind === 'signed' && row.public_key === signedPublicKey)) {
+      inserts.push({
+        user_id: userId,
+        device_id: deviceId,
+        kind: 'signed',
+        key_id: signedPrekey.id,
+        public_key: signedPublicKey,
+        signature: EncryptionService.arrayBufferToBase64(
+          ed25519.sign(signedPrekey.keyPair.publicKey, identity.signing.privateKey)
+        ),
+      });
+    }
+
+    const oneTimeCount = rows.filter((row) => row.kind === 'one_time').length;
+    if (oneTimeCount < MIN_ONE_TIME_PREKEYS) {
+      const index = await this.getOneTimePrekeyIndex();
+      const newIds: number[] = [];
+
+      for (let i = 0; i < ONE_TIME_PREKEY_BATCH_SIZE; i++) {
+        const id = index.nextId + i;
+        const keyPair = this.generateKeyPair();
+        await SecureStore.setItemAsync(
+          `${ONE_TIME_PREKEY_STORAGE_PREFIX}${id}`,
+          EncryptionService.arrayBufferToBase64(keyPair.privateKey)
+        );
+        newIds.push(id);
+        inserts.push({
+          user_id: userId,
+          device_id: deviceId,
+          kind: 'one_time',
+          key_id: id,
+          public_key: EncryptionService.arrayBufferToBase64(keyPair.publicKey),
+        });
+      }
+
+      await this.saveOneTimePrekeyIndex({
+        nextId: index.nextId + ONE_TIME_PREKEY_BATCH_SIZE,
+        ids: [...index.ids, ...newIds],
+      });
+    }
+
+    if (inserts.length === 0) return;
+
+    const { error: insertError } = await supabase.from('prekeys').insert(inserts);
+    if (insertError) {
+      console.error('Error publishing prekeys:', insertError);
+    }
+  }
+
+  /**
+   * Fetch a device's prekey bundle, consuming one of its one-time prekeys
+   * @returns null if the device has not published prekeys yet
+   */
+  static async claimBundle(deviceId: string): Promise<PrekeyBundle | null> {
+    const { data, error } = await supabase.rpc('claim_prekey_bundle', {
+      target_device_id: deviceId,
+    });
+
+    if (error) {
+      console.error('Error claiming prekey bundle:', error);
+      return null;
+    }
+
+    const bundle = data as any;
+    if (!bundle?.identity || !bundle?.signed) return null;
+
+    const signedPublicKey = EncryptionService.base64ToBytes(bundle.signed.public_key);
+    const signatureValid = ed25519.verify(
+      EncryptionService.base64ToBytes(bundle.signed.signature),
+      signedPublicKey,
+      EncryptionService.base64ToBytes(bundle.identity.signing_key)
+    );
+    if (!signatureValid) {
+      throw new Error('Signed prekey signature is invalid');
+    }
+
+    return {
+      identityKey: EncryptionService.base64ToBytes(bundle.identity.public_key),
+      signedPrekey: { id: bundle.signed.key_id, publicKey: signedPublicKey },
+      oneTimePrekey: bundle.one_time
+        ? {
+            id: bundle.one_time.key_id,
+            publicKey: EncryptionService.base64ToBytes(bundle.one_time.public_key),
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * A device's currently published identity key
+   */
+  static async getIdentityKey(deviceId: string): Promise<Uint8Array | null> {
+    const { data, error } = await supabase
+      .from('prekeys')
+      .select('public_key')
+      .eq('device_id', deviceId)
+      .eq('kind', 'identity')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching identity key:', error);
+      return null;
+    }
+
+    return data ? EncryptionService.base64ToBytes(data.public_key) : null;
+  }
+
+  /**
+   * Published identity keys of some devices (see VerificationService)
+   * @returns Map of device id to its X25519 and Ed25519 identity keys, or
+   *   null if they could not be fetched
+   */
+  static async getPublishedIdentityKeys(
+    deviceIds: string[]
+  ): Promise<Record<string, { dh: string; signing: string }> | null> {
+    const { data, error } = await supabase
+      .from('prekeys')
+      .select('device_id, public_key, signing_key')
+      .in('device_id', deviceIds)
+      .eq('kind', 'identity');
+
+    if (error) {
+      console.error('Error fetching identity keys:', error);
+      return null;
+    }
+
+    return Object.fromEntries(
+      data.map((row) => [row.device_id, { dh: row.public_key, signing: row.signing_key || '' }])
+    );
+  }
+
+  /**
+   * Clear all X3DH keys (e.g., on logout)
+   */
+  static async clearKeys(): Promise<void> {
+    const index = await this.getOneTimePrekeyIndex();
+    for (const id of index.ids) {
+      await SecureStore.deleteItemAsync(`${ONE_TIME_PREKEY_STORAGE_PREFIX}${id}`);
+    }
+    await SecureStore.deleteItemAsync(ONE_TIME_PREKEYS_STORAGE_KEY);
+    await SecureStore.deleteItemAsync(SIGNED_PREKEY_STORAGE_KEY);
+    await SecureStore.deleteItemAsync(IDENTITY_KEY_STORAGE_KEY);
+  }
+
+  private static async getOneTimePrekeyIndex(): Promise<{ nextId: number; ids: number[] }> {
+    const stored = await SecureStore.getItemAsync(ONE_TIME_PREKEYS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : { nextId: 1, ids: [] };
+  }
+
+  private static async saveOneTimePrekeyIndex(index: { nextId: number; ids: number[] }): Promise<void> {
+    await SecureStore.setItemAsync(ONE_TIME_PREKEYS_STORAGE_KEY, JSON.stringify(index));
+  }
+}
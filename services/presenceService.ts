@@ -0,0 +1,105 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+const PRESENCE_TOPIC_PREFIX = 'presence:';
+
+/**
+ * Online presence over private Supabase Realtime presence channels
+ *
+ * Flow:
+ * 1. Every user has their own private channel, `presence:<user id>`. Only
+ *    they may track themselves on it, and only users they have added as a
+ *    contact may join it (realtime.messages policies in supabase-schema.sql)
+ * 2. The client tracks itself on its own channel while the app is in the
+ *    foreground and untracks when it goes to the background
+ * 3. It joins each contact's channel; the contact is online while anyone
+ *    is tracked there
+ * 4. `last_seen_at` on users is written whenever the client goes offline,
+ *    so contacts who weren't connected at the time can still show it
+ */
+export class PresenceService {
+  /**
+   * Join this user's own presence channel and track them as online
+   */
+  static joinPresence(userId: string): RealtimeChannel {
+    const channel = supabase.channel(this.getTopic(userId), {
+      config: { private: true, presence: { key: userId } },
+    });
+
+    channel.subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        await this.setOnline(channel, userId);
+      }
+    });
+
+    return channel;
+  }
+
+  /**
+   * Follow a contact's presence. Contacts who haven't added this user back
+   * refuse the join, so they just never show as online.
+   * @param onChange - Called whenever the contact comes online or goes offline
+   */
+  static watchPresence(
+    contactId: string,
+    onChange: (isOnline: boolean) => void
+  ): RealtimeChannel {
+    const channel = supabase.channel(this.getTopic(contactId), {
+      config: { private: true },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        onChange(Object.keys(channel.presenceState()).length > 0);
+      })
+      .subscribe();
+
+    return channel;
+  }
+
+  static unwatchPresence(channel: RealtimeChannel): void {
+    supabase.removeChannel(channel);
+  }
+
+  /**
+   * Mark this client as online (app in the foreground)
+   */
+  static async setOnline(channel: RealtimeChannel, userId: string): Promise<void> {
+    const result = await channel.track({
+      user_id: userId,
+      online_at: new Date().toISOString(),
+    });
+
+    if (result !== 'ok') {
+      console.error('Error tracking presence:', result);
+    }
+  }
+
+  /**
+   * Mark this client as offline (app in the background) and persist last seen
+   */
+  static async setOffline(channel: RealtimeChannel, userId: string): Promise<void> {
+    await channel.untrack();
+    await this.updateLastSeen(userId);
+  }
+
+  static async updateLastSeen(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('users')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Error updating last seen:', error);
+    }
+  }
+
+  static async leavePresence(channel: RealtimeChannel, userId: string): Promise<void> {
+    await this.setOffline(channel, userId);
+    await supabase.removeChannel(channel);
+  }
+
+  private static getTopic(userId: string): string {
+    return `${PRESENCE_TOPIC_PREFIX}${userId}`;
+  }
+}
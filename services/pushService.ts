@@ -0,0 +1,223 @@
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import Constants from 'expo-constants';
+import { AppState, Platform } from 'react-native';
+import { supabase } from '../lib/supabase';
+import { Message } from '../types/chat';
+import { ChatService } from './chatService';
+import { DeviceService } from './deviceService';
+import { EncryptionService } from './encryptionService';
+import { MessageCacheService } from './messageCacheService';
+
+const BACKGROUND_NOTIFICATION_TASK = 'beteseb-message-push';
+const MESSAGES_CHANNEL_ID = 'messages';
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Push payload sealed for one device by the push-message edge function
+ */
+interface PushEnvelope {
+  data: string;   // AES-GCM encrypted message row (Base64)
+  key: string;    // AES key wrapped with this device's RSA public key (Base64)
+  keyId: string;
+  iv: string;
+}
+
+/**
+ * Push notifications for new messages
+ *
+ * Flow:
+ * 1. Every device registers its Expo push token in push_tokens (register)
+ * 2. A database trigger hands new messages to the push-message edge function,
+ *    which sends each recipient device the message row sealed for that
+ *    device's key pair, as a data-only push
+ * 3. The background task below opens the envelope, decrypts the message like
+ *    any other and shows the preview as a local notification; nothing
+ *    readable ever passes through the push service
+ * 4. Ratchet keys can only be used once, so the decrypted message is cached
+ *    for the app to read later (see MessageCacheService.saveOutOfOrderMessage)
+ * 5. While the app is open, messages arrive over realtime and pushes are ignored
+ */
+export class PushService {
+  /**
+   * Ask for permission and register this device's push token
+   * @returns false if notifications are not allowed or the token could not be saved
+   */
+  static async register(userId: string): Promise<boolean> {
+    if (Platform.OS !== 'ios' && Platform.OS !== 'android') return false;
+
+    try {
+      let { granted } = await Notifications.getPermissionsAsync();
+      if (!granted) {
+        ({ granted } = await Notifications.requestPermissionsAsync());
+      }
+      if (!granted) return false;
+
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(MESSAGES_CHANNEL_ID, {
+          name: 'Messages',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+
+      const { data: token } = await Notifications.getExpoPushTokenAsync({
+        projectId: Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId,
+      });
+      await Notifications.registerTaskAsync(BACKGROUND_NOTIFICATION_TASK);
+
+      const { error } = await supabase.from('push_tokens').upsert({
+        device_id: await DeviceService.getDeviceId(),
+        user_id: userId,
+        token,
+        platform: Platform.OS,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+
+      return true;
+    } catch (error) {
+      console.error('Error registering for push notifications:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Open a push envelope and decrypt the message inside it
+   */
+  static async decryptNotification(userId: string, envelope: PushEnvelope): Promise<Message | null> {
+    try {
+      const key = await EncryptionService.unwrapMessageKey({
+        encryptedContent: envelope.data,
+        encryptedKey: envelope.key,
+        keyId: envelope.keyId,
+        iv: envelope.iv,
+      });
+      const row = JSON.parse(
+        new TextDecoder().decode(
+          await EncryptionService.decryptWithKey(key, envelope.data, envelope.iv)
+        )
+      );
+
+      // Too large for a push; the edge function only sent where to find it
+      if (row.truncated) {
+        return await ChatService.getMessage(userId, row.id);
+      }
+      return await ChatService.readMessageRow(row, userId);
+    } catch (error) {
+      console.error('Error decrypting push notification:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Call onOpen with the conversation of every message notification the user taps
+   */
+  static subscribeToNotificationTaps(
+    onOpen: (conversationId: string) => void
+  ): Notifications.EventSubscription {
+    return Notifications.addNotificationResponseReceivedListener((response) => {
+      const { conversationId } = response.notification.request.content.data ?? {};
+      if (typeof conversationId === 'string') {
+        onOpen(conversationId);
+      }
+    });
+  }
+
+  /**
+   * Handle a data-only push in the background
+   */
+  static async handleBackgroundNotification(data: Record<string, unknown>): Promise<void> {
+    if (AppState.currentState === 'active') return;
+
+    const envelope = this.getEnvelope(data);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!envelope || !session) return;
+
+    const userId = session.user.id;
+    const message = await this.decryptNotification(userId, envelope);
+    if (!message) return;
+
+    await MessageCacheService.saveOutOfOrderMessage(userId, {
+      conversationId: message.groupId || message.senderId,
+      message,
+    });
+    await this.showMessageNotification(message);
+  }
+
+  private static async showMessageNotification(message: Message): Promise<void> {
+    const conversationId = message.groupId || message.senderId;
+    const [sender, group] = await Promise.all([
+      ChatService.getUserProfile(message.senderId),
+      message.groupId ? ChatService.getGroup(message.groupId) : null,
+    ]);
+    const senderName = sender?.name ?? 'New message';
+
+    let body = message.content;
+    if (message.attachment && !body) {
+      body = message.attachment.mimeType.startsWith('image/') ? 'Photo' : 'File';
+    }
+    if (body.length > PREVIEW_LENGTH) {
+      body = `${body.slice(0, PREVIEW_LENGTH)}…`;
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: group ? group.name : senderName,
+        body: group ? `${senderName}: ${body}` : body,
+        data: { conversationId },
+        ...(Platform.OS === 'android' && { channelId: MESSAGES_CHANNEL_ID }),
+      },
+      trigger: null,
+    });
+  }
+
+  /**
+   * Android delivers the data as a JSON string, iOS as the payload's `body`
+   */
+  private static getEnvelope(data: Record<string, unknown>): PushEnvelope | null {
+    let payload: any = data;
+    if (typeof data.dataString === 'string') {
+      try {
+        payload = JSON.parse(data.dataString);
+      } catch (error) {
+        console.error('Error parsing push payload:', error);
+        return null;
+      }
+    } else if (data.body && typeof data.body === 'object') {
+      payload = data.body;
+    }
+    return payload?.envelope ?? null;
+  }
+}
+
+// Shows banners for notifications this app schedules itself, not for pushes
+// while it is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => {
+    const open = AppState.currentState === 'active';
+    return {
+      shouldShowBanner: !open,
+      shouldShowList: !open,
+      shouldPlaySound: !open,
+      shouldSetBadge: false,
+    };
+  },
+});
+
+// Must be defined when the JS bundle loads, since the OS may start the app
+// only to run it
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(
+  BACKGROUND_NOTIFICATION_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      console.error('Error in push notification task:', error);
+      return;
+    }
+    // Taps on notifications also arrive here; the app handles them when it opens
+    if (!data || 'actionIdentifier' in data) return;
+
+    await PushService.handleBackgroundNotification(data.data);
+  }
+);
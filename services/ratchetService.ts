@@ -0,0 +1,443 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { EncryptionService } from './encryptionService';
+import { PrekeyBundle, PrekeyService } from './prekeyService';
+
+const SESSION_STORAGE_KEY_PREFIX = 'ratchet_sessions:';
+const MAX_SKIPPED_MESSAGE_KEYS = 1000;
+const MAX_SESSIONS_PER_DEVICE = 3;
+const X3DH_INFO = 'BeteSeb X3DH';
+const RATCHET_INFO = 'BeteSeb Ratchet';
+
+/**
+ * X3DH values the responder needs to derive the same session. Sent with
+ * every message until the other device replies, in case the first one is lost.
+ */
+export type PrekeyHeader = {
+  identityKey: string;           // Initiator's X25519 identity key (Base64)
+  ephemeralKey: string;          // Initiator's X3DH ephemeral key (Base64)
+  signedPrekeyId: number;
+  oneTimePrekeyId?: number;
+};
+
+/**
+ * Stored with each wrapped key in `messages.device_keys`
+ */
+export type RatchetHeader = {
+  session: string;               // Session id (the X3DH ephemeral key)
+  dh: string;                    // Sender's current ratchet public key (Base64)
+  pn: number;                    // Length of the previous sending chain
+  n: number;                     // Message number in the current sending chain
+  iv: string;                    // Base64 IV of the wrapped payload
+  prekey?: PrekeyHeader;
+};
+
+interface SessionState {
+  id: string;
+  associatedData: string;        // Initiator identity key || responder identity key (Base64)
+  rootKey: string;
+  sendingRatchetKey: string;     // Private key (Base64); the public half goes in headers
+  receivingRatchetKey?: string;
+  sendingChainKey?: string;
+  receivingChainKey?: string;
+  sendCount: number;
+  receiveCount: number;
+  previousCount: number;
+  skippedKeys: Record<string, string>; // `${ratchet key}:${n}` -> message key
+  prekey?: PrekeyHeader;
+}
+
+interface DeviceSessions {
+  active: string;
+  sessions: Record<string, SessionState>;
+}
+
+const toBase64 = (bytes: Uint8Array): string => EncryptionService.arrayBufferToBase64(bytes);
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => EncryptionService.base64ToBytes(base64);
+
+const concat = (...parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+/**
+ * Forward-secret sessions for direct messages (Signal's X3DH + Double Ratchet)
+ *
+ * Flow:
+ * 1. The first message to a device claims its prekey bundle and runs X3DH
+ *    to agree on a root key
+ * 2. Every message advances a symmetric chain, and every reply performs a new
+ *    Diffie-Hellman ratchet step, so old message keys can't be re-derived
+ * 3. The ratchet only wraps the per-message AES key; content and attachments
+ *    are still encrypted by EncryptionService
+ * 4. Session state is sealed with the device's local storage key
+ * 5. Sessions are between devices, so ChatService wraps each message once
+ *    per device of the recipient and of the sender
+ */
+export class RatchetService {
+  // Ratchet steps for the same device must never interleave
+  private static queues: Record<string, Promise<unknown>> = {};
+
+  /**
+   * Wrap a message key for one device
+   * @returns null if the device has not published prekeys (use RSA instead)
+   */
+  static encrypt(
+    userId: string,
+    deviceId: string,
+    plainData: ArrayBuffer
+  ): Promise<{ header: RatchetHeader; ciphertext: string } | null> {
+    return this.withSessions(userId, deviceId, async (stored) => {
+      let deviceSessions = stored;
+      let state = deviceSessions?.sessions[deviceSessions.active];
+
+      if (!state) {
+        const bundle = await PrekeyService.claimBundle(deviceId);
+        if (!bundle) return { result: null };
+
+        state = await this.initiate(bundle);
+        deviceSessions = this.withSession(deviceSessions, state);
+      }
+
+      const [chainKey, messageKey] = this.chainStep(fromBase64(state.sendingChainKey || ''));
+      const header = {
+        session: state.id,
+        dh: toBase64(x25519.getPublicKey(fromBase64(state.sendingRatchetKey))),
+        pn: state.previousCount,
+        n: state.sendCount,
+      };
+      const encrypted = await this.seal(messageKey, plainData, state.associatedData, header);
+
+      const updated: SessionState = {
+        ...state,
+        sendingChainKey: toBase64(chainKey),
+        sendCount: state.sendCount + 1,
+      };
+
+      return {
+        result: {
+          header: { ...header, iv: encrypted.iv, prekey: state.prekey },
+          ciphertext: encrypted.data,
+        },
+        sessions: this.withSession(deviceSessions, updated),
+      };
+    });
+  }
+
+  /**
+   * Unwrap a message key from another device. State only changes if decryption
+   * succeeds, so a replayed or corrupt message can't break the session.
+   */
+  static decrypt(
+    userId: string,
+    deviceId: string,
+    header: RatchetHeader,
+    ciphertext: string
+  ): Promise<ArrayBuffer> {
+    return this.withSessions(userId, deviceId, async (deviceSessions) => {
+      let state = deviceSessions?.sessions[header.session];
+      let usedOneTimePrekey: number | undefined;
+
+      if (!state) {
+        if (!header.prekey) {
+          throw new Error('No ratchet session for this message');
+        }
+        state = await this.respond(deviceId, header.session, header.prekey);
+        usedOneTimePrekey = header.prekey.oneTimePrekeyId;
+      }
+
+      state = { ...state, skippedKeys: { ...state.skippedKeys } };
+      const skippedId = `${header.dh}:${header.n}`;
+      let messageKey: Uint8Array;
+
+      if (state.skippedKeys[skippedId]) {
+        messageKey = fromBase64(state.skippedKeys[skippedId]);
+        delete state.skippedKeys[skippedId];
+      } else {
+        if (header.dh !== state.receivingRatchetKey) {
+          this.skipMessageKeys(state, header.pn);
+          this.ratchetStep(state, header.dh);
+        }
+        this.skipMessageKeys(state, header.n);
+
+        const [chainKey, nextMessageKey] = this.chainStep(fromBase64(state.receivingChainKey || ''));
+        state.receivingChainKey = toBase64(chainKey);
+        state.receiveCount += 1;
+        messageKey = nextMessageKey;
+      }
+
+      const plainData = await this.open(messageKey, ciphertext, state.associatedData, header);
+
+      if (usedOneTimePrekey !== undefined) {
+        await PrekeyService.removeOneTimePrekey(usedOneTimePrekey);
+      }
+
+      // The other device has our session now, so the X3DH header can be dropped
+      const updated: SessionState = { ...state, prekey: undefined };
+      return {
+        result: plainData,
+        sessions: { ...this.withSession(deviceSessions, updated), active: updated.id },
+      };
+    });
+  }
+
+  /**
+   * Delete all ratchet sessions (e.g., on logout)
+   */
+  static async clearSessions(userId: string): Promise<void> {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(
+      keys.filter((key) => key.startsWith(`${SESSION_STORAGE_KEY_PREFIX}${userId}:`))
+    );
+  }
+
+  /**
+   * X3DH as the initiator
+   */
+  private static async initiate(bundle: PrekeyBundle): Promise<SessionState> {
+    const identity = await PrekeyService.getIdentityKeys();
+    const ephemeral = PrekeyService.generateKeyPair();
+
+    const secrets = [
+      x25519.getSharedSecret(identity.dh.privateKey, bundle.signedPrekey.publicKey),
+      x25519.getSharedSecret(ephemeral.privateKey, bundle.identityKey),
+      x25519.getSharedSecret(ephemeral.privateKey, bundle.signedPrekey.publicKey),
+    ];
+    if (bundle.oneTimePrekey) {
+      secrets.push(x25519.getSharedSecret(ephemeral.privateKey, bundle.oneTimePrekey.publicKey));
+    }
+
+    const sharedKey = this.deriveSharedKey(secrets);
+    const sendingRatchetKey = PrekeyService.generateKeyPair();
+    const [rootKey, sendingChainKey] = this.rootStep(
+      sharedKey,
+      x25519.getSharedSecret(sendingRatchetKey.privateKey, bundle.signedPrekey.publicKey)
+    );
+
+    return {
+      id: toBase64(ephemeral.publicKey),
+      associatedData: toBase64(concat(identity.dh.publicKey, bundle.identityKey)),
+      rootKey: toBase64(rootKey),
+      sendingRatchetKey: toBase64(sendingRatchetKey.privateKey),
+      receivingRatchetKey: toBase64(bundle.signedPrekey.publicKey),
+      sendingChainKey: toBase64(sendingChainKey),
+      sendCount: 0,
+      receiveCount: 0,
+      previousCount: 0,
+      skippedKeys: {},
+      prekey: {
+        identityKey: toBase64(identity.dh.publicKey),
+        ephemeralKey: toBase64(ephemeral.publicKey),
+        signedPrekeyId: bundle.signedPrekey.id,
+        oneTimePrekeyId: bundle.oneTimePrekey?.id,
+      },
+    };
+  }
+
+  /**
+   * X3DH as the responder, from the initiator's prekey header
+   */
+  private static async respond(
+    deviceId: string,
+    sessionId: string,
+    prekey: PrekeyHeader
+  ): Promise<SessionState> {
+    const identity = await PrekeyService.getIdentityKeys();
+    const signedPrekey = await PrekeyService.getSignedPrekey();
+    if (signedPrekey.id !== prekey.signedPrekeyId) {
+      throw new Error('Signed prekey is no longer available');
+    }
+
+    // The identity in the header must be the one the device published
+    const deviceIdentity = await PrekeyService.getIdentityKey(deviceId);
+    if (!deviceIdentity || toBase64(deviceIdentity) !== prekey.identityKey) {
+      throw new Error('Identity key does not match the device');
+    }
+
+    const ephemeralKey = fromBase64(prekey.ephemeralKey);
+    const secrets = [
+      x25519.getSharedSecret(signedPrekey.keyPair.privateKey, deviceIdentity),
+      x25519.getSharedSecret(identity.dh.privateKey, ephemeralKey),
+      x25519.getSharedSecret(signedPrekey.keyPair.privateKey, ephemeralKey),
+    ];
+    if (prekey.oneTimePrekeyId !== undefined) {
+      const oneTimePrekey = await PrekeyService.getOneTimePrekey(prekey.oneTimePrekeyId);
+      if (!oneTimePrekey) {
+        throw new Error('One-time prekey has already been used');
+      }
+      secrets.push(x25519.getSharedSecret(oneTimePrekey.privateKey, ephemeralKey));
+    }
+
+    return {
+      id: sessionId,
+      associatedData: toBase64(concat(deviceIdentity, identity.dh.publicKey)),
+      rootKey: toBase64(this.deriveSharedKey(secrets)),
+      sendingRatchetKey: toBase64(signedPrekey.keyPair.privateKey),
+      sendCount: 0,
+      receiveCount: 0,
+      previousCount: 0,
+      skippedKeys: {},
+    };
+  }
+
+  /**
+   * Diffie-Hellman ratchet step on receiving a new ratchet key
+   */
+  private static ratchetStep(state: SessionState, theirRatchetKey: string): void {
+    const theirKey = fromBase64(theirRatchetKey);
+    const [receivingRootKey, receivingChainKey] = this.rootStep(
+      fromBase64(state.rootKey),
+      x25519.getSharedSecret(fromBase64(state.sendingRatchetKey), theirKey)
+    );
+
+    const sendingRatchetKey = PrekeyService.generateKeyPair();
+    const [rootKey, sendingChainKey] = this.rootStep(
+      receivingRootKey,
+      x25519.getSharedSecret(sendingRatchetKey.privateKey, theirKey)
+    );
+
+    state.previousCount = state.sendCount;
+    state.sendCount = 0;
+    state.receiveCount = 0;
+    state.receivingRatchetKey = theirRatchetKey;
+    state.receivingChainKey = toBase64(receivingChainKey);
+    state.sendingRatchetKey = toBase64(sendingRatchetKey.privateKey);
+    state.sendingChainKey = toBase64(sendingChainKey);
+    state.rootKey = toBase64(rootKey);
+  }
+
+  /**
+   * Keep keys for messages that arrive out of order
+   */
+  private static skipMessageKeys(state: SessionState, until: number): void {
+    if (!state.receivingChainKey || !state.receivingRatchetKey) return;
+    if (until - state.receiveCount > MAX_SKIPPED_MESSAGE_KEYS) {
+      throw new Error('Too many skipped messages');
+    }
+
+    let chainKey: Uint8Array = fromBase64(state.receivingChainKey);
+    while (state.receiveCount < until) {
+      const [nextChainKey, messageKey] = this.chainStep(chainKey);
+      state.skippedKeys[`${state.receivingRatchetKey}:${state.receiveCount}`] = toBase64(messageKey);
+      chainKey = nextChainKey;
+      state.receiveCount += 1;
+    }
+    state.receivingChainKey = toBase64(chainKey);
+  }
+
+  private static deriveSharedKey(secrets: Uint8Array[]): Uint8Array {
+    // 32 0xFF bytes first, as in the X3DH spec for X25519
+    return hkdf(sha256, concat(new Uint8Array(32).fill(0xff), ...secrets), new Uint8Array(32), X3DH_INFO, 32);
+  }
+
+  private static rootStep(rootKey: Uint8Array, dhOutput: Uint8Array): [Uint8Array, Uint8Array] {
+    const output = hkdf(sha256, dhOutput, rootKey, RATCHET_INFO, 64);
+    return [output.slice(0, 32), output.slice(32)];
+  }
+
+  /**
+   * @returns The next chain key and this step's message key
+   */
+  private static chainStep(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+    return [hmac(sha256, chainKey, Uint8Array.of(2)), hmac(sha256, chainKey, Uint8Array.of(1))];
+  }
+
+  private static async seal(
+    messageKey: Uint8Array,
+    plainData: ArrayBuffer,
+    associatedData: string,
+    header: Omit<RatchetHeader, 'iv' | 'prekey'>
+  ): Promise<{ data: string; iv: string }> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(messageKey), { name: 'AES-GCM' }, false, ['encrypt']);
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: this.getAuthenticatedData(associatedData, header) },
+      key,
+      plainData
+    );
+
+    return { data: EncryptionService.arrayBufferToBase64(encrypted), iv: toBase64(iv) };
+  }
+
+  private static async open(
+    messageKey: Uint8Array,
+    ciphertext: string,
+    associatedData: string,
+    header: RatchetHeader
+  ): Promise<ArrayBuffer> {
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(messageKey), { name: 'AES-GCM' }, false, ['decrypt']);
+    return await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64(header.iv),
+        additionalData: this.getAuthenticatedData(associatedData, header),
+      },
+      key,
+      EncryptionService.base64ToArrayBuffer(ciphertext)
+    );
+  }
+
+  /**
+   * Binds the ciphertext to both identities and the ratchet header
+   */
+  private static getAuthenticatedData(
+    associatedData: string,
+    header: Omit<RatchetHeader, 'iv' | 'prekey'>
+  ): Uint8Array<ArrayBuffer> {
+    const headerData = JSON.stringify([header.session, header.dh, header.pn, header.n]);
+    return concat(fromBase64(associatedData), new TextEncoder().encode(headerData));
+  }
+
+  private static withSession(
+    deviceSessions: DeviceSessions | null,
+    state: SessionState
+  ): DeviceSessions {
+    // Move the session to the end, so sessions stay ordered by last use
+    const { [state.id]: _previous, ...others } = deviceSessions?.sessions ?? {};
+    const sessions = { ...others, [state.id]: state };
+
+    // Keep the most recently used few so late messages on older ones still decrypt
+    const ids = Object.keys(sessions);
+    const stale = ids.slice(0, Math.max(ids.length - MAX_SESSIONS_PER_DEVICE, 0));
+    stale.forEach((id) => delete sessions[id]);
+
+    return { active: deviceSessions?.active ?? state.id, sessions };
+  }
+
+  /**
+   * Load, change and save a device's sessions, one operation at a time
+   */
+  private static withSessions<T>(
+    userId: string,
+    deviceId: string,
+    change: (
+      sessions: DeviceSessions | null
+    ) => Promise<{ result: T; sessions?: DeviceSessions }>
+  ): Promise<T> {
+    const storageKey = `${SESSION_STORAGE_KEY_PREFIX}${userId}:${deviceId}`;
+    const previous = this.queues[storageKey] || Promise.resolve();
+
+    const next = previous.then(async () => {
+      const stored = await AsyncStorage.getItem(storageKey);
+      const sessions = stored ? JSON.parse(await EncryptionService.openLocal(JSON.parse(stored))) : null;
+
+      const { result, sessions: updated } = await change(sessions);
+      if (updated) {
+        const sealed = await EncryptionService.sealLocal(JSON.stringify(updated));
+        await AsyncStorage.setItem(storageKey, JSON.stringify(sealed));
+      }
+      return result;
+    });
+
+    this.queues[storageKey] = next.catch(() => {});
+    return next;
+  }
+}
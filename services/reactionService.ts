@@ -0,0 +1,146 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { Reaction } from '../types/chat';
+
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Message ids per request, so the `in` filter stays within URL limits
+const MESSAGE_IDS_PER_REQUEST = 100;
+
+/**
+ * One emoji's reactions on a message
+ */
+export interface ReactionSummary {
+  emoji: string;
+  userIds: string[];          // In the order they reacted
+  ownReactionId?: string;     // Set when the current user is one of them
+}
+
+/**
+ * Emoji reactions on messages
+ *
+ * Flow:
+ * 1. Reactions are rows in message_reactions, visible to everyone who can
+ *    see the message (RLS); the emoji itself is not encrypted
+ * 2. Adding the same emoji again removes it, so each user has at most one
+ *    of every emoji on a message
+ * 3. Realtime INSERT and DELETE events keep every participant in sync. DELETE
+ *    events only carry the row id, so clients look reactions up by id.
+ */
+export class ReactionService {
+  static async getReactions(messageIds: string[]): Promise<Reaction[]> {
+    const reactions: Reaction[] = [];
+
+    for (let i = 0; i < messageIds.length; i += MESSAGE_IDS_PER_REQUEST) {
+      const { data, error } = await supabase
+        .from('message_reactions')
+        .select('*')
+        .in('message_id', messageIds.slice(i, i + MESSAGE_IDS_PER_REQUEST))
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching reactions:', error);
+        return reactions;
+      }
+
+      reactions.push(...data.map((row) => this.toReaction(row)));
+    }
+
+    return reactions;
+  }
+
+  static async addReaction(
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<Reaction | null> {
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .insert({ message_id: messageId, user_id: userId, emoji })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding reaction:', error);
+      return null;
+    }
+
+    return this.toReaction(data);
+  }
+
+  static async removeReaction(reactionId: string): Promise<boolean> {
+    const { error } = await supabase.from('message_reactions').delete().eq('id', reactionId);
+
+    if (error) {
+      console.error('Error removing reaction:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Group a message's reactions by emoji, most used first
+   */
+  static summarize(reactions: Reaction[], userId: string): ReactionSummary[] {
+    const summaries: ReactionSummary[] = [];
+
+    for (const reaction of reactions) {
+      let summary = summaries.find((s) => s.emoji === reaction.emoji);
+      if (!summary) {
+        summary = { emoji: reaction.emoji, userIds: [] };
+        summaries.push(summary);
+      }
+
+      summary.userIds.push(reaction.userId);
+      if (reaction.userId === userId) {
+        summary.ownReactionId = reaction.id;
+      }
+    }
+
+    return summaries.sort((a, b) => b.userIds.length - a.userIds.length);
+  }
+
+  /**
+   * Listen for reactions being added or removed on messages the user can see
+   */
+  static subscribeToReactions(
+    onAdded: (reaction: Reaction) => void,
+    onRemoved: (reactionId: string) => void
+  ): RealtimeChannel {
+    return supabase
+      .channel('message_reactions')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        (payload) => {
+          onAdded(this.toReaction(payload.new));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        (payload) => {
+          onRemoved((payload.old as any).id);
+        }
+      )
+      .subscribe();
+  }
+
+  private static toReaction(row: any): Reaction {
+    return {
+      id: row.id,
+      messageId: row.message_id,
+      userId: row.user_id,
+      emoji: row.emoji,
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+const TYPING_EVENT = 'typing';
+const TYPING_THROTTLE_MS = 2000; // Resend "typing" at most this often
+const TYPING_IDLE_MS = 3000; // Send "stopped" after this long without keystrokes
+const TYPING_EXPIRY_MS = 6000; // Drop a remote "typing" that was never refreshed
+
+/**
+ * Ephemeral typing indicators over per-conversation private Realtime
+ * broadcast channels. Nothing is written to the database; only members of
+ * the conversation may join its channel (realtime.messages policies in
+ * supabase-schema.sql).
+ */
+export class TypingService {
+  private static lastSentAt: Record<string, number> = {};
+  private static idleTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+
+  /**
+   * Channel topic shared by everyone in a conversation
+   */
+  static getTopic(userId: string, conversation: { contactId?: string; groupId?: string }): string {
+    if (conversation.groupId) {
+      return `typing:${conversation.groupId}`;
+    }
+    return `typing:${[userId, conversation.contactId].sort().join(':')}`;
+  }
+
+  /**
+   * Join a conversation's typing channel
+   * @param onChange - Called with the ids of users currently typing (never includes userId)
+   */
+  static joinConversation(
+    topic: string,
+    userId: string,
+    onChange: (typingUserIds: string[]) => void
+  ): RealtimeChannel {
+    const expiryTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+
+    const setTyping = (typingUserId: string, isTyping: boolean) => {
+      clearTimeout(expiryTimers[typingUserId]);
+      delete expiryTimers[typingUserId];
+
+      if (isTyping) {
+        expiryTimers[typingUserId] = setTimeout(() => setTyping(typingUserId, false), TYPING_EXPIRY_MS);
+      }
+
+      onChange(Object.keys(expiryTimers));
+    };
+
+    return supabase
+      .channel(topic, { config: { private: true, broadcast: { self: false } } })
+      .on('broadcast', { event: TYPING_EVENT }, ({ payload }) => {
+        if (payload.user_id === userId) return;
+        setTyping(payload.user_id, payload.is_typing);
+      })
+      .subscribe();
+  }
+
+  /**
+   * Call on every keystroke; throttled, and automatically followed by a
+   * "stopped" signal once the user goes idle
+   */
+  static notifyTyping(channel: RealtimeChannel, userId: string): void {
+    const topic = channel.topic;
+    const now = Date.now();
+
+    if (now - (this.lastSentAt[topic] ?? 0) > TYPING_THROTTLE_MS) {
+      this.lastSentAt[topic] = now;
+      this.send(channel, userId, true);
+    }
+
+    clearTimeout(this.idleTimers[topic]);
+    this.idleTimers[topic] = setTimeout(() => this.stopTyping(channel, userId), TYPING_IDLE_MS);
+  }
+
+  static stopTyping(channel: RealtimeChannel, userId: string): void {
+    const topic = channel.topic;
+
+    clearTimeout(this.idleTimers[topic]);
+    delete this.idleTimers[topic];
+
+    if (this.lastSentAt[topic]) {
+      delete this.lastSentAt[topic];
+      this.send(channel, userId, false);
+    }
+  }
+
+  static leaveConversation(channel: RealtimeChannel): void {
+    clearTimeout(this.idleTimers[channel.topic]);
+    delete this.idleTimers[channel.topic];
+    delete this.lastSentAt[channel.topic];
+    supabase.removeChannel(channel);
+  }
+
+  private static send(channel: RealtimeChannel, userId: string, isTyping: boolean): void {
+    channel
+      .send({
+        type: 'broadcast',
+        event: TYPING_EVENT,
+        payload: { user_id: userId, is_typing: isTyping },
+      })
+      .catch((error) => console.error('Error sending typing signal:', error));
+  }
+}
@@ -0,0 +1,241 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { bytesToHex, concatBytes } from '@noble/hashes/utils';
+import { DeviceService } from './deviceService';
+import { PrekeyService } from './prekeyService';
+
+const VERIFIED_CONTACTS_STORAGE_KEY_PREFIX = 'verified_contacts:';
+const SEEN_KEYS_STORAGE_KEY_PREFIX = 'seen_contact_keys:';
+const SAFETY_NUMBER_VERSION = 1;
+const SAFETY_NUMBER_ITERATIONS = 5200;
+const QR_PAYLOAD_PREFIX = 'beteseb-verify';
+
+/**
+ * - verified: the contact's keys match the ones the user verified
+ * - changed: the user verified this contact, but their keys have changed since
+ * - new-keys: not verified, but the keys differ from the ones last seen, e.g.
+ *   the contact added a device without linking it
+ */
+export type VerificationStatus = 'unverified' | 'verified' | 'changed' | 'new-keys';
+
+export interface SafetyNumber {
+  digits: string;                // 60 digits, the same on both sides
+  contactFingerprint: string;    // Hex SHA-256 of the contact's keys, stored once verified
+}
+
+/**
+ * Contact key verification
+ *
+ * Flow:
+ * 1. A user's keys are the public keys of all their devices (RSA and X3DH
+ *    identity keys), or users.public_key for clients without devices
+ * 2. Each side's keys are hashed into 30 digits; both halves ordered by user
+ *    id form a 60-digit safety number that two users compare in person or by
+ *    scanning each other's QR code
+ * 3. Verifying a contact stores the fingerprint of their keys on this device,
+ *    not on the server that could otherwise swap both
+ * 4. If the contact's keys later differ from the stored fingerprint, the chat
+ *    warns until the user verifies again or accepts the new keys
+ * 5. Unverified contacts' keys are remembered when first seen, so a key the
+ *    server adds later (any signed-in session can register a device) is
+ *    still shown to the user as a changed safety number
+ */
+export class VerificationService {
+  /**
+   * Fingerprint of a user's current keys
+   * @param publicKey - users.public_key, used when the user has no devices
+   * @returns Hex SHA-256, or null if the keys could not be fetched
+   */
+  static async getKeyFingerprint(userId: string, publicKey?: string): Promise<string | null> {
+    const keys = await this.getKeyData(userId, publicKey);
+    return keys ? bytesToHex(sha256(keys)) : null;
+  }
+
+  /**
+   * Safety number for a conversation between two users
+   * @returns null if either side's keys could not be fetched
+   */
+  static async getSafetyNumber(
+    user: { id: string; publicKey?: string },
+    contact: { id: string; publicKey?: string }
+  ): Promise<SafetyNumber | null> {
+    const [userKeys, contactKeys] = await Promise.all([
+      this.getKeyData(user.id, user.publicKey),
+      this.getKeyData(contact.id, contact.publicKey),
+    ]);
+    if (!userKeys || !contactKeys) return null;
+
+    const halves = [
+      { id: user.id, digits: this.getDigits(user.id, userKeys) },
+      { id: contact.id, digits: this.getDigits(contact.id, contactKeys) },
+    ].sort((a, b) => (a.id < b.id ? -1 : 1));
+
+    return {
+      digits: halves.map((half) => half.digits).join(''),
+      contactFingerprint: bytesToHex(sha256(contactKeys)),
+    };
+  }
+
+  /**
+   * Display form of a safety number, in groups of five digits
+   */
+  static formatSafetyNumber(digits: string): string {
+    return digits.match(/.{1,5}/g)?.join(' ') ?? digits;
+  }
+
+  /**
+   * QR code contents for the contact to scan
+   */
+  static getQrPayload(userId: string, contactId: string, digits: string): string {
+    return `${QR_PAYLOAD_PREFIX}:${SAFETY_NUMBER_VERSION}:${userId}:${contactId}:${digits}`;
+  }
+
+  /**
+   * Check a scanned QR code: it must come from the contact, be meant for
+   * this user and carry the same safety number
+   */
+  static matchesQrPayload(
+    payload: string,
+    userId: string,
+    contactId: string,
+    digits: string
+  ): boolean {
+    return payload === this.getQrPayload(contactId, userId, digits);
+  }
+
+  static async getStatus(
+    userId: string,
+    contact: { id: string; publicKey?: string }
+  ): Promise<VerificationStatus> {
+    const verified = (await this.getVerifiedContacts(userId))[contact.id];
+    const current = await this.getKeyFingerprint(contact.id, contact.publicKey);
+
+    if (verified) {
+      // Offline: keep trusting the verified keys rather than raise a false alarm
+      if (!current) return 'verified';
+      return current === verified ? 'verified' : 'changed';
+    }
+
+    if (!current) return 'unverified';
+    const seen = (await this.getSeenKeys(userId))[contact.id];
+    if (!seen) {
+      await this.setSeenKeys(userId, contact.id, current);
+      return 'unverified';
+    }
+    return current === seen ? 'unverified' : 'new-keys';
+  }
+
+  /**
+   * Accept a contact's current keys without verifying them: clears any
+   * verification and stops the changed-keys warnings
+   */
+  static async acceptKeyChange(
+    userId: string,
+    contact: { id: string; publicKey?: string }
+  ): Promise<void> {
+    await this.clearVerification(userId, contact.id);
+    const current = await this.getKeyFingerprint(contact.id, contact.publicKey);
+    if (current) {
+      await this.setSeenKeys(userId, contact.id, current);
+    }
+  }
+
+  static async markVerified(
+    userId: string,
+    contactId: string,
+    contactFingerprint: string
+  ): Promise<void> {
+    const verified = await this.getVerifiedContacts(userId);
+    verified[contactId] = contactFingerprint;
+    await AsyncStorage.setItem(
+      `${VERIFIED_CONTACTS_STORAGE_KEY_PREFIX}${userId}`,
+      JSON.stringify(verified)
+    );
+    await this.setSeenKeys(userId, contactId, contactFingerprint);
+  }
+
+  /**
+   * Forget a contact's verification, e.g. to accept their new keys
+   */
+  static async clearVerification(userId: string, contactId: string): Promise<void> {
+    const verified = await this.getVerifiedContacts(userId);
+    delete verified[contactId];
+    await AsyncStorage.setItem(
+      `${VERIFIED_CONTACTS_STORAGE_KEY_PREFIX}${userId}`,
+      JSON.stringify(verified)
+    );
+  }
+
+  /**
+   * @returns Map of contact id to the fingerprint of their keys when verified
+   */
+  private static async getVerifiedContacts(userId: string): Promise<Record<string, string>> {
+    const stored = await AsyncStorage.getItem(`${VERIFIED_CONTACTS_STORAGE_KEY_PREFIX}${userId}`);
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  /**
+   * @returns Map of contact id to the fingerprint of their keys when last accepted
+   */
+  private static async getSeenKeys(userId: string): Promise<Record<string, string>> {
+    const stored = await AsyncStorage.getItem(`${SEEN_KEYS_STORAGE_KEY_PREFIX}${userId}`);
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  private static async setSeenKeys(
+    userId: string,
+    contactId: string,
+    fingerprint: string
+  ): Promise<void> {
+    const seen = await this.getSeenKeys(userId);
+    seen[contactId] = fingerprint;
+    await AsyncStorage.setItem(`${SEEN_KEYS_STORAGE_KEY_PREFIX}${userId}`, JSON.stringify(seen));
+  }
+
+  /**
+   * A user's public keys in a stable order
+   */
+  private static async getKeyData(userId: string, publicKey?: string): Promise<Uint8Array | null> {
+    const devices = await DeviceService.getDevices([userId]);
+    if (devices.length === 0) {
+      return publicKey ? new TextEncoder().encode(publicKey) : null;
+    }
+
+    const identityKeys = await PrekeyService.getPublishedIdentityKeys(
+      devices.map((device) => device.id)
+    );
+    if (!identityKeys) return null;
+
+    const keys = devices
+      .map((device) => ({
+        id: device.id,
+        publicKey: device.publicKey,
+        identityKey: identityKeys[device.id] ?? null,
+      }))
+      .sort((a, b) => (a.id < b.id ? -1 : 1));
+    return new TextEncoder().encode(JSON.stringify(keys));
+  }
+
+  /**
+   * One side's 30 digits: an iterated SHA-512 of its keys, cut into six
+   * 5-byte chunks, each reduced to five digits
+   */
+  private static getDigits(userId: string, keys: Uint8Array): string {
+    const encoder = new TextEncoder();
+    let hash = sha512(
+      concatBytes(new Uint8Array([0, SAFETY_NUMBER_VERSION]), keys, encoder.encode(userId))
+    );
+    for (let i = 0; i < SAFETY_NUMBER_ITERATIONS; i++) {
+      hash = sha512(concatBytes(hash, keys));
+    }
+
+    let digits = '';
+    for (let offset = 0; offset < 30; offset += 5) {
+      const chunk = hash
+        .slice(offset, offset + 5)
+        .reduce((value, byte) => value * 256 + byte, 0);
+      digits += (chunk % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+  }
+}
@@ -4,15 +4,29 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
--- Users table
+-- HTTP requests from triggers (push notifications)
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Trigram indexes for directory search by name
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Users table (one profile row per Supabase Auth account)
 CREATE TABLE users (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
   email TEXT UNIQUE NOT NULL,
+  username TEXT UNIQUE CHECK (username ~ '^[a-z0-9_]{3,30}$'), -- Directory handle, stored lowercase
   avatar TEXT,
   bio TEXT,
   is_onboarded BOOLEAN DEFAULT false,
-  public_key TEXT, -- RSA public key for E2E encryption (JWK format)
+  -- Privacy settings, applied by the user_profiles view
+  discoverable BOOLEAN NOT NULL DEFAULT true, -- Listed in directory search
+  email_visibility TEXT NOT NULL DEFAULT 'contacts'
+    CHECK (email_visibility IN ('everyone', 'contacts', 'nobody')),
+  avatar_visibility TEXT NOT NULL DEFAULT 'everyone'
+    CHECK (avatar_visibility IN ('everyone', 'contacts', 'nobody')),
+  public_key TEXT, -- RSA public key of the first device (JWK format), for clients that predate the devices table
+  last_seen_at TIMESTAMPTZ, -- Last time the user's app went offline
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -26,37 +40,284 @@ CREATE TABLE contacts (
   UNIQUE(user_id, contact_user_id)
 );
 
--- Messages table
+-- Contact requests table (accepting one creates the contacts rows on both sides)
+CREATE TABLE contact_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  note TEXT CHECK (char_length(note) <= 280),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  responded_at TIMESTAMPTZ,
+  CHECK (sender_id <> recipient_id)
+);
+
+-- Blocks table (a block stops direct messages and contact requests both ways)
+CREATE TABLE blocks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  blocker_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+-- Reports table (reviewed with the service role; message contents stay encrypted)
+CREATE TABLE reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reporter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reported_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'other')),
+  message_ids UUID[] NOT NULL DEFAULT '{}', -- Messages from the reported user the report is about
+  details TEXT CHECK (char_length(details) <= 1000),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (reporter_id <> reported_user_id)
+);
+
+-- Conversation settings table (per user; a conversation is a group, or a
+-- direct chat keyed by the other user's id)
+CREATE TABLE conversation_settings (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL, -- Group id, or the other user's id
+  archived_at TIMESTAMPTZ,
+  muted_until TIMESTAMPTZ, -- No notifications until then
+  pinned_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, conversation_id)
+);
+
+-- Groups table
+CREATE TABLE groups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  avatar TEXT,
+  created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Group members table
+CREATE TABLE group_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(group_id, user_id)
+);
+
+-- Devices table (each signed-in device has its own key pair)
+CREATE TABLE devices (
+  id UUID PRIMARY KEY, -- Generated on the device
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  public_key TEXT NOT NULL, -- RSA public key of this device (JWK format)
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Device links table (short-lived requests to authorize a new device from an existing one)
+CREATE TABLE device_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  lookup TEXT NOT NULL, -- First part of the code shown on the existing device; the rest never leaves the devices
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'approved')),
+  device_id UUID, -- Set by the new device when it claims the link
+  device_name TEXT,
+  public_key TEXT, -- New device's RSA public key (JWK format)
+  proof TEXT, -- HMAC-SHA256 of device_id and public_key, keyed with PBKDF2 of the code's secret part (hex)
+  key_bundle JSONB, -- Approving device's private keys, encrypted for the new device
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Key history table (every RSA key a device has used; rotated keys are revoked, never deleted)
+CREATE TABLE key_history (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key_id TEXT NOT NULL, -- Truncated SHA-256 of the key's modulus (hex)
+  device_id UUID REFERENCES devices(id) ON DELETE SET NULL,
+  public_key TEXT NOT NULL, -- RSA public key (JWK format)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ, -- Set once the device rotated to a newer key or was removed
+  PRIMARY KEY (user_id, key_id)
+);
+
+-- Push tokens table (one Expo push token per device; only the push-message edge function reads them)
+CREATE TABLE push_tokens (
+  device_id UUID PRIMARY KEY REFERENCES devices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL,
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Key backups table (private keys encrypted with a key derived from the user's passphrase)
+CREATE TABLE key_backups (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  encrypted_keys TEXT NOT NULL, -- Base64 AES-GCM ciphertext of the private keys
+  iv TEXT NOT NULL, -- Base64 AES-GCM IV
+  salt TEXT NOT NULL, -- Base64 PBKDF2 salt
+  iterations INTEGER NOT NULL, -- PBKDF2-SHA256 iterations
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Prekeys table (X3DH identity keys, signed prekeys and single-use one-time prekeys, per device)
+CREATE TABLE prekeys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_id UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('identity', 'signed', 'one_time')),
+  key_id INTEGER NOT NULL,
+  public_key TEXT NOT NULL, -- X25519 public key (Base64)
+  signing_key TEXT, -- Identity rows: Ed25519 public key (Base64)
+  signature TEXT, -- Signed rows: Ed25519 signature of public_key by the identity signing key (Base64)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(device_id, kind, key_id)
+);
+
+-- Messages table (one-to-one messages set receiver_id, group messages set group_id)
 CREATE TABLE messages (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  receiver_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  sender_device_id UUID, -- Device that sent the message
+  receiver_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  group_id UUID REFERENCES groups(id) ON DELETE CASCADE,
   content TEXT NOT NULL, -- Encrypted message content (Base64)
-  encrypted_key TEXT NOT NULL, -- AES key encrypted with recipient's public key (Base64)
+  encrypted_key TEXT NOT NULL, -- AES key encrypted with recipient's users.public_key (Base64), empty when device_keys is set
+  key_id TEXT, -- key_history.key_id of the key encrypted_key was wrapped for
+  sender_encrypted_key TEXT, -- Same AES key encrypted with sender's users.public_key (Base64)
+  sender_key_id TEXT, -- key_history.key_id of the key sender_encrypted_key was wrapped for
+  encrypted_keys JSONB, -- Group messages: { member user id: AES key encrypted with their users.public_key }
+  device_keys JSONB, -- { device id: { key, header, key_id } }: AES key wrapped for every device of the recipients and the sender; header is set when a ratchet session wrapped it, key_id otherwise
+  reply_to_id UUID REFERENCES messages(id) ON DELETE SET NULL, -- Message in the same conversation this one replies to; the quote is rendered from the locally decrypted parent
+  attachment JSONB, -- Encrypted file reference + metadata (mime_type, size, sha256); bytes live in the attachments bucket
   iv TEXT NOT NULL, -- Initialization vector for AES encryption (Base64)
-  is_read BOOLEAN DEFAULT false,
+  delivered_at TIMESTAMPTZ, -- Set once the recipient's device has received the message
+  read_at TIMESTAMPTZ, -- Set once the recipient has opened the conversation
+  edited_at TIMESTAMPTZ, -- Set when the sender replaces the content with a re-encrypted revision
+  deleted_at TIMESTAMPTZ, -- Set when the sender deletes the message for everyone; the ciphertext is wiped
   created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((receiver_id IS NULL) <> (group_id IS NULL))
+);
+
+-- Emoji reactions, one row per message, user and emoji. The emoji is not
+-- encrypted; only people who can see the message can see its reactions.
+CREATE TABLE message_reactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) <= 16),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(message_id, user_id, emoji)
 );
 
 -- Indexes for better performance
+CREATE INDEX idx_users_name_trgm ON users USING gin (name gin_trgm_ops);
 CREATE INDEX idx_contacts_user_id ON contacts(user_id);
 CREATE INDEX idx_contacts_contact_user_id ON contacts(contact_user_id);
+CREATE INDEX idx_contact_requests_recipient_id ON contact_requests(recipient_id);
+CREATE INDEX idx_blocks_blocked_id ON blocks(blocked_id);
+CREATE INDEX idx_reports_reported_user_id ON reports(reported_user_id);
+-- At most one open request between the same two users in each direction
+CREATE UNIQUE INDEX idx_contact_requests_pending ON contact_requests(sender_id, recipient_id)
+  WHERE status = 'pending';
 CREATE INDEX idx_messages_sender_id ON messages(sender_id);
 CREATE INDEX idx_messages_receiver_id ON messages(receiver_id);
-CREATE INDEX idx_messages_created_at ON messages(created_at);
+CREATE INDEX idx_messages_group_id ON messages(group_id);
+CREATE INDEX idx_messages_reply_to_id ON messages(reply_to_id);
+CREATE INDEX idx_messages_created_at_id ON messages(created_at DESC, id DESC); -- Keyset pagination
+CREATE INDEX idx_message_reactions_user_id ON message_reactions(user_id);
+CREATE INDEX idx_group_members_group_id ON group_members(group_id);
+CREATE INDEX idx_group_members_user_id ON group_members(user_id);
+CREATE INDEX idx_devices_user_id ON devices(user_id);
+CREATE INDEX idx_device_links_user_id ON device_links(user_id);
+CREATE UNIQUE INDEX idx_device_links_pending_lookup ON device_links(user_id, lookup)
+  WHERE status = 'pending';
+CREATE INDEX idx_prekeys_device_id ON prekeys(device_id);
+CREATE INDEX idx_key_history_device_id ON key_history(device_id);
+CREATE INDEX idx_push_tokens_user_id ON push_tokens(user_id);
 
 -- Row Level Security (RLS) Policies
 
 -- Enable RLS on all tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_settings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE key_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE key_backups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prekeys ENABLE ROW LEVEL SECURITY;
+
+-- Membership helpers (SECURITY DEFINER so group_members policies don't recurse)
+CREATE OR REPLACE FUNCTION is_group_member(target_group_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = target_group_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_group_admin(target_group_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = target_group_id AND user_id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the current user and another one have blocked each other, either way
+-- (blocks are only visible to the blocker, so this needs SECURITY DEFINER)
+CREATE OR REPLACE FUNCTION is_blocked_between(other_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blocks
+    WHERE (blocker_id = auth.uid() AND blocked_id = other_user_id)
+      OR (blocker_id = other_user_id AND blocked_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
 
--- Users policies
-CREATE POLICY "Users can view all users"
+-- Whether another user has the current user in their contacts
+CREATE OR REPLACE FUNCTION is_contact_of(other_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM contacts
+    WHERE user_id = other_user_id AND contact_user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the current user already knows another one: a contact either way,
+-- a fellow group member, or the other side of a pending or accepted contact request
+CREATE OR REPLACE FUNCTION knows_user(other_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM contacts
+    WHERE (user_id = auth.uid() AND contact_user_id = other_user_id)
+      OR (user_id = other_user_id AND contact_user_id = auth.uid())
+  ) OR EXISTS (
+    SELECT 1 FROM group_members mine
+    JOIN group_members theirs ON theirs.group_id = mine.group_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = other_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM contact_requests
+    WHERE ((sender_id = auth.uid() AND recipient_id = other_user_id)
+      OR (sender_id = other_user_id AND recipient_id = auth.uid()))
+      AND status IN ('pending', 'accepted')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Users policies (other users' profiles are read through user_profiles)
+CREATE POLICY "Users can view their own profile"
   ON users FOR SELECT
-  USING (true);
+  USING (auth.uid() = id);
 
 CREATE POLICY "Users can update their own profile"
   ON users FOR UPDATE
@@ -66,32 +327,502 @@ CREATE POLICY "Users can insert their own profile"
   ON users FOR INSERT
   WITH CHECK (auth.uid() = id);
 
+-- Profiles as the current user may see them. The view runs as its owner, so
+-- it reads past the own-row policy above and applies each user's privacy
+-- settings instead: users who aren't discoverable only show to people who
+-- already know them, and email and avatar only to whoever they allow.
+CREATE VIEW user_profiles AS
+SELECT
+  u.id,
+  u.name,
+  u.username,
+  CASE
+    WHEN u.id = auth.uid()
+      OR u.email_visibility = 'everyone'
+      OR (u.email_visibility = 'contacts' AND is_contact_of(u.id))
+    THEN u.email
+  END AS email,
+  CASE
+    WHEN u.id = auth.uid()
+      OR u.avatar_visibility = 'everyone'
+      OR (u.avatar_visibility = 'contacts' AND is_contact_of(u.id))
+    THEN u.avatar
+  END AS avatar,
+  u.bio,
+  u.public_key,
+  u.last_seen_at
+FROM users u
+WHERE u.id = auth.uid() OR u.discoverable OR knows_user(u.id);
+
+REVOKE ALL ON user_profiles FROM anon;
+GRANT SELECT ON user_profiles TO authenticated;
+
+-- Directory search by username prefix, part of the name, or exact email.
+-- Search text as a LIKE pattern that matches it literally
+CREATE OR REPLACE FUNCTION escape_like(term TEXT)
+RETURNS TEXT AS $$
+  SELECT replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Only discoverable users are listed, never the user or anyone blocked either way.
+-- Email only matches where the searcher may see it, so searching can't reveal
+-- whether a hidden address has an account.
+CREATE OR REPLACE FUNCTION search_users(query TEXT)
+RETURNS SETOF user_profiles AS $$
+  SELECT p.*
+  FROM user_profiles p
+  JOIN users u ON u.id = p.id
+  WHERE length(trim(query)) >= 2
+    AND u.discoverable
+    AND u.id <> auth.uid()
+    AND NOT is_blocked_between(u.id)
+    AND (
+      u.username LIKE escape_like(lower(ltrim(trim(query), '@'))) || '%'
+      OR u.name ILIKE '%' || escape_like(trim(query)) || '%'
+      OR (p.email IS NOT NULL AND lower(p.email) = lower(trim(query)))
+    )
+  ORDER BY u.username = lower(ltrim(trim(query), '@')) IS TRUE DESC, u.name
+  LIMIT 20;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Like user_profiles, only for signed-in users
+REVOKE EXECUTE ON FUNCTION search_users(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_users(TEXT) TO authenticated;
+
 -- Contacts policies
 CREATE POLICY "Users can view their own contacts"
   ON contacts FOR SELECT
   USING (user_id = auth.uid());
 
-CREATE POLICY "Users can add their own contacts"
-  ON contacts FOR INSERT
-  WITH CHECK (user_id = auth.uid());
-
+-- Contacts are only added by accepting a contact request (accept_contact_request())
 CREATE POLICY "Users can delete their own contacts"
   ON contacts FOR DELETE
   USING (user_id = auth.uid());
 
+-- Contact requests policies
+CREATE POLICY "Users can view requests they sent or received"
+  ON contact_requests FOR SELECT
+  USING (sender_id = auth.uid() OR recipient_id = auth.uid());
+
+CREATE POLICY "Users can send contact requests"
+  ON contact_requests FOR INSERT
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND status = 'pending'
+    AND NOT is_blocked_between(recipient_id)
+  );
+
+-- Recipients accept or decline, senders cancel; only while the request is pending
+CREATE POLICY "Users can respond to pending requests"
+  ON contact_requests FOR UPDATE
+  USING (status = 'pending' AND (sender_id = auth.uid() OR recipient_id = auth.uid()))
+  WITH CHECK (
+    (recipient_id = auth.uid() AND status IN ('accepted', 'declined'))
+    OR (sender_id = auth.uid() AND status = 'cancelled')
+  );
+
+-- Groups policies
+CREATE POLICY "Members can view their groups"
+  ON groups FOR SELECT
+  USING (created_by = auth.uid() OR is_group_member(id));
+
+CREATE POLICY "Users can create groups"
+  ON groups FOR INSERT
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Admins can update their groups"
+  ON groups FOR UPDATE
+  USING (is_group_admin(id));
+
+-- Group members policies
+CREATE POLICY "Members can view members of their groups"
+  ON group_members FOR SELECT
+  USING (is_group_member(group_id));
+
+CREATE POLICY "Creators and admins can add members"
+  ON group_members FOR INSERT
+  WITH CHECK (
+    is_group_admin(group_id)
+    OR EXISTS (SELECT 1 FROM groups WHERE id = group_id AND created_by = auth.uid())
+  );
+
+CREATE POLICY "Admins can remove members and members can leave"
+  ON group_members FOR DELETE
+  USING (user_id = auth.uid() OR is_group_admin(group_id));
+
 -- Messages policies
 CREATE POLICY "Users can view messages they sent or received"
   ON messages FOR SELECT
-  USING (sender_id = auth.uid() OR receiver_id = auth.uid());
+  USING (
+    sender_id = auth.uid()
+    OR receiver_id = auth.uid()
+    OR (group_id IS NOT NULL AND is_group_member(group_id))
+  );
 
 CREATE POLICY "Users can send messages"
   ON messages FOR INSERT
-  WITH CHECK (sender_id = auth.uid());
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND (group_id IS NULL OR is_group_member(group_id))
+    -- Blocked users cannot message each other directly; in groups, clients hide them
+    AND (receiver_id IS NULL OR NOT is_blocked_between(receiver_id))
+    -- A reply's parent must be in the same conversation
+    AND (
+      reply_to_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM messages parent
+        WHERE parent.id = messages.reply_to_id
+          AND parent.group_id IS NOT DISTINCT FROM messages.group_id
+          AND (
+            messages.group_id IS NOT NULL
+            OR (
+              parent.sender_id IN (messages.sender_id, messages.receiver_id)
+              AND parent.receiver_id IN (messages.sender_id, messages.receiver_id)
+            )
+          )
+      )
+    )
+  );
 
 CREATE POLICY "Users can update messages they received"
   ON messages FOR UPDATE
   USING (receiver_id = auth.uid());
 
+-- Which columns each side may change is enforced by set_message_revisions()
+CREATE POLICY "Users can edit and delete messages they sent"
+  ON messages FOR UPDATE
+  USING (sender_id = auth.uid())
+  WITH CHECK (sender_id = auth.uid());
+
+-- Message reactions policies (RLS on messages decides who can see the message)
+CREATE POLICY "Users can view reactions on messages they can see"
+  ON message_reactions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM messages WHERE messages.id = message_reactions.message_id));
+
+CREATE POLICY "Users can react to messages they can see"
+  ON message_reactions FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_reactions.message_id
+        AND messages.deleted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON message_reactions FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Blocks policies (the blocked user never learns about the block)
+CREATE POLICY "Users can view their own blocks"
+  ON blocks FOR SELECT
+  USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can block other users"
+  ON blocks FOR INSERT
+  WITH CHECK (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock users they blocked"
+  ON blocks FOR DELETE
+  USING (blocker_id = auth.uid());
+
+-- Reports policies (reports cannot be changed once filed)
+CREATE POLICY "Users can view their own reports"
+  ON reports FOR SELECT
+  USING (reporter_id = auth.uid());
+
+CREATE POLICY "Users can report messages they received"
+  ON reports FOR INSERT
+  WITH CHECK (
+    reporter_id = auth.uid()
+    -- Every reported message must be one the reporter can see, sent by the reported user
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(message_ids) AS reported(id)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM messages
+        WHERE messages.id = reported.id AND messages.sender_id = reports.reported_user_id
+      )
+    )
+  );
+
+-- Conversation settings policies
+CREATE POLICY "Users can view their own conversation settings"
+  ON conversation_settings FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own conversation settings"
+  ON conversation_settings FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own conversation settings"
+  ON conversation_settings FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own conversation settings"
+  ON conversation_settings FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Devices policies (check_new_device decides which new devices may join an account)
+-- Only people who could message a user need their device keys
+CREATE POLICY "Users can view devices of people they know"
+  ON devices FOR SELECT
+  USING (user_id = auth.uid() OR knows_user(user_id));
+
+CREATE POLICY "Users can add their own devices"
+  ON devices FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+-- Key rotation points a device's row at its new key
+CREATE POLICY "Users can update their own devices"
+  ON devices FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove their own devices"
+  ON devices FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Device links policies (both devices are signed in to the same account)
+CREATE POLICY "Users can view their own device links"
+  ON device_links FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own device links"
+  ON device_links FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own device links"
+  ON device_links FOR UPDATE
+  USING (user_id = auth.uid() AND expires_at > NOW());
+
+CREATE POLICY "Users can delete their own device links"
+  ON device_links FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Key history policies
+CREATE POLICY "Users can view key history of people they know"
+  ON key_history FOR SELECT
+  USING (user_id = auth.uid() OR knows_user(user_id));
+
+-- Only keys one of the user's devices is registered with
+CREATE POLICY "Users can record their own keys"
+  ON key_history FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM devices
+      WHERE id = device_id AND user_id = auth.uid() AND devices.public_key = key_history.public_key
+    )
+  );
+
+-- set_key_history_revocation limits updates to revoking and restoring keys
+CREATE POLICY "Users can revoke their own keys"
+  ON key_history FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Key backups policies (the server only ever sees the encrypted blob)
+CREATE POLICY "Users can view their own key backup"
+  ON key_backups FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own key backup"
+  ON key_backups FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own key backup"
+  ON key_backups FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own key backup"
+  ON key_backups FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Push tokens policies (other users never see a device's token)
+CREATE POLICY "Users can view their own push tokens"
+  ON push_tokens FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can register push tokens for their own devices"
+  ON push_tokens FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM devices WHERE devices.id = device_id AND devices.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own push tokens"
+  ON push_tokens FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own push tokens"
+  ON push_tokens FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Prekeys policies (one-time prekeys are only handed out by claim_prekey_bundle)
+CREATE POLICY "Users can view identity and signed prekeys"
+  ON prekeys FOR SELECT
+  USING (user_id = auth.uid() OR kind <> 'one_time');
+
+CREATE POLICY "Users can publish their own prekeys"
+  ON prekeys FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM devices WHERE id = device_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own prekeys"
+  ON prekeys FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Hands out a device's prekey bundle, consuming one of its one-time prekeys.
+-- Only signed-in users who may see the device (as in the devices policies) can
+-- claim, so nobody else can use up a device's one-time prekeys.
+CREATE OR REPLACE FUNCTION claim_prekey_bundle(target_device_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  one_time prekeys;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM devices
+    WHERE id = target_device_id AND (user_id = auth.uid() OR knows_user(user_id))
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM prekeys
+  WHERE id = (
+    SELECT id FROM prekeys
+    WHERE device_id = target_device_id AND kind = 'one_time'
+    ORDER BY key_id
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING * INTO one_time;
+
+  RETURN jsonb_build_object(
+    'identity', (
+      SELECT to_jsonb(p) FROM prekeys p
+      WHERE p.device_id = target_device_id AND p.kind = 'identity'
+      ORDER BY p.key_id DESC LIMIT 1
+    ),
+    'signed', (
+      SELECT to_jsonb(p) FROM prekeys p
+      WHERE p.device_id = target_device_id AND p.kind = 'signed'
+      ORDER BY p.key_id DESC LIMIT 1
+    ),
+    'one_time', CASE WHEN one_time.id IS NULL THEN NULL ELSE to_jsonb(one_time) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_prekey_bundle(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_prekey_bundle(UUID) TO authenticated;
+
+-- Realtime authorization for the private presence and typing channels
+-- (see PresenceService and TypingService)
+
+-- Whether the current user belongs to a typing channel's conversation:
+-- typing:<group id>, or typing:<user id>:<user id> for a direct chat
+CREATE OR REPLACE FUNCTION can_join_typing_topic(topic TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  parts TEXT[] := string_to_array(topic, ':');
+BEGIN
+  IF parts[1] IS DISTINCT FROM 'typing' THEN
+    RETURN false;
+  ELSIF array_length(parts, 1) = 2 THEN
+    RETURN is_group_member(parts[2]::uuid);
+  ELSIF array_length(parts, 1) = 3 AND auth.uid()::text IN (parts[2], parts[3]) THEN
+    RETURN knows_user((CASE WHEN parts[2] = auth.uid()::text THEN parts[3] ELSE parts[2] END)::uuid)
+      AND NOT is_blocked_between((CASE WHEN parts[2] = auth.uid()::text THEN parts[3] ELSE parts[2] END)::uuid);
+  END IF;
+  RETURN false;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- presence:<user id>: the user tracks themselves there, and the users they
+-- added as contacts may watch
+CREATE POLICY "Users can watch presence of users who added them"
+  ON realtime.messages FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND (
+      realtime.topic() = 'presence:' || auth.uid()::text
+      OR CASE
+        WHEN realtime.topic() ~ '^presence:[0-9a-f-]{36}$'
+          THEN is_contact_of(substring(realtime.topic() FROM 10)::uuid)
+        ELSE false
+      END
+    )
+  );
+
+CREATE POLICY "Users can only track their own presence"
+  ON realtime.messages FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND realtime.topic() = 'presence:' || auth.uid()::text
+  );
+
+CREATE POLICY "Users can receive typing signals in their conversations"
+  ON realtime.messages FOR SELECT TO authenticated
+  USING (realtime.messages.extension = 'broadcast' AND can_join_typing_topic(realtime.topic()));
+
+CREATE POLICY "Users can send typing signals in their conversations"
+  ON realtime.messages FOR INSERT TO authenticated
+  WITH CHECK (realtime.messages.extension = 'broadcast' AND can_join_typing_topic(realtime.topic()));
+
+-- Attachments storage bucket (holds AES-GCM ciphertext only)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload attachments to their own folder"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can overwrite their own attachments"
+  ON storage.objects FOR UPDATE
+  USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Objects are named <sender id>/<message id> (AttachmentService.prepare), so
+-- only the sender and the participants of that message's conversation can read them
+CREATE POLICY "Participants can download attachments"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'attachments'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM messages
+        WHERE messages.id::text = storage.filename(name)
+          AND messages.sender_id::text = (storage.foldername(name))[1]
+          AND (
+            messages.receiver_id = auth.uid()
+            OR (messages.group_id IS NOT NULL AND is_group_member(messages.group_id))
+          )
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own attachments"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -101,6 +832,28 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Create the profile row when an auth account is created.
+-- name/avatar/bio/public_key come from the signUp() metadata.
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.users (id, name, email, avatar, bio, is_onboarded, public_key)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'name', split_part(NEW.email, '@', 1)),
+    NEW.email,
+    NEW.raw_user_meta_data->>'avatar',
+    NEW.raw_user_meta_data->>'bio',
+    true,
+    NEW.raw_user_meta_data->>'public_key'
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_auth_user();
+
 -- Triggers to automatically update updated_at
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -108,8 +861,220 @@ CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
 CREATE TRIGGER update_messages_updated_at BEFORE UPDATE ON messages
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
--- Uncomment to add sample users
+-- A read message is always delivered, and receipts never move backwards
+CREATE OR REPLACE FUNCTION set_message_receipts()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.delivered_at = COALESCE(OLD.delivered_at, NEW.delivered_at, NEW.read_at);
+  NEW.read_at = COALESCE(OLD.read_at, NEW.read_at);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_messages_receipts BEFORE UPDATE ON messages
+  FOR EACH ROW EXECUTE FUNCTION set_message_receipts();
+
+-- Recipients may only set receipts. Senders may only replace the encrypted
+-- content (an edit) or delete the message for everyone, which leaves a
+-- tombstone without any ciphertext; a deleted message cannot change again.
+CREATE OR REPLACE FUNCTION set_message_revisions()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_delivered_at TIMESTAMPTZ := NEW.delivered_at;
+  new_read_at TIMESTAMPTZ := NEW.read_at;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.sender_id THEN
+    NEW := OLD;
+    NEW.delivered_at = new_delivered_at;
+    NEW.read_at = new_read_at;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  NEW.id = OLD.id;
+  NEW.sender_id = OLD.sender_id;
+  NEW.receiver_id = OLD.receiver_id;
+  NEW.group_id = OLD.group_id;
+  NEW.reply_to_id = OLD.reply_to_id;
+  NEW.delivered_at = OLD.delivered_at;
+  NEW.read_at = OLD.read_at;
+  NEW.created_at = OLD.created_at;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at = NOW();
+    NEW.edited_at = OLD.edited_at;
+    NEW.content = '';
+    NEW.encrypted_key = '';
+    NEW.key_id = NULL;
+    NEW.sender_encrypted_key = NULL;
+    NEW.sender_key_id = NULL;
+    NEW.encrypted_keys = NULL;
+    NEW.device_keys = NULL;
+    NEW.attachment = NULL;
+    NEW.reply_to_id = NULL;
+    NEW.iv = '';
+  ELSIF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.edited_at = NOW();
+  ELSE
+    NEW.edited_at = OLD.edited_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_messages_revisions BEFORE UPDATE ON messages
+  FOR EACH ROW EXECUTE FUNCTION set_message_revisions();
+
+-- Revoking is the only change to a key history entry. device_id may still be
+-- cleared, as removing the device does, and a revoked key is only active again
+-- once it moves to another device of the user registered with it (a device
+-- restored from the key backup, see DeviceService.restoreCurrentDevice).
+CREATE OR REPLACE FUNCTION set_key_history_revocation()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.user_id = OLD.user_id;
+  NEW.key_id = OLD.key_id;
+  NEW.public_key = OLD.public_key;
+  NEW.created_at = OLD.created_at;
+  IF NEW.device_id IS NOT NULL AND NEW.device_id IS DISTINCT FROM OLD.device_id THEN
+    IF EXISTS (
+      SELECT 1 FROM devices
+      WHERE id = NEW.device_id AND user_id = OLD.user_id AND public_key = OLD.public_key
+    ) THEN
+      NEW.revoked_at = NULL;
+      RETURN NEW;
+    END IF;
+    NEW.device_id = OLD.device_id;
+  END IF;
+
+  IF OLD.revoked_at IS NOT NULL THEN
+    NEW.revoked_at = OLD.revoked_at;
+  ELSIF NEW.revoked_at IS NOT NULL THEN
+    NEW.revoked_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_key_history_revocations BEFORE UPDATE ON key_history
+  FOR EACH ROW EXECUTE FUNCTION set_key_history_revocation();
+
+-- A device may only join an account as its first device, through a link an
+-- existing device has seen claimed, or with a key the account already had
+-- (e.g. restored from a key backup), which gives it nothing new to read.
+-- All devices of an account share one session, so this can't stop someone
+-- who has the password; it keeps new keys from appearing quietly, and the
+-- other devices are told about every new one (DeviceService.subscribeToNewDevices).
+CREATE OR REPLACE FUNCTION check_new_device()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM devices WHERE user_id = NEW.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM device_links
+      WHERE user_id = NEW.user_id
+        AND device_id = NEW.id
+        AND public_key = NEW.public_key
+        AND status = 'claimed'
+        AND expires_at > NOW()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM key_history
+      WHERE user_id = NEW.user_id AND public_key = NEW.public_key
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM users
+      WHERE id = NEW.user_id AND public_key = NEW.public_key
+    )
+  THEN
+    RAISE EXCEPTION 'New devices must be linked from an existing device';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_new_devices BEFORE INSERT ON devices
+  FOR EACH ROW EXECUTE FUNCTION check_new_device();
+
+-- Reactions go away with a message deleted for everyone, including other users' ones
+CREATE OR REPLACE FUNCTION delete_message_reactions()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM message_reactions WHERE message_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER delete_deleted_message_reactions AFTER UPDATE OF deleted_at ON messages
+  FOR EACH ROW WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION delete_message_reactions();
+
+CREATE TRIGGER update_groups_updated_at BEFORE UPDATE ON groups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_conversation_settings_updated_at BEFORE UPDATE ON conversation_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Responding to a contact request only changes its status
+CREATE OR REPLACE FUNCTION set_contact_request_response()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.id = OLD.id;
+  NEW.sender_id = OLD.sender_id;
+  NEW.recipient_id = OLD.recipient_id;
+  NEW.note = OLD.note;
+  NEW.created_at = OLD.created_at;
+  NEW.responded_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_contact_requests_response BEFORE UPDATE ON contact_requests
+  FOR EACH ROW EXECUTE FUNCTION set_contact_request_response();
+
+-- An accepted request makes both users each other's contacts
+CREATE OR REPLACE FUNCTION accept_contact_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO contacts (user_id, contact_user_id)
+  VALUES (NEW.sender_id, NEW.recipient_id), (NEW.recipient_id, NEW.sender_id)
+  ON CONFLICT (user_id, contact_user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER accept_contact_requests AFTER UPDATE OF status ON contact_requests
+  FOR EACH ROW WHEN (OLD.status = 'pending' AND NEW.status = 'accepted')
+  EXECUTE FUNCTION accept_contact_request();
+
+-- Push notifications: hand every new message's id to the push-message edge
+-- function (supabase/functions/push-message), which sends each recipient
+-- device a payload encrypted for that device. Point it at the function with:
+--   ALTER DATABASE postgres SET app.push_function_url = 'https://<project>.supabase.co/functions/v1/push-message';
+--   ALTER DATABASE postgres SET app.push_webhook_secret = '<same as the function's PUSH_WEBHOOK_SECRET>';
+CREATE OR REPLACE FUNCTION notify_message_push()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('app.push_function_url', true), '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := current_setting('app.push_function_url'),
+    body := jsonb_build_object('message_id', NEW.id),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'X-Push-Secret', current_setting('app.push_webhook_secret', true)
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER push_new_messages AFTER INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION notify_message_push();
 
--- INSERT INTO users (id, name, email, avatar, bio, is_onboarded) VALUES
--- (uuid_generate_v4(), 'Alice Johnson', 'alice@example.com', 'https://api.dicebear.com/7.x/avataaars/svg?seed=Alice', 'Coffee lover ☕', true),
--- (uuid_generate_v4(), 'Bob Smith', 'bob@example.com', 'https://api.dicebear.com/7.x/avataaars/svg?seed=Bob', 'Tech enthusiast 💻', true);
+-- Sample users must be created through Supabase Auth (Dashboard > Authentication,
+-- or supabase.auth.signUp); the trigger above creates their profile rows.
@@ -0,0 +1,257 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Push notifications for new messages
+ *
+ * Flow:
+ * 1. The push_new_messages trigger posts { message_id } here for every new
+ *    message, authenticated with the shared PUSH_WEBHOOK_SECRET
+ * 2. Every device of every recipient with a push token gets its own copy of
+ *    the message row, cut down to the key copies meant for that device
+ * 3. That copy is sealed like a message: AES-256-GCM, with the AES key
+ *    wrapped for the device's RSA public key. The push service only ever sees
+ *    ciphertext, not even who sent the message.
+ * 4. The app decrypts the envelope, then the message, on the device and
+ *    shows the preview as a local notification (see PushService)
+ *
+ * Environment:
+ * - PUSH_WEBHOOK_SECRET: must match app.push_webhook_secret in the database
+ * - PUSH_GATEWAY_URL: Expo push API by default; point it at
+ *   scripts/mock-push-gateway.js to test locally
+ * - EXPO_ACCESS_TOKEN: optional, when the Expo project requires one
+ */
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const MESSAGES_PER_REQUEST = 100;   // Expo push API limit
+const MAX_ROW_LENGTH = 2500;        // Keeps the sealed payload under the 4 KB push limit
+const KEY_ID_LENGTH = 16;
+
+const MESSAGE_COLUMNS = [
+  'id',
+  'sender_id',
+  'sender_device_id',
+  'receiver_id',
+  'group_id',
+  'content',
+  'encrypted_key',
+  'key_id',
+  'encrypted_keys',
+  'device_keys',
+  'reply_to_id',
+  'attachment',
+  'iv',
+  'created_at',
+];
+
+interface PushTarget {
+  userId: string;
+  deviceId: string;
+  token: string;
+  publicKey: string;
+}
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+Deno.serve(async (request) => {
+  if (request.headers.get('x-push-secret') !== Deno.env.get('PUSH_WEBHOOK_SECRET')) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const { message_id: messageId } = await request.json();
+    const { data: message, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS.join(','))
+      .eq('id', messageId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!message) return new Response('Message not found', { status: 404 });
+
+    const targets = await getTargets(message);
+    const pushes = await Promise.all(
+      targets.map(async (target) => ({
+        to: target.token,
+        data: { envelope: await seal(forDevice(message, target), target.publicKey) },
+        priority: 'high',
+        _contentAvailable: true,
+      }))
+    );
+
+    const expired = await send(pushes);
+    if (expired.length > 0) {
+      await supabase.from('push_tokens').delete().in('token', expired);
+    }
+
+    return Response.json({ sent: pushes.length, expired: expired.length });
+  } catch (error) {
+    console.error('Error sending push notifications:', error);
+    return new Response('Error sending push notifications', { status: 500 });
+  }
+});
+
+/**
+ * Push tokens of the recipients' devices, never the sender's own
+ */
+async function getTargets(message: any): Promise<PushTarget[]> {
+  let userIds: string[] = [];
+  if (message.group_id) {
+    const { data, error } = await supabase
+      .from('group_members')
+      .select('user_id')
+      .eq('group_id', message.group_id);
+    if (error) throw error;
+    userIds = data.map((member: any) => member.user_id);
+  } else if (message.receiver_id) {
+    userIds = [message.receiver_id];
+  }
+  userIds = userIds.filter((id) => id !== message.sender_id);
+  if (userIds.length === 0) return [];
+
+  // Group members who blocked the sender don't hear about their messages
+  const { data: blocks, error: blocksError } = await supabase
+    .from('blocks')
+    .select('blocker_id')
+    .eq('blocked_id', message.sender_id)
+    .in('blocker_id', userIds);
+  if (blocksError) throw blocksError;
+  const blockerIds = new Set(blocks.map((block: any) => block.blocker_id));
+  userIds = userIds.filter((id) => !blockerIds.has(id));
+  if (userIds.length === 0) return [];
+
+  // Nor do recipients who muted the conversation (keyed by the group, or by the sender for them)
+  const { data: muted, error: mutedError } = await supabase
+    .from('conversation_settings')
+    .select('user_id')
+    .eq('conversation_id', message.group_id ?? message.sender_id)
+    .gt('muted_until', new Date().toISOString())
+    .in('user_id', userIds);
+  if (mutedError) throw mutedError;
+  const mutedIds = new Set(muted.map((setting: any) => setting.user_id));
+  userIds = userIds.filter((id) => !mutedIds.has(id));
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('push_tokens')
+    .select('user_id, device_id, token, devices(public_key)')
+    .in('user_id', userIds);
+  if (error) throw error;
+
+  return data
+    .filter((row: any) => row.devices?.public_key)
+    .map((row: any) => ({
+      userId: row.user_id,
+      deviceId: row.device_id,
+      token: row.token,
+      publicKey: row.devices.public_key,
+    }));
+}
+
+/**
+ * The message row with only the key copies the target device can use. Rows
+ * too large for a push lose their content; the app fetches it instead.
+ */
+function forDevice(message: any, target: PushTarget): Record<string, unknown> {
+  const deviceKey = message.device_keys?.[target.deviceId];
+  const groupKey = message.encrypted_keys?.[target.userId];
+  const row = {
+    ...message,
+    encrypted_key: message.group_id ? '' : message.encrypted_key,
+    encrypted_keys: groupKey ? { [target.userId]: groupKey } : null,
+    device_keys: deviceKey ? { [target.deviceId]: deviceKey } : null,
+  };
+
+  if (JSON.stringify(row).length <= MAX_ROW_LENGTH) return row;
+  return {
+    id: message.id,
+    sender_id: message.sender_id,
+    receiver_id: message.receiver_id,
+    group_id: message.group_id,
+    created_at: message.created_at,
+    truncated: true,
+  };
+}
+
+/**
+ * Encrypt a payload for one device, in the shape EncryptionService.unwrapMessageKey reads
+ */
+async function seal(payload: unknown, publicKeyJwkString: string) {
+  const publicKeyJwk = JSON.parse(publicKeyJwkString);
+  const publicKey = await crypto.subtle.importKey(
+    'jwk',
+    publicKeyJwk,
+    { name: 'RSA-OAEP', hash: 'SHA-256' },
+    false,
+    ['encrypt']
+  );
+  const aesKeyData = crypto.getRandomValues(new Uint8Array(32));
+  const aesKey = await crypto.subtle.importKey('raw', aesKeyData, 'AES-GCM', false, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const [data, key, keyHash] = await Promise.all([
+    crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      aesKey,
+      new TextEncoder().encode(JSON.stringify(payload))
+    ),
+    crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, aesKeyData),
+    crypto.subtle.digest('SHA-256', new TextEncoder().encode(publicKeyJwk.n)),
+  ]);
+
+  return {
+    data: toBase64(data),
+    key: toBase64(key),
+    keyId: toHex(keyHash).slice(0, KEY_ID_LENGTH),
+    iv: toBase64(iv),
+  };
+}
+
+/**
+ * Send pushes through the gateway
+ * @returns Tokens the gateway reported as no longer registered
+ */
+async function send(pushes: object[]): Promise<string[]> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const accessToken = Deno.env.get('EXPO_ACCESS_TOKEN');
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+
+  const expired: string[] = [];
+  for (let i = 0; i < pushes.length; i += MESSAGES_PER_REQUEST) {
+    const batch = pushes.slice(i, i + MESSAGES_PER_REQUEST) as { to: string }[];
+    const response = await fetch(Deno.env.get('PUSH_GATEWAY_URL') || EXPO_PUSH_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(batch),
+    });
+    if (!response.ok) {
+      console.error('Push gateway error:', response.status, await response.text());
+      continue;
+    }
+
+    // Tickets come back in the order the pushes were sent
+    const { data: tickets } = await response.json();
+    tickets?.forEach((ticket: any, index: number) => {
+      if (ticket.details?.error === 'DeviceNotRegistered') {
+        expired.push(batch[index].to);
+      }
+    });
+  }
+  return expired;
+}
+
+function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
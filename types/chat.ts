@@ -1,35 +1,156 @@
+export type ProfileVisibility = 'everyone' | 'contacts' | 'nobody';
+
+export interface PrivacySettings {
+  discoverable: boolean; // Listed in directory search
+  emailVisibility: ProfileVisibility;
+  avatarVisibility: ProfileVisibility;
+}
+
 export interface User {
   id: string;
   name: string;
   email: string;
+  username?: string;
   avatar?: string;
   bio?: string;
   isOnboarded: boolean;
   publicKey?: string; 
+  privacy?: PrivacySettings; // Only loaded for the current user
+}
+
+/**
+ * Another user as their privacy settings let the current user see them
+ */
+export interface UserProfile {
+  id: string;
+  name: string;
+  username?: string;
+  email?: string;
+  avatar?: string;
 }
 
 export interface Contact {
   id: string;
   name: string;
-  email: string;
+  username?: string;
+  email?: string; // Unset unless the contact shares it
   avatar?: string;
   lastSeen?: Date;
   isOnline: boolean;
   publicKey?: string; 
 }
 
+export type ContactRequestStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+export interface ContactRequest {
+  id: string;
+  senderId: string;
+  recipientId: string;
+  note?: string;
+  status: ContactRequestStatus;
+  createdAt: Date;
+  user: UserProfile; // The other side of the request
+}
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'other';
+
+export interface Device {
+  id: string;
+  userId: string;
+  name: string;
+  publicKey: string; // RSA public key of this device (JWK format)
+  createdAt: Date;
+}
+
+export interface GroupMember {
+  userId: string;
+  name: string;
+  avatar?: string;
+  publicKey?: string;
+  role: 'admin' | 'member';
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  avatar?: string;
+  createdBy: string;
+  members: GroupMember[];
+}
+
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  size: number; // Plain file size in bytes
+  sha256: string; // Hex hash of the plain file bytes
+  path: string; // Storage path of the encrypted file
+  iv: string; // Base64 IV of the encrypted file
+  key: string; // Base64 message AES key, held in memory only
+}
+
+export interface AttachmentUpload {
+  data: ArrayBuffer;
+  name: string;
+  mimeType: string;
+}
+
+// 'failed': rejected by the server for good, e.g. after the recipient blocked
+// the sender. Only ever local; never cached or stored.
+export type MessageStatus = 'sending' | 'failed' | 'sent' | 'delivered' | 'read';
+
 export interface Message {
   id: string;
   senderId: string;
-  receiverId: string;
+  receiverId?: string; // Set for one-to-one messages
+  groupId?: string; // Set for group messages
   content: string;
+  attachment?: Attachment;
+  replyToId?: string; // Message in the same conversation this one replies to
   timestamp: Date;
-  isRead: boolean;
+  status: MessageStatus;
+  deliveredAt?: Date;
+  readAt?: Date;
+  editedAt?: Date; // Set once the sender has replaced the content
+  deletedAt?: Date; // Set once the sender has deleted the message for everyone; content is empty
+}
+
+export type NewMessage = Omit<
+  Message,
+  'id' | 'timestamp' | 'status' | 'deliveredAt' | 'readAt' | 'editedAt' | 'deletedAt'
+>;
+
+export interface Reaction {
+  id: string;
+  messageId: string;
+  userId: string;
+  emoji: string;
+}
+
+/**
+ * Position of the oldest loaded message, for keyset pagination
+ */
+export interface MessageCursor {
+  createdAt: string; // Raw timestamp, keeps the database's microsecond precision
+  id: string;
+}
+
+/**
+ * The user's own settings for a conversation, shared between their devices
+ */
+export interface ConversationSettings {
+  conversationId: string;
+  archivedAt?: Date;
+  mutedUntil?: Date;
+  pinnedAt?: Date;
 }
 
 export interface ChatConversation {
-  contactId: string;
+  id: string; // Contact's user id for direct chats, group id for groups
+  type: 'direct' | 'group';
+  contactId?: string;
+  groupId?: string;
   messages: Message[];
   lastMessage?: Message;
   unreadCount: number;
+  historyCursor?: MessageCursor; // Unset once the full history is loaded
 }
@@ -14,21 +14,31 @@ export interface Database {
           id: string
           name: string
           email: string
+          username: string | null
           avatar: string | null
           bio: string | null
           is_onboarded: boolean
+          discoverable: boolean
+          email_visibility: 'everyone' | 'contacts' | 'nobody'
+          avatar_visibility: 'everyone' | 'contacts' | 'nobody'
           public_key: string | null
+          last_seen_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
-          id?: string
+          id: string
           name: string
           email: string
+          username?: string | null
           avatar?: string | null
           bio?: string | null
           is_onboarded?: boolean
+          discoverable?: boolean
+          email_visibility?: 'everyone' | 'contacts' | 'nobody'
+          avatar_visibility?: 'everyone' | 'contacts' | 'nobody'
           public_key?: string | null
+          last_seen_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -36,13 +46,19 @@ export interface Database {
           id?: string
           name?: string
           email?: string
+          username?: string | null
           avatar?: string | null
           bio?: string | null
           is_onboarded?: boolean
+          discoverable?: boolean
+          email_visibility?: 'everyone' | 'contacts' | 'nobody'
+          avatar_visibility?: 'everyone' | 'contacts' | 'nobody'
           public_key?: string | null
+          last_seen_at?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       contacts: {
         Row: {
@@ -63,51 +79,735 @@ export interface Database {
           contact_user_id?: string
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "contacts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_contact_user_id_fkey"
+            columns: ["contact_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contacts_contact_user_id_fkey"
+            columns: ["contact_user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       messages: {
         Row: {
           id: string
           sender_id: string
-          receiver_id: string
+          sender_device_id: string | null
+          receiver_id: string | null
+          group_id: string | null
           content: string
           encrypted_key: string
+          key_id: string | null
+          sender_encrypted_key: string | null
+          sender_key_id: string | null
+          encrypted_keys: Json | null
+          device_keys: Json | null
+          reply_to_id: string | null
+          attachment: Json | null
           iv: string
-          is_read: boolean
+          delivered_at: string | null
+          read_at: string | null
+          edited_at: string | null
+          deleted_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           sender_id: string
-          receiver_id: string
+          sender_device_id?: string | null
+          receiver_id?: string | null
+          group_id?: string | null
           content: string
           encrypted_key: string
+          key_id?: string | null
+          sender_encrypted_key?: string | null
+          sender_key_id?: string | null
+          encrypted_keys?: Json | null
+          device_keys?: Json | null
+          reply_to_id?: string | null
+          attachment?: Json | null
           iv: string
-          is_read?: boolean
+          delivered_at?: string | null
+          read_at?: string | null
+          edited_at?: string | null
+          deleted_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           sender_id?: string
-          receiver_id?: string
+          sender_device_id?: string | null
+          receiver_id?: string | null
+          group_id?: string | null
           content?: string
           encrypted_key?: string
+          key_id?: string | null
+          sender_encrypted_key?: string | null
+          sender_key_id?: string | null
+          encrypted_keys?: Json | null
+          device_keys?: Json | null
+          reply_to_id?: string | null
+          attachment?: Json | null
           iv?: string
-          is_read?: boolean
+          delivered_at?: string | null
+          read_at?: string | null
+          edited_at?: string | null
+          deleted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_receiver_id_fkey"
+            columns: ["receiver_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          id: string
+          message_id: string
+          user_id: string
+          emoji: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          message_id: string
+          user_id: string
+          emoji: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          message_id?: string
+          user_id?: string
+          emoji?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_requests: {
+        Row: {
+          id: string
+          sender_id: string
+          recipient_id: string
+          note: string | null
+          status: string
+          created_at: string
+          responded_at: string | null
+        }
+        Insert: {
+          id?: string
+          sender_id: string
+          recipient_id: string
+          note?: string | null
+          status?: string
+          created_at?: string
+          responded_at?: string | null
+        }
+        Update: {
+          id?: string
+          sender_id?: string
+          recipient_id?: string
+          note?: string | null
+          status?: string
+          created_at?: string
+          responded_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_requests_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_requests_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_requests_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_requests_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blocks: {
+        Row: {
+          id: string
+          blocker_id: string
+          blocked_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          blocker_id: string
+          blocked_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          blocker_id?: string
+          blocked_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          id: string
+          reporter_id: string
+          reported_user_id: string
+          reason: string
+          message_ids: string[]
+          details: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          reporter_id: string
+          reported_user_id: string
+          reason: string
+          message_ids?: string[]
+          details?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          reporter_id?: string
+          reported_user_id?: string
+          reason?: string
+          message_ids?: string[]
+          details?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_reported_user_id_fkey"
+            columns: ["reported_user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_settings: {
+        Row: {
+          user_id: string
+          conversation_id: string
+          archived_at: string | null
+          muted_until: string | null
+          pinned_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          conversation_id: string
+          archived_at?: string | null
+          muted_until?: string | null
+          pinned_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          conversation_id?: string
+          archived_at?: string | null
+          muted_until?: string | null
+          pinned_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_settings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      groups: {
+        Row: {
+          id: string
+          name: string
+          avatar: string | null
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          avatar?: string | null
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          avatar?: string | null
+          created_by?: string
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "groups_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_members: {
+        Row: {
+          id: string
+          group_id: string
+          user_id: string
+          role: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          group_id: string
+          user_id: string
+          role?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          group_id?: string
+          user_id?: string
+          role?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prekeys: {
+        Row: {
+          id: string
+          user_id: string
+          device_id: string
+          kind: string
+          key_id: number
+          public_key: string
+          signing_key: string | null
+          signature: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          device_id: string
+          kind: string
+          key_id: number
+          public_key: string
+          signing_key?: string | null
+          signature?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          device_id?: string
+          kind?: string
+          key_id?: number
+          public_key?: string
+          signing_key?: string | null
+          signature?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prekeys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prekeys_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      devices: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          public_key: string
+          created_at: string
+        }
+        Insert: {
+          id: string
+          user_id: string
+          name: string
+          public_key: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          public_key?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "devices_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_links: {
+        Row: {
+          id: string
+          user_id: string
+          lookup: string
+          status: string
+          device_id: string | null
+          device_name: string | null
+          public_key: string | null
+          proof: string | null
+          key_bundle: Json | null
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          lookup: string
+          status?: string
+          device_id?: string | null
+          device_name?: string | null
+          public_key?: string | null
+          proof?: string | null
+          key_bundle?: Json | null
+          expires_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          lookup?: string
+          status?: string
+          device_id?: string | null
+          device_name?: string | null
+          public_key?: string | null
+          proof?: string | null
+          key_bundle?: Json | null
+          expires_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_links_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      key_history: {
+        Row: {
+          user_id: string
+          key_id: string
+          device_id: string | null
+          public_key: string
+          created_at: string
+          revoked_at: string | null
+        }
+        Insert: {
+          user_id: string
+          key_id: string
+          device_id?: string | null
+          public_key: string
+          created_at?: string
+          revoked_at?: string | null
+        }
+        Update: {
+          user_id?: string
+          key_id?: string
+          device_id?: string | null
+          public_key?: string
+          created_at?: string
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "key_history_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "key_history_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_tokens: {
+        Row: {
+          device_id: string
+          user_id: string
+          token: string
+          platform: string
+          updated_at: string
+        }
+        Insert: {
+          device_id: string
+          user_id: string
+          token: string
+          platform: string
+          updated_at?: string
+        }
+        Update: {
+          device_id?: string
+          user_id?: string
+          token?: string
+          platform?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_tokens_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: true
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "push_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      key_backups: {
+        Row: {
+          user_id: string
+          encrypted_keys: string
+          iv: string
+          salt: string
+          iterations: number
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          encrypted_keys: string
+          iv: string
+          salt: string
+          iterations: number
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          encrypted_keys?: string
+          iv?: string
+          salt?: string
+          iterations?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "key_backups_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      user_profiles: {
+        Row: {
+          id: string
+          name: string
+          username: string | null
+          email: string | null
+          avatar: string | null
+          bio: string | null
+          public_key: string | null
+          last_seen_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      is_group_member: {
+        Args: { target_group_id: string }
+        Returns: boolean
+      }
+      is_group_admin: {
+        Args: { target_group_id: string }
+        Returns: boolean
+      }
+      is_blocked_between: {
+        Args: { other_user_id: string }
+        Returns: boolean
+      }
+      is_contact_of: {
+        Args: { other_user_id: string }
+        Returns: boolean
+      }
+      knows_user: {
+        Args: { other_user_id: string }
+        Returns: boolean
+      }
+      search_users: {
+        Args: { query: string }
+        Returns: {
+          id: string
+          name: string
+          username: string | null
+          email: string | null
+          avatar: string | null
+          bio: string | null
+          public_key: string | null
+          last_seen_at: string | null
+        }[]
+      }
+      claim_prekey_bundle: {
+        Args: { target_device_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
     }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }
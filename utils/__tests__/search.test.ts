@@ -0,0 +1,39 @@
+import { getIndexTokens, tokenize } from '../search';
+
+describe('tokenize', () => {
+  it('lowercases words and strips accents and punctuation', () => {
+    expect(tokenize('Café à 8!')).toEqual(['cafe', 'a', '8']);
+  });
+
+  it('keeps non-Latin scripts', () => {
+    expect(tokenize('ሰላም, Selam')).toEqual(['ሰላም', 'selam']);
+  });
+
+  it('drops duplicate words', () => {
+    expect(tokenize('hi Hi HI there')).toEqual(['hi', 'there']);
+  });
+
+  it('shortens long words to their start', () => {
+    const [word] = tokenize('a'.repeat(40));
+    expect(word).toHaveLength(24);
+  });
+
+  it('returns nothing for text without words', () => {
+    expect(tokenize(' ... !? ')).toEqual([]);
+  });
+});
+
+describe('getIndexTokens', () => {
+  it('indexes every prefix of every word', () => {
+    expect(getIndexTokens('Hey you')).toEqual(['h', 'he', 'hey', 'y', 'yo', 'you']);
+  });
+
+  it('shares prefixes between words', () => {
+    expect(getIndexTokens('to top')).toEqual(['t', 'to', 'top']);
+  });
+
+  it('matches what a search tokenizes while typing', () => {
+    const indexed = getIndexTokens('Meeting tomorrow');
+    tokenize('meet TOMO').forEach((token) => expect(indexed).toContain(token));
+  });
+});
@@ -0,0 +1,30 @@
+const MAX_TOKEN_LENGTH = 24; // Longer words are indexed and searched by their start
+
+/**
+ * Lowercased words without accents, e.g. "Café à 8!" -> ["cafe", "a", "8"]
+ */
+export const tokenize = (text: string): string[] => {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map((word) => word.slice(0, MAX_TOKEN_LENGTH));
+
+  return Array.from(new Set(words));
+};
+
+/**
+ * Every prefix of every word, so a search matches words while they are
+ * still being typed
+ */
+export const getIndexTokens = (text: string): string[] => {
+  const prefixes = new Set<string>();
+  for (const word of tokenize(text)) {
+    for (let length = 1; length <= word.length; length++) {
+      prefixes.add(word.slice(0, length));
+    }
+  }
+  return Array.from(prefixes);
+};
@@ -0,0 +1,34 @@
+/**
+ * Short relative time, e.g. "Just now", "5m ago", "3h ago", "2d ago"
+ */
+export const formatLastSeen = (date?: Date): string => {
+  if (!date) return 'Never';
+  const now = new Date();
+  const diff = now.getTime() - date.getTime();
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  return `${days}d ago`;
+};
+
+/**
+ * Time of a conversation's last message for the chat list, e.g. "Now",
+ * "5m", "3h", "Yesterday", "Mon", or the date for anything older than a week
+ */
+export const formatMessageTime = (date: Date): string => {
+  const now = new Date();
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.ceil((startOfToday.getTime() - date.getTime()) / 86400000);
+
+  if (minutes < 1) return 'Now';
+  if (minutes < 60) return `${minutes}m`;
+  if (date >= startOfToday) return `${Math.floor(minutes / 60)}h`;
+  if (days <= 1) return 'Yesterday';
+  if (days < 7) return date.toLocaleDateString(undefined, { weekday: 'short' });
+  return date.toLocaleDateString();
+};